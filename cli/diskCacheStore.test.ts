@@ -0,0 +1,31 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createDiskCacheStore } from './diskCacheStore';
+
+let cacheDir = '';
+
+afterEach(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe('createDiskCacheStore', () => {
+  it('stores entries as files and invalidates them by file hash', async () => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-cache-'));
+    const store = createDiskCacheStore(path.join(cacheDir, 'nested'));
+
+    expect(await store.get('abc:text:v1')).toBeUndefined();
+    await store.set('abc:text:v1', { text: 'page 1' });
+    await store.set('abc:markdown:openai%2Fgpt-5-mini:v2', '# Benefits');
+    await store.set('def:text:v1', { text: 'other' });
+    expect(await store.get('abc:text:v1')).toEqual({ text: 'page 1' });
+    expect(store.stats).toEqual({ hits: 1, misses: 1, writes: 3 });
+
+    await store.invalidate('abc');
+    expect(await store.get('abc:markdown:openai%2Fgpt-5-mini:v2')).toBeUndefined();
+    expect(await store.get('def:text:v1')).toEqual({ text: 'other' });
+    await store.invalidate('');
+    expect(fs.readdirSync(path.join(cacheDir, 'nested'))).toEqual([]);
+  });
+});
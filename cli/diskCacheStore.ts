@@ -0,0 +1,42 @@
+/**
+ * On-disk extraction cache for the CLI and test scripts
+ *
+ * One JSON file per entry, named after the (URI-encoded) cache key, so
+ * invalidating a file hash is a filename prefix match.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExtractionCacheStore } from '../src/lib/extractionCache';
+
+export function createDiskCacheStore(cacheDir: string): ExtractionCacheStore & {
+  stats: { hits: number; misses: number; writes: number };
+} {
+  const stats = { hits: 0, misses: 0, writes: 0 };
+  const entryPath = (key: string) => path.join(cacheDir, `${encodeURIComponent(key)}.json`);
+
+  return {
+    stats,
+    async get<T>(key: string) {
+      const file = entryPath(key);
+      if (!fs.existsSync(file)) {
+        stats.misses++;
+        return undefined;
+      }
+      stats.hits++;
+      return JSON.parse(fs.readFileSync(file, 'utf8')).value as T;
+    },
+    async set<T>(key: string, value: T) {
+      fs.mkdirSync(cacheDir, { recursive: true });
+      fs.writeFileSync(entryPath(key), JSON.stringify({ key, value, storedAt: new Date().toISOString() }));
+      stats.writes++;
+    },
+    async invalidate(prefix: string) {
+      if (!fs.existsSync(cacheDir)) return;
+      const encoded = encodeURIComponent(prefix);
+      fs.readdirSync(cacheDir)
+        .filter((name) => name.endsWith('.json') && name.startsWith(encoded))
+        .forEach((name) => fs.unlinkSync(path.join(cacheDir, name)));
+    },
+  };
+}
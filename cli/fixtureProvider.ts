@@ -0,0 +1,150 @@
+/**
+ * Recorded-fixture LLM provider
+ *
+ * Lets extractDataApi run offline and deterministically:
+ * - replay: answers every completion / file extraction from a stored fixture,
+ *   keyed by a SHA-256 hash of the request (method, model, prompts, file bytes)
+ * - record: forwards to a real provider and writes each response to a fixture file
+ *
+ * File extraction covers the OpenAI upload + Assistants thread/run round trip,
+ * so convertPDFToMarkdown replays without network access too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type {
+  LLMCompletionRequest,
+  LLMEmbeddingRequest,
+  LLMFileRequest,
+  LLMProvider,
+  LLMProviderKind,
+  LLMResponse
+} from '../src/services/llm';
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface FixtureEntry {
+  key: string;
+  method: 'completeText' | 'completeJSON' | 'extractFromFile' | 'embed';
+  model: string | null;
+  promptPreview: string;
+  content: string;
+  recordedAt: string;
+}
+
+export interface FixtureProviderOptions {
+  fixturesDir: string;
+  mode: FixtureMode;
+  /** Real provider to forward to in record mode */
+  delegate?: LLMProvider;
+  /** Provider kind the fixtures were recorded with (replay only, default openai) */
+  kind?: LLMProviderKind;
+}
+
+/**
+ * Hash a request into a stable fixture key
+ */
+export function hashRequest(parts: Record<string, string | null | undefined>): string {
+  const hash = createHash('sha256');
+  for (const [name, value] of Object.entries(parts)) {
+    hash.update(`${name}\u0000${value ?? ''}\u0000`);
+  }
+  return hash.digest('hex');
+}
+
+export function createFixtureProvider(options: FixtureProviderOptions): LLMProvider & {
+  stats: { hits: number; misses: number; recorded: number };
+} {
+  const { fixturesDir, mode, delegate } = options;
+
+  if (mode === 'record' && !delegate) {
+    throw new Error('Fixture provider in record mode needs a real provider to forward to');
+  }
+
+  const stats = { hits: 0, misses: 0, recorded: 0 };
+  const fixturePath = (key: string) => path.join(fixturesDir, `${key}.json`);
+
+  async function resolve(
+    method: FixtureEntry['method'],
+    key: string,
+    model: string | null,
+    promptPreview: string,
+    call: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const file = fixturePath(key);
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        stats.misses++;
+        throw new Error(
+          `No fixture for ${method} (key ${key.substring(0, 12)}...) in ${fixturesDir}. ` +
+          `Re-run with --record and a real API key to capture it.`
+        );
+      }
+      stats.hits++;
+      const entry: FixtureEntry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      console.log(`[Fixture] Replayed ${method} ${key.substring(0, 12)}`);
+      return { content: entry.content, raw: { fixture: key } };
+    }
+
+    const response = await call();
+    const entry: FixtureEntry = {
+      key,
+      method,
+      model,
+      promptPreview: promptPreview.substring(0, 300),
+      content: response.content,
+      recordedAt: new Date().toISOString()
+    };
+    fs.mkdirSync(fixturesDir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry, null, 2));
+    stats.recorded++;
+    console.log(`[Fixture] Recorded ${method} ${key.substring(0, 12)}`);
+    return response;
+  }
+
+  function completion(method: 'completeText' | 'completeJSON') {
+    return (request: LLMCompletionRequest) => {
+      const key = hashRequest({
+        method,
+        model: request.model,
+        systemPrompt: request.systemPrompt,
+        userPrompt: request.userPrompt
+      });
+      return resolve(method, key, request.model ?? null, request.userPrompt, () => delegate![method](request));
+    };
+  }
+
+  return {
+    kind: delegate?.kind ?? options.kind ?? 'openai',
+    defaultModel: delegate?.defaultModel ?? 'fixture',
+    stats,
+
+    completeText: completion('completeText'),
+    completeJSON: completion('completeJSON'),
+
+    async extractFromFile(request: LLMFileRequest) {
+      const fileBytes = Buffer.from(await request.file.arrayBuffer());
+      const key = hashRequest({
+        method: 'extractFromFile',
+        model: request.model,
+        file: createHash('sha256').update(fileBytes).digest('hex'),
+        instructions: request.instructions,
+        prompt: request.prompt
+      });
+      return resolve('extractFromFile', key, request.model ?? null, request.prompt, () => delegate!.extractFromFile(request));
+    },
+
+    // Vectors are stored as JSON in the fixture content
+    async embed(request: LLMEmbeddingRequest) {
+      const key = hashRequest({ method: 'embed', model: request.model, texts: JSON.stringify(request.texts) });
+      const response = await resolve('embed', key, request.model ?? null, request.texts.join('\n'), async () => {
+        if (!delegate!.embed) throw new Error(`${delegate!.kind} provider has no embeddings API`);
+        const vectors = await delegate!.embed(request);
+        return { content: JSON.stringify(vectors), raw: null };
+      });
+      return JSON.parse(response.content) as number[][];
+    }
+  };
+}
@@ -0,0 +1,351 @@
+#!/usr/bin/env node
+/**
+ * Headless extraction and comparison, for scripting (e.g. nightly runs over
+ * incoming policy PDFs) without the React app.
+ *
+ *   npm run cli -- extract incoming/ --plan=ALKOOT --format=csv --out=nightly.csv
+ *   npm run cli -- compare last-year.pdf this-year.pdf --plan=QLM --format=markdown
+ *   npm run cli -- examples verified/
+ *
+ * Run with --help for all options.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PAYER_PLANS, type PayerPlan, type ExtractedData, type FewShotExample } from '../src/constants/fields';
+import type { FieldDefinition } from '../src/constants/fieldSchema';
+import { compareDocumentsApi, extractPdfTextApi, type ExtractDataApiParams } from '../src/services/extractionApi';
+import { createBatchJobs, runBatchExtraction, batchToRows } from '../src/services/batchExtraction';
+import { createLLMProvider, LLM_PROVIDER_OPTIONS, type LLMProvider, type LLMProviderConfig, type LLMProviderKind } from '../src/services/llm';
+import { parseFieldDefinition, parsePayerPlanExport } from '../src/lib/payerPlans';
+import { comparisonToRows, toCsv, toMarkdownTable } from '../src/lib/tableExport';
+import { expectedFileName, type ExpectedResultsFile } from '../src/lib/reviews';
+import { examplesFromExpected, mergeFewShotExamples } from '../src/lib/fewShotStore';
+import { hashFile, type ExtractionCacheStore } from '../src/lib/extractionCache';
+import { createFixtureProvider } from './fixtureProvider';
+import { createDiskCacheStore } from './diskCacheStore';
+
+type OutputFormat = 'json' | 'csv' | 'markdown';
+
+const DEFAULT_CACHE_DIR = '.extraction-cache';
+const DEFAULT_EXAMPLES_FILE = 'few-shot-examples.json';
+const BOOLEAN_FLAGS = ['verbose', 'record', 'help', 'no-cache', 'refresh'];
+
+const USAGE = `Usage:
+  npm run cli -- extract <pdf|dir>... [options]
+  npm run cli -- compare <pdf> <pdf>... [options]
+  npm run cli -- examples <pdf|dir>... [--expected=<file>] [--examples=<file>]
+
+Options:
+  --plan=<QLM|ALKOOT|name>   Built-in payer plan, or a plan name in the --fields export
+  --fields=<file>            Custom fields: .json (field names, field definitions or a
+                             payer plan export from the app) or text, one field per line
+  --provider=<kind>          ${LLM_PROVIDER_OPTIONS.map(o => o.value).join(' | ')} (default: the plan's provider)
+  --model=<name>             Model override
+  --base-url=<url>           Server URL for --provider=local
+  --format=<json|csv|markdown>  Output format (default: from --out extension, else json)
+  --out=<path>               Write to a file instead of stdout
+  --concurrency=<n>          Files extracted in parallel (extract only, default 3)
+  --retries=<n>              Retries per failed file (extract only, default 2)
+  --fixtures=<dir>           Replay recorded LLM responses (add --record to capture them)
+  --cache-dir=<dir>          Extraction cache (default ${DEFAULT_CACHE_DIR})
+  --no-cache                 Don't read or write the cache
+  --refresh                  Re-extract files even if cached, updating the cache
+  --examples=<file>          Few-shot example store: extract/compare show its verified values
+                             as examples, examples adds to it (default ${DEFAULT_EXAMPLES_FILE})
+  --expected=<file>          Ground truth for a single PDF (examples only; default: the
+                             <name>.expected.json next to each PDF)
+  --verbose                  Show pipeline logs on stderr
+
+API keys come from OPENAI_API_KEY, GEMINI_API_KEY or LOCAL_LLM_API_KEY.
+Exit code is 1 if any file failed.`;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]) {
+  const flags: Record<string, string | true> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (inline !== undefined) flags[name] = inline;
+    else if (argv[i + 1] && !argv[i + 1].startsWith('--') && !BOOLEAN_FLAGS.includes(name)) flags[name] = argv[++i];
+    else flags[name] = true;
+  }
+  return { command: positional[0], inputs: positional.slice(1), flags };
+}
+
+const stringFlag = (flags: Record<string, string | true>, name: string) =>
+  typeof flags[name] === 'string' ? (flags[name] as string) : undefined;
+
+const numberFlag = (flags: Record<string, string | true>, name: string) => {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`--${name} must be a whole number`);
+  return n;
+};
+
+// Directories expand to the PDFs directly inside them, sorted by name
+function resolvePdfs(inputs: string[]): string[] {
+  return inputs.flatMap((input) => {
+    if (!fs.existsSync(input)) throw new UsageError(`Not found: ${input}`);
+    if (!fs.statSync(input).isDirectory()) return [input];
+    return fs.readdirSync(input)
+      .filter((name) => name.toLowerCase().endsWith('.pdf'))
+      .sort()
+      .map((name) => path.join(input, name));
+  });
+}
+
+const readPdf = (pdfPath: string) =>
+  new File([fs.readFileSync(pdfPath)], path.basename(pdfPath), { type: 'application/pdf' });
+
+/**
+ * Plan and field selection: a built-in plan, a custom field list, or a plan
+ * exported from the app's Payer Plans page
+ */
+function resolvePlan(planFlag: string | undefined, fieldsFile: string | undefined) {
+  if (!fieldsFile) {
+    if (!planFlag) throw new UsageError('Pass --plan or --fields');
+    if (!(planFlag in PAYER_PLANS) || planFlag === PAYER_PLANS.CUSTOM) {
+      throw new UsageError(`Unknown plan "${planFlag}" - use QLM or ALKOOT, or pass --fields`);
+    }
+    return { payerPlan: planFlag as PayerPlan, label: planFlag };
+  }
+
+  const content = fs.readFileSync(fieldsFile, 'utf8');
+  const builtIn = planFlag && planFlag in PAYER_PLANS ? (planFlag as PayerPlan) : undefined;
+  const label = path.basename(fieldsFile, path.extname(fieldsFile));
+
+  if (!fieldsFile.toLowerCase().endsWith('.json')) {
+    const fields = content.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+    return { fields, payerPlan: builtIn, label };
+  }
+
+  const json = JSON.parse(content);
+  if (Array.isArray(json)) {
+    if (json.every((item) => typeof item === 'string')) return { fields: json as string[], payerPlan: builtIn, label };
+    const schema: FieldDefinition[] = json.map((item) => parseFieldDefinition(item, label));
+    return { schema, payerPlan: builtIn, label };
+  }
+
+  const plans = parsePayerPlanExport(json);
+  const plan = plans.length === 1 && !planFlag ? plans[0] : plans.find((p) => p.name === planFlag);
+  if (!plan) {
+    throw new UsageError(`Pick a plan with --plan: ${plans.map((p) => `"${p.name}"`).join(', ')}`);
+  }
+  return { schema: plan.fields, payerPlan: plan.basePlan, label: plan.name };
+}
+
+function resolveProvider(flags: Record<string, string | true>): LLMProviderConfig | LLMProvider | undefined {
+  const kind = stringFlag(flags, 'provider') as LLMProviderKind | undefined;
+  if (kind && !LLM_PROVIDER_OPTIONS.some((o) => o.value === kind)) throw new UsageError(`Unknown provider "${kind}"`);
+
+  const apiKeys: Record<LLMProviderKind, string | undefined> = {
+    openai: process.env.OPENAI_API_KEY,
+    gemini: process.env.GEMINI_API_KEY,
+    local: process.env.LOCAL_LLM_API_KEY,
+  };
+  const config: LLMProviderConfig | undefined = kind || flags.model
+    ? {
+        kind: kind || 'openai',
+        apiKey: apiKeys[kind || 'openai'],
+        model: stringFlag(flags, 'model'),
+        baseUrl: stringFlag(flags, 'base-url'),
+      }
+    : undefined;
+
+  const fixturesDir = stringFlag(flags, 'fixtures');
+  if (!fixturesDir) return config;
+  return createFixtureProvider({
+    fixturesDir: path.resolve(fixturesDir),
+    mode: flags.record ? 'record' : 'replay',
+    delegate: flags.record ? createLLMProvider(config || { kind: 'openai', apiKey: apiKeys.openai }) : undefined,
+  });
+}
+
+function outputFormat(flags: Record<string, string | true>): OutputFormat {
+  const format = stringFlag(flags, 'format');
+  if (format) {
+    if (format === 'md') return 'markdown';
+    if (format !== 'json' && format !== 'csv' && format !== 'markdown') throw new UsageError(`Unknown format "${format}"`);
+    return format;
+  }
+  const ext = path.extname(stringFlag(flags, 'out') || '').toLowerCase();
+  return ext === '.csv' ? 'csv' : ext === '.md' ? 'markdown' : 'json';
+}
+
+const progress = (message: string) => process.stderr.write(`${message}\n`);
+
+async function runExtract(files: File[], params: Omit<ExtractDataApiParams, 'file'>, flags: Record<string, string | true>, label: string, format: OutputFormat) {
+  const concurrency = numberFlag(flags, 'concurrency');
+  const maxRetries = numberFlag(flags, 'retries');
+  const jobs = await runBatchExtraction(createBatchJobs(files), params, {
+    // Unset flags must not override the batch defaults
+    ...(concurrency && { concurrency }),
+    ...(maxRetries !== undefined && { maxRetries }),
+    onUpdate: (job) => {
+      if (job.status === 'done') {
+        const note = job.cached ? ' (cached)' : job.fieldsFromTables ? ` (${job.fieldsFromTables} fields from tables, no model call)` : '';
+        progress(`✓ ${job.file.name}${note}`);
+      }
+      if (job.status === 'retrying') progress(`↻ ${job.file.name}: ${job.error}`);
+      if (job.status === 'failed') progress(`✗ ${job.file.name}: ${job.error}`);
+    },
+  });
+
+  const fields = params.schema?.map((f) => f.name) ?? params.fields;
+  const failed = jobs.filter((job) => job.status === 'failed').length;
+  let output: string;
+  if (format === 'csv') {
+    output = toCsv(batchToRows(jobs, fields));
+  } else if (format === 'markdown') {
+    const fieldTable = (data: ExtractedData) =>
+      toMarkdownTable(Object.entries(data).map(([field, value]) => ({ Field: field, Value: value ?? 'Not found' })));
+    output = [
+      `# Extraction - ${label}`,
+      ...jobs.map((job) => `## ${job.file.name}\n\n${job.data ? fieldTable(job.data) : `Failed: ${job.error}`}`),
+    ].join('\n\n');
+  } else {
+    output = JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      payerPlan: label,
+      documents: jobs.map((job) => ({
+        file: job.file.name,
+        status: job.status,
+        attempts: job.attempts,
+        cached: Boolean(job.cached),
+        fieldsFromTables: job.fieldsFromTables ?? 0,
+        promptVersions: job.promptVersions ?? {},
+        rulesFired: job.rulesFired ?? [],
+        warnings: job.warnings ?? [],
+        data: job.data ?? null,
+        ...(job.error && job.status === 'failed' && { error: job.error }),
+      })),
+    }, null, 2);
+  }
+  return { output, failed };
+}
+
+async function runCompare(files: File[], params: Omit<ExtractDataApiParams, 'file'>, label: string, format: OutputFormat) {
+  const results = await compareDocumentsApi({ ...params, files });
+  const fileNames = files.map((file) => file.name);
+  let output: string;
+  if (format === 'csv') {
+    output = toCsv(comparisonToRows(results, fileNames));
+  } else if (format === 'markdown') {
+    output = [
+      `# Comparison - ${label}`,
+      fileNames.map((name, idx) => `${idx + 1}. ${name}`).join('\n'),
+      toMarkdownTable(comparisonToRows(results, fileNames)),
+    ].join('\n\n');
+  } else {
+    output = JSON.stringify({ generatedAt: new Date().toISOString(), payerPlan: label, files: fileNames, results }, null, 2);
+  }
+  return { output, failed: 0 };
+}
+
+const readExamples = (examplesPath: string): FewShotExample[] =>
+  fs.existsSync(examplesPath) ? JSON.parse(fs.readFileSync(examplesPath, 'utf8')) : [];
+
+/**
+ * Adds the verified values of PDFs with a ground truth file to the example store
+ */
+async function runExamples(pdfs: string[], flags: Record<string, string | true>, cache: ExtractionCacheStore | null, examplesPath: string) {
+  const expectedFlag = stringFlag(flags, 'expected');
+  if (expectedFlag && pdfs.length > 1) throw new UsageError('--expected needs a single PDF');
+
+  const added: FewShotExample[] = [];
+  for (const pdfPath of pdfs) {
+    const expectedPath = expectedFlag || path.join(path.dirname(pdfPath), expectedFileName(path.basename(pdfPath)));
+    if (!fs.existsSync(expectedPath)) {
+      progress(`- ${path.basename(pdfPath)}: no ${path.basename(expectedPath)}, skipped`);
+      continue;
+    }
+    const expected: ExpectedResultsFile = JSON.parse(fs.readFileSync(expectedPath, 'utf8'));
+    const file = readPdf(pdfPath);
+    const examples = examplesFromExpected(expected, await extractPdfTextApi(file, { cache }), await hashFile(file));
+    progress(`✓ ${file.name}: ${examples.length} example(s)`);
+    added.push(...examples);
+  }
+
+  const examples = mergeFewShotExamples(readExamples(examplesPath), added);
+  fs.mkdirSync(path.dirname(path.resolve(examplesPath)), { recursive: true });
+  fs.writeFileSync(examplesPath, `${JSON.stringify(examples, null, 2)}\n`);
+  progress(`Saved ${examples.length} example(s) to ${examplesPath}`);
+}
+
+async function main() {
+  const { command, inputs, flags } = parseArgs(process.argv.slice(2));
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'extract' && command !== 'compare' && command !== 'examples') throw new UsageError(`Unknown command "${command}"`);
+
+  const pdfs = resolvePdfs(inputs);
+  if (pdfs.length === 0) throw new UsageError('No PDF files given');
+  if (command === 'compare' && pdfs.length < 2) throw new UsageError('compare needs at least two PDFs');
+
+  const cache = flags['no-cache'] ? null : createDiskCacheStore(path.resolve(stringFlag(flags, 'cache-dir') || DEFAULT_CACHE_DIR));
+  const examplesPath = stringFlag(flags, 'examples') || DEFAULT_EXAMPLES_FILE;
+
+  // The pipeline logs every step (including the full PDF text) - keep stdout for the result
+  const log = console.log;
+  if (!flags.verbose) {
+    console.log = console.info = console.warn = console.debug = () => {};
+  } else {
+    console.log = console.info = console.debug = (...args: unknown[]) => console.error(...args);
+  }
+
+  if (command === 'examples') {
+    await runExamples(pdfs, flags, cache, examplesPath);
+    return;
+  }
+
+  const { label, ...plan } = resolvePlan(stringFlag(flags, 'plan'), stringFlag(flags, 'fields'));
+  const provider = resolveProvider(flags);
+  const format = outputFormat(flags);
+  const params: Omit<ExtractDataApiParams, 'file'> = {
+    ...plan,
+    payerPlanName: label,
+    apiKey: process.env.OPENAI_API_KEY || '',
+    ...(provider && { provider }),
+    cache,
+    refresh: Boolean(flags.refresh),
+    examples: readExamples(examplesPath),
+  };
+
+  progress(`${command === 'extract' ? 'Extracting' : 'Comparing'} ${pdfs.length} file(s) with ${label}...`);
+  const files = pdfs.map(readPdf);
+  const { output, failed } = command === 'extract'
+    ? await runExtract(files, params, flags, label, format)
+    : await runCompare(files, params, label, format);
+
+  const outPath = stringFlag(flags, 'out');
+  if (outPath) {
+    fs.mkdirSync(path.dirname(path.resolve(outPath)), { recursive: true });
+    fs.writeFileSync(outPath, `${output}\n`);
+    progress(`Saved ${format} to ${outPath}`);
+  } else {
+    log(output);
+  }
+  if (failed > 0) {
+    progress(`${failed} of ${files.length} file(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  console.error('Fatal error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+// netlify/functions/extract.ts
+// POST /.netlify/functions/extract - see server/extractHandler.ts
+import { handleExtractRequest } from "../../server/extractHandler";
+
+interface NetlifyEvent {
+  httpMethod: string;
+  headers: Record<string, string | undefined>;
+  body: string | null;
+  isBase64Encoded?: boolean;
+}
+
+export const handler = async (event: NetlifyEvent) =>
+  handleExtractRequest({
+    method: event.httpMethod,
+    headers: event.headers,
+    body: event.isBase64Encoded && event.body ? Buffer.from(event.body, 'base64').toString('utf8') : event.body || '',
+  });
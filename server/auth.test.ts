@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { authenticate, generateToken, hashToken, parseTokenConfig } from "./auth";
+
+const token = generateToken();
+const otherToken = generateToken();
+
+describe('parseTokenConfig', () => {
+  it('keeps well-formed user:hash pairs only', () => {
+    const tokens = parseTokenConfig(` alice:${hashToken(token).toUpperCase()}, bob:not-a-hash, :${hashToken(otherToken)}, carol`);
+    expect([...tokens]).toEqual([[hashToken(token), 'alice']]);
+    expect(parseTokenConfig(undefined).size).toBe(0);
+  });
+});
+
+describe('authenticate', () => {
+  const tokens = parseTokenConfig(`alice:${hashToken(token)},bob:${hashToken(otherToken)}`);
+
+  it('resolves the user of a configured bearer token', () => {
+    expect(authenticate(`Bearer ${token}`, tokens)).toEqual({ user: 'alice' });
+    expect(authenticate(`bearer  ${otherToken}`, tokens)).toEqual({ user: 'bob' });
+  });
+
+  it('rejects unknown tokens and other schemes', () => {
+    expect(authenticate(`Bearer ${generateToken()}`, tokens)).toBeNull();
+    expect(authenticate(`Basic ${token}`, tokens)).toBeNull();
+    expect(authenticate(`Bearer ${hashToken(token)}`, tokens)).toBeNull();
+    expect(authenticate(undefined, tokens)).toBeNull();
+  });
+});
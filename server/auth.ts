@@ -0,0 +1,37 @@
+// Per-user access tokens for the extraction server. Only SHA-256 hashes are
+// configured on the server, so a leaked config does not leak usable tokens.
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+export interface TokenUser {
+  user: string;
+}
+
+export const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export const generateToken = () => randomBytes(24).toString("base64url");
+
+/**
+ * Parses EXTRACTION_API_TOKENS: comma-separated "user:sha256-of-token" pairs
+ */
+export function parseTokenConfig(config: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (config || "").split(",")) {
+    const [user, hash] = entry.trim().split(":");
+    if (user && /^[a-f0-9]{64}$/i.test(hash || "")) tokens.set(hash.toLowerCase(), user);
+  }
+  return tokens;
+}
+
+/**
+ * Resolves the user for an "Authorization: Bearer <token>" header, or null
+ */
+export function authenticate(authorization: string | undefined, tokens: Map<string, string>): TokenUser | null {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return null;
+
+  const hash = Buffer.from(hashToken(token), "hex");
+  for (const [known, user] of tokens) {
+    if (timingSafeEqual(hash, Buffer.from(known, "hex"))) return { user };
+  }
+  return null;
+}
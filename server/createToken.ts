@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+/**
+ * Issues an access token for the extraction server
+ *
+ *   npm run server:token -- <user>
+ *
+ * Give the token to the user and append the printed "user:hash" entry to
+ * EXTRACTION_API_TOKENS (comma separated). Remove the entry to revoke access.
+ */
+import { generateToken, hashToken } from "./auth";
+
+const user = process.argv[2];
+if (!user || !/^[\w.@-]+$/.test(user)) {
+  console.error('Usage: npm run server:token -- <user>   (letters, digits, . @ _ -)');
+  process.exit(1);
+}
+
+const token = generateToken();
+console.log(`Token for ${user} (shown once):\n  ${token}\n`);
+console.log(`EXTRACTION_API_TOKENS entry:\n  ${user}:${hashToken(token)}`);
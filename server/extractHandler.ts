@@ -0,0 +1,131 @@
+// Server-side extraction endpoint. Runs the same pipeline as the browser with
+// an LLM key held by the server; callers authenticate with a per-user token.
+// Transport-agnostic so the Netlify function and the local Node server share it.
+import { extractDataDetailedApi } from "../src/services/extractionApi";
+import { PAYER_PLANS, type PayerPlan } from "../src/constants/fields";
+import type { FieldDefinition } from "../src/constants/fieldSchema";
+import type { LLMProviderConfig, LLMProviderKind } from "../src/services/llm";
+import { authenticate, parseTokenConfig } from "./auth";
+
+// Netlify caps request bodies at 6 MB; base64 adds a third
+const MAX_PDF_BYTES = 4 * 1024 * 1024;
+
+export interface ServerRequest {
+  method: string;
+  headers: Record<string, string | undefined>;
+  body: string;
+}
+
+export interface ServerResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Request body of POST /api/extract
+export interface ServerExtractRequest {
+  fileName: string;
+  fileBase64: string;
+  payerPlan?: PayerPlan;
+  payerPlanName?: string;
+  fields?: string[];
+  schema?: FieldDefinition[];
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': process.env.EXTRACTION_ALLOWED_ORIGIN || '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+const respond = (statusCode: number, body: unknown): ServerResponse => ({
+  statusCode,
+  headers: CORS_HEADERS,
+  body: statusCode === 204 ? '' : JSON.stringify(body)
+});
+
+/**
+ * LLM provider from the server environment - the client never chooses the key
+ */
+function serverProvider(): LLMProviderConfig | null {
+  const kind = (process.env.EXTRACTION_LLM_PROVIDER || 'openai') as LLMProviderKind;
+  switch (kind) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY ? { kind, apiKey: process.env.OPENAI_API_KEY } : null;
+    case 'gemini':
+      return process.env.GEMINI_API_KEY ? { kind, apiKey: process.env.GEMINI_API_KEY } : null;
+    case 'local':
+      return { kind, baseUrl: process.env.LOCAL_LLM_BASE_URL, apiKey: process.env.LOCAL_LLM_API_KEY };
+    default:
+      return null;
+  }
+}
+
+function parseRequest(body: string): ServerExtractRequest | string {
+  let data: Partial<ServerExtractRequest>;
+  try {
+    data = JSON.parse(body || '{}');
+  } catch {
+    return 'Body must be JSON';
+  }
+  if (typeof data.fileName !== 'string' || typeof data.fileBase64 !== 'string' || !data.fileBase64) {
+    return 'fileName and fileBase64 are required';
+  }
+  if (data.payerPlan && !(data.payerPlan in PAYER_PLANS)) {
+    return `Unknown payer plan "${data.payerPlan}"`;
+  }
+  if (data.fields && (!Array.isArray(data.fields) || data.fields.some(f => typeof f !== 'string'))) {
+    return 'fields must be a list of field names';
+  }
+  if (data.schema && (!Array.isArray(data.schema) || data.schema.some(f => typeof f?.name !== 'string'))) {
+    return 'schema must be a list of field definitions';
+  }
+  if (!data.payerPlan && !data.fields?.length && !data.schema?.length) {
+    return 'Provide a payerPlan, fields or schema';
+  }
+  return data as ServerExtractRequest;
+}
+
+export async function handleExtractRequest(request: ServerRequest): Promise<ServerResponse> {
+  if (request.method === 'OPTIONS') return respond(204, null);
+  if (request.method !== 'POST') return respond(405, { error: 'Method Not Allowed' });
+
+  const headers = Object.fromEntries(Object.entries(request.headers).map(([k, v]) => [k.toLowerCase(), v]));
+  const caller = authenticate(headers.authorization, parseTokenConfig(process.env.EXTRACTION_API_TOKENS));
+  if (!caller) return respond(401, { error: 'Missing or invalid access token' });
+
+  const provider = serverProvider();
+  if (!provider) {
+    console.error('[Extract API] No LLM key configured on the server');
+    return respond(500, { error: 'Extraction is not configured on this server' });
+  }
+
+  const parsed = parseRequest(request.body);
+  if (typeof parsed === 'string') return respond(400, { error: parsed });
+
+  const pdf = Buffer.from(parsed.fileBase64, 'base64');
+  if (pdf.length > MAX_PDF_BYTES) {
+    return respond(413, { error: `PDF is larger than ${MAX_PDF_BYTES / 1024 / 1024} MB` });
+  }
+  if (pdf.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    return respond(400, { error: 'File is not a PDF' });
+  }
+
+  console.log(`[Extract API] ${caller.user} extracting ${parsed.fileName} (${pdf.length} bytes)`);
+  try {
+    const result = await extractDataDetailedApi({
+      file: new File([pdf], parsed.fileName, { type: 'application/pdf' }),
+      apiKey: provider.apiKey || '',
+      fields: parsed.fields,
+      schema: parsed.schema,
+      payerPlan: parsed.payerPlan,
+      payerPlanName: parsed.payerPlanName,
+      provider,
+    });
+    return respond(200, result);
+  } catch (error) {
+    console.error(`[Extract API] Extraction failed for ${caller.user}:`, error);
+    return respond(502, { error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * Local extraction server - same endpoint as the Netlify function, for running
+ * without Netlify. Point the app at it with VITE_EXTRACTION_API_URL.
+ *
+ *   EXTRACTION_API_TOKENS=... OPENAI_API_KEY=... npm run server
+ */
+import { createServer } from "http";
+import { handleExtractRequest } from "./extractHandler";
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROUTES = ['/api/extract', '/.netlify/functions/extract'];
+// Stop reading before the handler's own size check can even run
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+const server = createServer((req, res) => {
+  const path = (req.url || '').split('?')[0];
+  if (!ROUTES.includes(path)) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not Found' }));
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      res.writeHead(413, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Request too large' }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', async () => {
+    const response = await handleExtractRequest({
+      method: req.method || 'GET',
+      headers: req.headers as Record<string, string | undefined>,
+      body: Buffer.concat(chunks).toString('utf8'),
+    });
+    res.writeHead(response.statusCode, response.headers);
+    res.end(response.body);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Extraction server listening on http://localhost:${PORT}${ROUTES[0]}`);
+});
@@ -0,0 +1,94 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Layers, Loader2, RotateCcw } from "lucide-react";
+import type { BatchJob, BatchJobStatus } from "@/services/batchExtraction";
+import { batchFieldColumns } from "@/services/batchExtraction";
+import { cn } from "@/lib/utils";
+
+interface BatchResultsTableProps {
+  jobs: BatchJob[];
+  fields?: string[];
+  isRunning?: boolean;
+  onRetryFailed?: () => void;
+}
+
+const STATUS_BADGES: Record<BatchJobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-muted text-muted-foreground' },
+  running: { label: 'Running', className: 'bg-primary/10 text-primary' },
+  retrying: { label: 'Retrying', className: 'bg-warning-light text-warning' },
+  done: { label: 'Done', className: 'bg-success-light text-success' },
+  failed: { label: 'Failed', className: 'bg-destructive/10 text-destructive' },
+};
+
+export const BatchResultsTable = ({ jobs, fields, isRunning, onRetryFailed }: BatchResultsTableProps) => {
+  const finished = jobs.filter((job) => job.status === 'done' || job.status === 'failed').length;
+  const failed = jobs.filter((job) => job.status === 'failed').length;
+  const columns = batchFieldColumns(jobs, fields);
+
+  return (
+    <Card className="bg-card shadow-md">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Layers className="h-5 w-5 text-primary" />
+          Batch Extraction
+          {failed > 0 && !isRunning && onRetryFailed && (
+            <Button size="sm" variant="outline" className="ml-auto" onClick={onRetryFailed}>
+              <RotateCcw className="h-4 w-4 mr-2" /> Retry {failed} failed
+            </Button>
+          )}
+        </CardTitle>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{finished}/{jobs.length} files processed</span>
+            {failed > 0 && <span className="text-destructive">{failed} failed</span>}
+          </div>
+          <Progress value={jobs.length ? (finished / jobs.length) * 100 : 0} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead className="font-semibold text-foreground sticky left-0 bg-card min-w-48">File</TableHead>
+                <TableHead className="font-semibold text-foreground w-28">Status</TableHead>
+                {columns.map((field) => (
+                  <TableHead key={field} className="font-semibold text-foreground min-w-40">{field}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id} className={cn("border-border hover:bg-muted/50", job.status === 'failed' && "bg-destructive/5")}>
+                  <TableCell className="font-medium text-foreground sticky left-0 bg-card">{job.file.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={STATUS_BADGES[job.status].className} title={job.error}>
+                      {(job.status === 'running' || job.status === 'retrying') && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      {STATUS_BADGES[job.status].label}
+                      {job.attempts > 1 && ` (${job.attempts})`}
+                    </Badge>
+                    {job.cached && <Badge variant="outline" className="ml-1" title="Reused an earlier extraction of this file">Cached</Badge>}
+                  </TableCell>
+                  {job.status === 'failed' ? (
+                    <TableCell colSpan={Math.max(columns.length, 1)} className="text-sm text-destructive">
+                      {job.error}
+                    </TableCell>
+                  ) : (
+                    columns.map((field) => (
+                      <TableCell key={field} className="text-muted-foreground">
+                        {job.data?.[field] ?? (job.data ? <span className="italic">Not found</span> : '—')}
+                      </TableCell>
+                    ))
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
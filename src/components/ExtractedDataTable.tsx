@@ -1,32 +1,150 @@
+import { useState } from "react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, AlertCircle, FileText } from "lucide-react";
-import type { ExtractedData, ComparisonResult } from "@/constants/fields";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle, XCircle, AlertCircle, AlertTriangle, FileText, Check, Pencil, X, TrendingUp, TrendingDown, type LucideIcon } from "lucide-react";
+import type { ExtractedData, ComparisonStatus, DocumentComparisonResult, ExtractionProvenance, FieldProvenance, FieldReview, ReviewStatus } from "@/constants/fields";
 import { FIELD_SUGGESTIONS, PAYER_PLANS } from "@/constants/fields";
 import { cn } from "@/lib/utils";
+import { countByStatus } from "@/lib/reviews";
 
 interface ExtractedDataTableProps {
   mode: 'single' | 'compare';
   data?: ExtractedData;
-  comparisonData?: ComparisonResult[];
+  provenance?: ExtractionProvenance;
+  comparisonData?: DocumentComparisonResult[];
   fileName?: string;
-  fileNames?: [string, string];
+  fileNames?: string[];
   payerPlan?: keyof typeof PAYER_PLANS;
+  selectedField?: string | null;
+  onFieldSelect?: (field: string) => void;
+  reviews?: Record<string, FieldReview>;
+  onReview?: (field: string, status: Exclude<ReviewStatus, 'pending'>, value?: string | null) => void;
 }
 
+const REVIEW_BADGES: Record<ReviewStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-muted text-muted-foreground' },
+  accepted: { label: 'Accepted', className: 'bg-success-light text-success' },
+  corrected: { label: 'Corrected', className: 'bg-warning-light text-warning' },
+  rejected: { label: 'Rejected', className: 'bg-destructive/10 text-destructive' },
+};
+
+// Colors for documents that share a value in the compare view
+const GROUP_COLORS = ['bg-primary', 'bg-accent', 'bg-amber-500', 'bg-violet-500', 'bg-rose-500', 'bg-emerald-500'];
+
+const COMPARISON_BADGES: Record<ComparisonStatus, { label: string; className: string; icon: LucideIcon }> = {
+  'same': { label: 'Same', className: 'bg-success-light text-success', icon: CheckCircle },
+  'format-only': { label: 'Format only', className: 'bg-success-light text-success', icon: CheckCircle },
+  'equivalent': { label: 'Equivalent', className: 'bg-success-light text-success', icon: CheckCircle },
+  'increased': { label: 'Increased', className: 'bg-warning-light text-warning', icon: TrendingUp },
+  'decreased': { label: 'Decreased', className: 'bg-warning-light text-warning', icon: TrendingDown },
+  'different': { label: 'Different', className: 'bg-warning-light text-warning', icon: AlertCircle },
+  'missing': { label: 'Missing', className: 'bg-muted text-muted-foreground', icon: XCircle },
+};
+
+// Statuses that are a real change, as opposed to formatting or wording noise
+const CHANGED_STATUSES: ComparisonStatus[] = ['increased', 'decreased', 'different'];
+
+const PASS_LABELS: Record<FieldProvenance['pass'], string> = {
+  'direct': 'Direct extraction',
+  'table': 'Table search',
+  'single-field': 'Single-field pass',
+  'revalidation': 'Revalidation pass',
+  'post-processing': 'Post-processing rule',
+};
+
+const ProvenanceDetails = ({ provenance }: { provenance: FieldProvenance }) => (
+  <div className="space-y-2 text-xs">
+    <div className="flex items-center justify-between">
+      <span className="font-medium text-foreground">Where this came from</span>
+      <Badge variant="secondary" className="bg-primary/10 text-primary">
+        {Math.round(provenance.confidence * 100)}% confidence
+      </Badge>
+    </div>
+    <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-muted-foreground">
+      <dt>Page</dt>
+      <dd className="text-foreground">{provenance.page ?? '—'}</dd>
+      <dt>Source</dt>
+      <dd className="text-foreground">{provenance.source ?? '—'}</dd>
+      <dt>Pass</dt>
+      <dd className="text-foreground">
+        {PASS_LABELS[provenance.pass]}
+        {provenance.ocr && <Badge variant="outline" className="ml-1">OCR</Badge>}
+      </dd>
+      {provenance.agreement !== undefined && provenance.votes && (
+        <>
+          <dt>Agreement</dt>
+          <dd className="text-foreground">
+            {Math.round(provenance.agreement * provenance.votes.length)} of {provenance.votes.length} passes
+          </dd>
+        </>
+      )}
+      {provenance.rules && provenance.rules.length > 0 && (
+        <>
+          <dt>Rules</dt>
+          <dd className="text-foreground">{provenance.rules.join(', ')}</dd>
+        </>
+      )}
+      {provenance.rawValue !== provenance.value && (
+        <>
+          <dt>Raw value</dt>
+          <dd className="text-foreground">{provenance.rawValue ?? 'null'}</dd>
+        </>
+      )}
+      {provenance.passages && provenance.passages.length > 0 && (
+        <>
+          <dt>Passages</dt>
+          <dd className="text-foreground">
+            {provenance.passages.map((passage, idx) => (
+              <div key={idx}>
+                p. {passage.page}{passage.section && ` · ${passage.section}`}
+              </div>
+            ))}
+          </dd>
+        </>
+      )}
+    </dl>
+    {provenance.snippet && (
+      <p className="rounded bg-muted/50 p-2 italic text-muted-foreground">"{provenance.snippet}"</p>
+    )}
+  </div>
+);
+
 export const ExtractedDataTable = ({ 
   mode, 
   data, 
+  provenance,
   comparisonData, 
   fileName, 
   fileNames,
-  payerPlan
+  payerPlan,
+  selectedField,
+  onFieldSelect,
+  reviews,
+  onReview
 }: ExtractedDataTableProps) => {
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [draftValue, setDraftValue] = useState("");
+
+  const startEditing = (field: string, value: string | null) => {
+    setEditingField(field);
+    setDraftValue(value ?? "");
+  };
+
+  const saveEdit = (field: string) => {
+    onReview?.(field, 'corrected', draftValue);
+    setEditingField(null);
+  };
+
   if (mode === 'single' && data) {
     const foundCount = Object.values(data).filter(v => v !== null).length;
     const totalCount = Object.keys(data).length;
     const confidence = Math.round((foundCount / totalCount) * 100);
+    const reviewCounts = reviews ? countByStatus(reviews) : null;
+    const warningCount = Object.keys(data).filter(field => provenance?.[field]?.warnings?.length).length;
 
     return (
       <Card className="bg-card shadow-md">
@@ -39,6 +157,17 @@ export const ExtractedDataTable = ({
             <Badge variant="secondary" className="bg-primary/10 text-primary">
               {foundCount}/{totalCount} fields found ({confidence}% confidence)
             </Badge>
+            {reviewCounts && (
+              <span className="text-muted-foreground">
+                Reviewed {totalCount - reviewCounts.pending}/{totalCount} · {reviewCounts.corrected} corrected · {reviewCounts.rejected} rejected
+              </span>
+            )}
+            {warningCount > 0 && (
+              <span className="flex items-center gap-1 text-warning">
+                <AlertTriangle className="h-4 w-4" />
+                {warningCount} {warningCount === 1 ? 'field needs' : 'fields need'} a consistency check
+              </span>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -62,21 +191,76 @@ export const ExtractedDataTable = ({
                 <TableHead className="font-semibold text-foreground">Field</TableHead>
                 <TableHead className="font-semibold text-foreground">Value</TableHead>
                 <TableHead className="font-semibold text-foreground w-24">Status</TableHead>
+                {reviews && <TableHead className="font-semibold text-foreground w-40">Review</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {Object.entries(data).map(([field, value]) => (
-                <TableRow key={field} className="border-border hover:bg-muted/50">
+              {Object.entries(data).map(([field, modelValue]) => {
+                const review = reviews?.[field];
+                const value = review ? review.value : modelValue;
+                // Warnings are about the model's value - a review decision settles them
+                const warnings = !review || review.status === 'pending' ? provenance?.[field]?.warnings ?? [] : [];
+                return (
+                <TableRow
+                  key={field}
+                  onClick={onFieldSelect ? () => onFieldSelect(field) : undefined}
+                  className={cn(
+                    "border-border hover:bg-muted/50",
+                    onFieldSelect && "cursor-pointer",
+                    selectedField === field && "bg-primary/5 ring-1 ring-inset ring-primary/30"
+                  )}
+                >
                   <TableCell className="font-medium text-foreground">{field}</TableCell>
                   <TableCell className="text-muted-foreground">
-                    {value || (
+                    {editingField === field ? (
+                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        <Input
+                          autoFocus
+                          value={draftValue}
+                          onChange={(e) => setDraftValue(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveEdit(field);
+                            if (e.key === 'Escape') setEditingField(null);
+                          }}
+                          className="h-8"
+                        />
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => saveEdit(field)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : value ? (
+                      provenance?.[field] ? (
+                        <HoverCard openDelay={200}>
+                          <HoverCardTrigger asChild>
+                            <span className="cursor-help underline decoration-dotted underline-offset-4">{value}</span>
+                          </HoverCardTrigger>
+                          <HoverCardContent className="w-80">
+                            <ProvenanceDetails provenance={provenance[field]} />
+                          </HoverCardContent>
+                        </HoverCard>
+                      ) : value
+                    ) : (
                       <div className="space-y-2">
                         <span className="text-muted-foreground italic">Not found</span>
                       </div>
                     )}
+                    {review && review.status !== 'pending' && review.value !== review.modelValue && (
+                      <div className="mt-1 text-xs text-muted-foreground line-through">{review.modelValue ?? 'Not found'}</div>
+                    )}
+                    {warnings.map((warning, idx) => (
+                      <div key={idx} className="mt-1 flex items-start gap-1 text-xs text-warning">
+                        <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        {warning}
+                      </div>
+                    ))}
                   </TableCell>
                   <TableCell>
-                    {value ? (
+                    {value && warnings.length > 0 ? (
+                      <Badge variant="secondary" className="bg-warning-light text-warning">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        Check
+                      </Badge>
+                    ) : value ? (
                       <Badge variant="secondary" className="bg-success-light text-success">
                         <CheckCircle className="h-3 w-3 mr-1" />
                         Found
@@ -88,8 +272,27 @@ export const ExtractedDataTable = ({
                       </Badge>
                     )}
                   </TableCell>
+                  {review && (
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary" className={cn("mr-1", REVIEW_BADGES[review.status].className)}>
+                          {REVIEW_BADGES[review.status].label}
+                        </Badge>
+                        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Accept" onClick={() => onReview?.(field, 'accepted')}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Correct" onClick={() => startEditing(field, review.value)}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Reject" onClick={() => onReview?.(field, 'rejected')}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
                 </TableRow>
-              ))}
+                );
+              })}
             </TableBody>
           </Table>
         </CardContent>
@@ -98,6 +301,8 @@ export const ExtractedDataTable = ({
   }
 
   if (mode === 'compare' && comparisonData && fileNames) {
+    const differentCount = comparisonData.filter(item => CHANGED_STATUSES.includes(item.status)).length;
+
     return (
       <Card className="bg-card shadow-md">
         <CardHeader className="pb-4">
@@ -105,68 +310,77 @@ export const ExtractedDataTable = ({
             <FileText className="h-5 w-5 text-primary" />
             Comparison Results
           </CardTitle>
-          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-            <span className="flex items-center gap-1">
-              <div className="w-3 h-3 bg-primary rounded-full"></div>
-              File 1: {fileNames[0]}
-            </span>
-            <span className="flex items-center gap-1">
-              <div className="w-3 h-3 bg-accent rounded-full"></div>
-              File 2: {fileNames[1]}
-            </span>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            {fileNames.map((name, idx) => (
+              <span key={idx} className="flex items-center gap-1">
+                <span className="font-medium text-foreground">#{idx + 1}</span> {name}
+              </span>
+            ))}
+          </div>
+          <div className="text-sm">
+            <Badge variant="secondary" className="bg-warning-light text-warning">
+              {differentCount}/{comparisonData.length} fields changed
+            </Badge>
           </div>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow className="border-border">
-                <TableHead className="font-semibold text-foreground">Field</TableHead>
-                <TableHead className="font-semibold text-foreground">File 1</TableHead>
-                <TableHead className="font-semibold text-foreground">File 2</TableHead>
-                <TableHead className="font-semibold text-foreground w-24">Status</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {comparisonData.map((item) => (
-                <TableRow 
-                  key={item.field} 
-                  className={cn(
-                    "border-border hover:bg-muted/50",
-                    item.status === 'different' && "bg-diff-changed",
-                    item.status === 'missing' && "bg-muted/30"
-                  )}
-                >
-                  <TableCell className="font-medium text-foreground">{item.field}</TableCell>
-                  <TableCell className="text-muted-foreground">
-                    {item.file1Value || <span className="text-muted-foreground italic">Not found</span>}
-                  </TableCell>
-                  <TableCell className="text-muted-foreground">
-                    {item.file2Value || <span className="text-muted-foreground italic">Not found</span>}
-                  </TableCell>
-                  <TableCell>
-                    {item.status === 'same' && (
-                      <Badge variant="secondary" className="bg-success-light text-success">
-                        <CheckCircle className="h-3 w-3 mr-1" />
-                        Same
-                      </Badge>
-                    )}
-                    {item.status === 'different' && (
-                      <Badge variant="secondary" className="bg-warning-light text-warning">
-                        <AlertCircle className="h-3 w-3 mr-1" />
-                        Different
-                      </Badge>
-                    )}
-                    {item.status === 'missing' && (
-                      <Badge variant="secondary" className="bg-muted text-muted-foreground">
-                        <XCircle className="h-3 w-3 mr-1" />
-                        Missing
-                      </Badge>
-                    )}
-                  </TableCell>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead className="font-semibold text-foreground">Field</TableHead>
+                  {fileNames.map((_, idx) => (
+                    <TableHead key={idx} className="font-semibold text-foreground min-w-32">File {idx + 1}</TableHead>
+                  ))}
+                  <TableHead className="font-semibold text-foreground w-48">Status</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {comparisonData.map((item) => {
+                  const badge = COMPARISON_BADGES[item.status];
+                  const StatusIcon = badge.icon;
+                  // Which value group each document belongs to, for coloring
+                  const groupOf: number[] = [];
+                  item.groups.forEach((group, groupIdx) => group.forEach(docIdx => (groupOf[docIdx] = groupIdx)));
+
+                  return (
+                    <TableRow 
+                      key={item.field} 
+                      className={cn(
+                        "border-border hover:bg-muted/50",
+                        CHANGED_STATUSES.includes(item.status) && "bg-diff-changed",
+                        item.status === 'missing' && "bg-muted/30"
+                      )}
+                    >
+                      <TableCell className="font-medium text-foreground">{item.field}</TableCell>
+                      {item.values.map((value, docIdx) => (
+                        <TableCell key={docIdx} className="text-muted-foreground">
+                          <div className="flex items-start gap-2">
+                            {item.groups.length > 1 && (
+                              <span
+                                className={cn("mt-1.5 h-2 w-2 flex-shrink-0 rounded-full", GROUP_COLORS[groupOf[docIdx] % GROUP_COLORS.length])}
+                                title={`Same value as files ${item.groups[groupOf[docIdx]].map(i => i + 1).join(', ')}`}
+                              />
+                            )}
+                            {value || <span className="text-muted-foreground italic">Not found</span>}
+                          </div>
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <Badge variant="secondary" className={badge.className}>
+                          <StatusIcon className="h-3 w-3 mr-1" />
+                          {badge.label}
+                        </Badge>
+                        {item.status !== 'same' && item.status !== 'missing' && (
+                          <p className="mt-1 text-xs text-muted-foreground">{item.explanation}</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
         </CardContent>
       </Card>
     );
@@ -2,12 +2,21 @@ import { useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Upload, FileText, X, GitCompare } from "lucide-react";
+import { Upload, FileText, X, GitCompare, Layers, RefreshCcw } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+export type UploadMode = 'single' | 'compare' | 'batch' | 'renewal';
+
+const MAX_FILES: Record<UploadMode, number> = {
+  single: 1,
+  compare: 8,
+  batch: 100,
+  renewal: 2,
+};
+
 interface PDFUploaderProps {
-  mode: 'single' | 'compare';
-  onModeChange: (mode: 'single' | 'compare') => void;
+  mode: UploadMode;
+  onModeChange: (mode: UploadMode) => void;
   onFilesChange: (files: File[]) => void;
   files: File[];
   isLoading?: boolean;
@@ -29,40 +38,44 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
   const isPdfLike = (file: File) =>
     file.type.toLowerCase().includes('pdf') || /\.pdf$/i.test(file.name);
 
+  // Multi-file modes keep adding to the list (skipping duplicates); single mode replaces
+  const acceptFiles = useCallback((incoming: File[]) => {
+    if (incoming.length === 0) return;
+    if (mode !== 'single') {
+      const known = new Set(files.map((f) => `${f.name}:${f.size}`));
+      const added = incoming.filter((f) => !known.has(`${f.name}:${f.size}`));
+      onFilesChange([...files, ...added].slice(0, MAX_FILES[mode]));
+    } else {
+      onFilesChange(incoming.slice(0, MAX_FILES[mode]));
+    }
+  }, [mode, files, onFilesChange]);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
 
-    const droppedFiles = Array.from(e.dataTransfer.files).filter(isPdfLike);
-
-    if (droppedFiles.length > 0) {
-      const maxFiles = mode === 'single' ? 1 : 2;
-      onFilesChange(droppedFiles.slice(0, maxFiles));
-    }
-  }, [mode, onFilesChange]);
+    acceptFiles(Array.from(e.dataTransfer.files).filter(isPdfLike));
+  }, [acceptFiles]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(e.target.files || []).filter(isPdfLike);
-
-    if (selectedFiles.length > 0) {
-      const maxFiles = mode === 'single' ? 1 : 2;
-      onFilesChange(selectedFiles.slice(0, maxFiles));
-    }
-  }, [mode, onFilesChange]);
+    acceptFiles(Array.from(e.target.files || []).filter(isPdfLike));
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+  }, [acceptFiles]);
 
   const removeFile = useCallback((index: number) => {
     const newFiles = files.filter((_, i) => i !== index);
     onFilesChange(newFiles);
   }, [files, onFilesChange]);
 
-  const maxFiles = mode === 'single' ? 1 : 2;
+  const maxFiles = MAX_FILES[mode];
   const canAddMore = files.length < maxFiles;
 
   return (
     <div className="space-y-4">
       {/* Mode Toggle */}
-      <div className="flex gap-2">
+      <div className="flex flex-wrap gap-2">
         <Button
           variant={mode === 'single' ? 'default' : 'secondary'}
           onClick={() => onModeChange('single')}
@@ -81,6 +94,24 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
           <GitCompare className="h-4 w-4" />
           Compare PDFs
         </Button>
+        <Button
+          variant={mode === 'batch' ? 'default' : 'secondary'}
+          onClick={() => onModeChange('batch')}
+          className="flex items-center gap-2"
+          disabled={isLoading}
+        >
+          <Layers className="h-4 w-4" />
+          Batch
+        </Button>
+        <Button
+          variant={mode === 'renewal' ? 'default' : 'secondary'}
+          onClick={() => onModeChange('renewal')}
+          className="flex items-center gap-2"
+          disabled={isLoading}
+        >
+          <RefreshCcw className="h-4 w-4" />
+          Renewal
+        </Button>
       </div>
 
       {/* Upload Area */}
@@ -102,7 +133,7 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
             <input
               type="file"
               accept=".pdf"
-              multiple={mode === 'compare'}
+              multiple={mode !== 'single'}
               onChange={handleFileInput}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               disabled={isLoading}
@@ -116,7 +147,10 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
                   Drop PDF files here or click to browse
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {mode === 'single' ? 'Upload 1 PDF file' : `Upload up to 2 PDF files for comparison`}
+                  {mode === 'single' && 'Upload 1 PDF file'}
+                  {mode === 'compare' && `Upload 2 to ${MAX_FILES.compare} PDF files for comparison`}
+                  {mode === 'batch' && `Upload up to ${MAX_FILES.batch} PDF files to extract in one run`}
+                  {mode === 'renewal' && 'Upload last year\'s schedule first, then the renewal'}
                 </p>
               </div>
             </div>
@@ -130,7 +164,7 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
           <Label className="text-sm font-medium text-foreground">
             Uploaded Files ({files.length}/{maxFiles})
           </Label>
-          <div className="space-y-2">
+          <div className={cn("space-y-2", mode === 'batch' && "max-h-80 overflow-y-auto pr-1")}>
             {files.map((file, index) => (
               <Card key={`${file.name}-${index}`} className="p-3 bg-card shadow-sm">
                 <div className="flex items-center justify-between">
@@ -143,6 +177,7 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
                         {file.name}
                       </p>
                       <p className="text-xs text-muted-foreground">
+                        {mode === 'renewal' && (index === 0 ? 'Previous · ' : 'Renewal · ')}
                         {(file.size / 1024 / 1024).toFixed(1)} MB
                       </p>
                     </div>
@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { FileSearch, Loader2 } from "lucide-react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { pdfjsLib } from "@/lib/pdfjs";
+
+const RENDER_SCALE = 1.3;
+
+export interface PDFHighlightTarget {
+  field: string;
+  page: number;
+  text: string | null;
+}
+
+interface PDFViewerProps {
+  file: File;
+  target?: PDFHighlightTarget | null;
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the text items on a page that cover `needle` and returns their
+ * rectangles in viewport (canvas) coordinates
+ */
+function findHighlightRects(
+  items: Array<{ str: string; transform: number[]; width: number }>,
+  viewport: { transform: number[]; scale: number },
+  needle: string
+): HighlightRect[] {
+  const target = needle.replace(/\s+/g, " ").trim().toLowerCase();
+  if (!target) return [];
+
+  // Concatenate item strings and remember which item each character belongs to
+  let text = "";
+  const owners: number[] = [];
+  items.forEach((item, idx) => {
+    const str = item.str.replace(/\s+/g, " ").trim();
+    if (!str) return;
+    text += str + " ";
+    for (let i = 0; i <= str.length; i++) owners.push(idx);
+  });
+
+  const start = text.toLowerCase().indexOf(target);
+  if (start === -1) return [];
+
+  const hitItems = new Set<number>();
+  for (let i = start; i < start + target.length; i++) hitItems.add(owners[i]);
+
+  return [...hitItems].map((idx) => {
+    const item = items[idx];
+    const tx = pdfjsLib.Util.transform(viewport.transform, item.transform);
+    const fontHeight = Math.hypot(tx[2], tx[3]);
+    return {
+      left: tx[4],
+      top: tx[5] - fontHeight,
+      width: item.width * viewport.scale,
+      height: fontHeight * 1.15,
+    };
+  });
+}
+
+export const PDFViewer = ({ file, target }: PDFViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<Record<number, HTMLDivElement | null>>({});
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [numPages, setNumPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [highlights, setHighlights] = useState<{ page: number; rects: HighlightRect[] } | null>(null);
+
+  // Load the document whenever the file changes
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setIsLoading(true);
+    setHighlights(null);
+
+    (async () => {
+      const data = await file.arrayBuffer();
+      loaded = await pdfjsLib.getDocument({ data }).promise;
+      if (cancelled) return;
+      setPdf(loaded);
+      setNumPages(loaded.numPages);
+      setIsLoading(false);
+    })().catch((err) => {
+      console.error("[PDF Viewer] Failed to load document:", err);
+      if (!cancelled) setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  // Render every page to its canvas once the document is loaded
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+
+    (async () => {
+      for (let pageNum = 1; pageNum <= pdf.numPages && !cancelled; pageNum++) {
+        const page = await pdf.getPage(pageNum);
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        const canvas = pageRefs.current[pageNum]?.querySelector("canvas");
+        if (!canvas) continue;
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvasContext: canvas.getContext("2d"), viewport }).promise;
+      }
+    })().catch((err) => console.error("[PDF Viewer] Render failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  // Scroll to the target page and highlight the source text span
+  useEffect(() => {
+    if (!pdf || !target) return;
+    let cancelled = false;
+
+    pageRefs.current[target.page]?.scrollIntoView({ behavior: "smooth", block: "start" });
+
+    (async () => {
+      if (!target.text || target.page > pdf.numPages) {
+        setHighlights(null);
+        return;
+      }
+      const page = await pdf.getPage(target.page);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const textContent = await page.getTextContent();
+      const textItems = textContent.items.filter((item): item is TextItem => "str" in item);
+      const rects = findHighlightRects(textItems, viewport, target.text);
+      if (cancelled) return;
+      setHighlights({ page: target.page, rects });
+
+      // Bring the first highlighted line into view within the page
+      if (rects.length > 0 && containerRef.current) {
+        const pageEl = pageRefs.current[target.page];
+        if (pageEl) {
+          containerRef.current.scrollTo({
+            top: pageEl.offsetTop + rects[0].top - containerRef.current.clientHeight / 3,
+            behavior: "smooth",
+          });
+        }
+      }
+    })().catch((err) => console.error("[PDF Viewer] Highlight failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, target]);
+
+  return (
+    <Card className="bg-card shadow-md">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileSearch className="h-5 w-5 text-primary" />
+          Source Document
+          {target && (
+            <Badge variant="secondary" className="ml-auto bg-primary/10 text-primary font-normal">
+              {target.field} · page {target.page}
+              {highlights && highlights.page === target.page && highlights.rects.length === 0 && " (text not matched)"}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading {file.name}...
+          </div>
+        ) : (
+          <div ref={containerRef} className="relative max-h-[80vh] overflow-y-auto space-y-4 rounded-lg bg-muted/30 p-2">
+            {Array.from({ length: numPages }, (_, i) => i + 1).map((pageNum) => (
+              <div
+                key={pageNum}
+                ref={(el) => (pageRefs.current[pageNum] = el)}
+                className="relative mx-auto w-fit shadow-sm"
+              >
+                <canvas className="block bg-white" />
+                {highlights?.page === pageNum &&
+                  highlights.rects.map((rect, idx) => (
+                    <div
+                      key={idx}
+                      className="absolute rounded-sm bg-yellow-300/50 ring-2 ring-[hsl(var(--brand-orange))]"
+                      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                    />
+                  ))}
+                <span className="absolute bottom-1 right-2 text-xs text-muted-foreground">{pageNum}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
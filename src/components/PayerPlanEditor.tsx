@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Copy, FileJson, Plus, Save, Trash2, X } from "lucide-react";
+import type { SavedPayerPlan } from "@/constants/fields";
+import type { FieldDefinition, FieldValueType } from "@/constants/fieldSchema";
+import type { PayerPlanDraft } from "@/lib/payerPlans";
+
+interface PayerPlanEditorProps {
+  plan: SavedPayerPlan | null;       // null while creating a new plan
+  readOnly?: boolean;
+  onSave: (draft: PayerPlanDraft) => void;
+  onClone?: () => void;
+  onDelete?: () => void;
+  onExport?: () => void;
+}
+
+// Lists are edited as comma-separated text and split on save
+interface FieldRow {
+  definition: FieldDefinition;
+  synonyms: string;
+  allowedValues: string;
+}
+
+const VALUE_TYPE_LABELS: Record<FieldValueType, string> = {
+  text: 'Text',
+  money: 'Amount',
+  percentage: 'Percentage',
+  date: 'Date',
+  coverage: 'Coverage term',
+};
+
+const splitList = (text: string) => text.split(',').map((s) => s.trim()).filter(Boolean);
+
+const toRow = (definition: FieldDefinition): FieldRow => ({
+  definition,
+  synonyms: definition.synonyms.join(', '),
+  allowedValues: definition.allowedValues?.join(', ') ?? '',
+});
+
+const toDefinition = ({ definition, synonyms, allowedValues }: FieldRow): FieldDefinition => {
+  const allowed = splitList(allowedValues);
+  return {
+    ...definition,
+    name: definition.name.trim(),
+    synonyms: splitList(synonyms),
+    allowedValues: allowed.length ? allowed : undefined,
+    instructions: definition.instructions?.trim() || undefined,
+  };
+};
+
+const emptyRow = (): FieldRow => toRow({ name: '', type: 'text', synonyms: [] });
+
+export const PayerPlanEditor = ({ plan, readOnly, onSave, onClone, onDelete, onExport }: PayerPlanEditorProps) => {
+  const [name, setName] = useState(plan?.name ?? "");
+  const [rows, setRows] = useState<FieldRow[]>(() => (plan ? plan.fields.map(toRow) : [emptyRow()]));
+  const [note, setNote] = useState("");
+
+  const updateRow = (index: number, update: Partial<FieldRow>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  const updateDefinition = (index: number, update: Partial<FieldDefinition>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, definition: { ...row.definition, ...update } } : row)));
+  const moveRow = (index: number, offset: number) =>
+    setRows((prev) => {
+      const next = [...prev];
+      const [row] = next.splice(index, 1);
+      next.splice(index + offset, 0, row);
+      return next;
+    });
+
+  const save = () =>
+    onSave({
+      id: plan?.id,
+      name,
+      basePlan: plan?.basePlan,
+      fields: rows.map(toDefinition),
+      note: note.trim() || undefined,
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {plan ? plan.name : "New payer plan"}
+          {plan && <Badge variant="secondary">v{plan.version}</Badge>}
+          {readOnly && <Badge variant="outline">Built-in</Badge>}
+          <div className="ml-auto flex gap-2">
+            {onClone && (
+              <Button size="sm" variant="outline" onClick={onClone}>
+                <Copy className="h-4 w-4 mr-2" /> Clone
+              </Button>
+            )}
+            {onExport && (
+              <Button size="sm" variant="outline" onClick={onExport}>
+                <FileJson className="h-4 w-4 mr-2" /> Export
+              </Button>
+            )}
+            {onDelete && !readOnly && (
+              <Button size="sm" variant="outline" className="text-destructive" onClick={onDelete}>
+                <Trash2 className="h-4 w-4 mr-2" /> Delete
+              </Button>
+            )}
+          </div>
+        </CardTitle>
+        {readOnly && (
+          <p className="text-sm text-muted-foreground">Built-in plans come with the app. Clone this plan to change it.</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="plan-name">Plan name</Label>
+          <Input id="plan-name" value={name} disabled={readOnly} onChange={(e) => setName(e.target.value)} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>Fields ({rows.filter((row) => row.definition.name.trim()).length})</Label>
+          {!readOnly && (
+            <Button variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])} className="h-8">
+              <Plus className="h-3 w-3 mr-1" /> Add Field
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {rows.map((row, idx) => (
+            <div key={idx} className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="text-xs text-muted-foreground w-6 flex-shrink-0">{idx + 1}.</div>
+                <Input
+                  placeholder="Field name"
+                  value={row.definition.name}
+                  disabled={readOnly}
+                  onChange={(e) => updateDefinition(idx, { name: e.target.value })}
+                  className="flex-1 h-9"
+                />
+                <Select
+                  value={row.definition.type}
+                  disabled={readOnly}
+                  onValueChange={(value) => updateDefinition(idx, { type: value as FieldValueType })}
+                >
+                  <SelectTrigger className="w-40 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(VALUE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    id={`required-${idx}`}
+                    checked={Boolean(row.definition.required)}
+                    disabled={readOnly}
+                    onCheckedChange={(checked) => updateDefinition(idx, { required: checked || undefined })}
+                  />
+                  <Label htmlFor={`required-${idx}`} className="text-xs">Required</Label>
+                </div>
+                {!readOnly && (
+                  <>
+                    <Button variant="ghost" size="sm" className="h-9 w-9 p-0" disabled={idx === 0} onClick={() => moveRow(idx, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-9 w-9 p-0" disabled={idx === rows.length - 1} onClick={() => moveRow(idx, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRows(rows.filter((_, i) => i !== idx))}
+                      className="h-9 w-9 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pl-8">
+                <Input
+                  placeholder="Synonyms, comma separated"
+                  value={row.synonyms}
+                  disabled={readOnly}
+                  onChange={(e) => updateRow(idx, { synonyms: e.target.value })}
+                  className="h-9"
+                />
+                <Input
+                  placeholder="Allowed values, comma separated"
+                  value={row.allowedValues}
+                  disabled={readOnly}
+                  onChange={(e) => updateRow(idx, { allowedValues: e.target.value })}
+                  className="h-9"
+                />
+                <Textarea
+                  placeholder="Extraction instructions for this field"
+                  value={row.definition.instructions ?? ""}
+                  disabled={readOnly}
+                  onChange={(e) => updateDefinition(idx, { instructions: e.target.value })}
+                  className="md:col-span-2 min-h-[60px]"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            <Input placeholder="What changed? (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+            <Button onClick={save}>
+              <Save className="h-4 w-4 mr-2" /> {plan ? "Save Version" : "Create Plan"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
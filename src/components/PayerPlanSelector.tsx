@@ -9,12 +9,13 @@ type Props = {
   value: string;
   onValueChange: (value: string) => void;
   options: Option[];
+  label?: string;
 };
 
-export const PayerPlanSelector: React.FC<Props> = ({ value, onValueChange, options }) => {
+export const PayerPlanSelector: React.FC<Props> = ({ value, onValueChange, options, label = "Payer Plan" }) => {
   return (
     <div className="space-y-2">
-      <label className="text-sm font-medium text-foreground">Payer Plan</label>
+      <label className="text-sm font-medium text-foreground">{label}</label>
       <select
         className="w-full border border-border bg-card rounded-md p-2 shadow-sm"
         value={value}
@@ -0,0 +1,147 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Download, Printer, RefreshCcw, TrendingDown, TrendingUp } from "lucide-react";
+import type { RenewalImpact, RenewalReport } from "@/services/renewalReport";
+import { renderRenewalReportHtml } from "@/services/renewalReport";
+import { cn } from "@/lib/utils";
+
+interface RenewalReportViewProps {
+  report: RenewalReport;
+}
+
+const IMPACT_BADGES: Record<RenewalImpact, { label: string; className: string }> = {
+  richer: { label: 'Improved', className: 'bg-success-light text-success' },
+  poorer: { label: 'Reduced', className: 'bg-destructive/10 text-destructive' },
+  mixed: { label: 'Mixed', className: 'bg-warning-light text-warning' },
+  changed: { label: 'Changed', className: 'bg-warning-light text-warning' },
+  unchanged: { label: 'Unchanged', className: 'bg-muted text-muted-foreground' },
+};
+
+// Reductions first - they are what the client needs to know about
+const IMPACT_ORDER: RenewalImpact[] = ['poorer', 'mixed', 'richer', 'changed', 'unchanged'];
+
+export const RenewalReportView = ({ report }: RenewalReportViewProps) => {
+  const changes = [...report.changes].sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact));
+  const reportName = `renewal_report_${(report.match.category.current || 'policy').replace(/[^\w-]+/g, '_')}`;
+
+  const downloadHtml = () => {
+    const blob = new Blob([renderRenewalReportHtml(report)], { type: "text/html" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${reportName}.html`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const print = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+    printWindow.document.write(renderRenewalReportHtml(report));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <Card className="bg-card shadow-md">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <RefreshCcw className="h-5 w-5 text-primary" />
+          Renewal Report
+          <div className="ml-auto flex gap-2">
+            <Button size="sm" variant="outline" onClick={print}>
+              <Printer className="h-4 w-4 mr-2" /> Print
+            </Button>
+            <Button size="sm" variant="outline" onClick={downloadHtml}>
+              <Download className="h-4 w-4 mr-2" /> Report
+            </Button>
+          </div>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {report.previousFileName} → {report.currentFileName}
+        </p>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="secondary" className="bg-destructive/10 text-destructive">
+            <TrendingDown className="h-3 w-3 mr-1" /> {report.summary.poorer} reduced
+          </Badge>
+          <Badge variant="secondary" className="bg-success-light text-success">
+            <TrendingUp className="h-3 w-3 mr-1" /> {report.summary.richer} improved
+          </Badge>
+          <Badge variant="secondary" className="bg-warning-light text-warning">
+            {report.summary.mixed + report.summary.changed} to review
+          </Badge>
+          <Badge variant="secondary" className="bg-muted text-muted-foreground">
+            {report.summary.unchanged} unchanged
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.match.warnings.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <ul className="text-sm text-amber-800 space-y-1">
+                {report.match.warnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {report.details.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead className="font-semibold text-foreground">Policy</TableHead>
+                <TableHead className="font-semibold text-foreground">Previous</TableHead>
+                <TableHead className="font-semibold text-foreground">Renewal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.details.map((detail) => (
+                <TableRow key={detail.field} className="border-border">
+                  <TableCell className="font-medium text-foreground">{detail.field}</TableCell>
+                  <TableCell className="text-muted-foreground">{detail.previous ?? '—'}</TableCell>
+                  <TableCell className="text-muted-foreground">{detail.current ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border">
+              <TableHead className="font-semibold text-foreground">Benefit</TableHead>
+              <TableHead className="font-semibold text-foreground">Previous</TableHead>
+              <TableHead className="font-semibold text-foreground">Renewal</TableHead>
+              <TableHead className="font-semibold text-foreground w-48">Impact</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.map((change) => (
+              <TableRow
+                key={change.field}
+                className={cn("border-border hover:bg-muted/50", change.impact !== 'unchanged' && "bg-diff-changed")}
+              >
+                <TableCell className="font-medium text-foreground">{change.field}</TableCell>
+                <TableCell className="text-muted-foreground">{change.previous ?? <span className="italic">Not found</span>}</TableCell>
+                <TableCell className="text-muted-foreground">{change.current ?? <span className="italic">Not found</span>}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className={IMPACT_BADGES[change.impact].className}>
+                    {IMPACT_BADGES[change.impact].label}
+                  </Badge>
+                  {change.impact !== 'unchanged' && (
+                    <p className="mt-1 text-xs text-muted-foreground" title={change.explanation}>{change.label}</p>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
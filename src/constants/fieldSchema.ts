@@ -0,0 +1,314 @@
+// Typed field definitions per payer plan. Prompting, validation, normalization
+// and comparison all read from here - field lists and synonym hints in
+// fields.ts are derived from these definitions.
+
+export type FieldValueType = 'money' | 'percentage' | 'date' | 'coverage' | 'text';
+
+export interface FieldFormat {
+  currency?: string;                        // Currency for money output (default QAR)
+  suffix?: string;                          // Appended to normalized amounts, e.g. "/PPPY", " covered"
+  date?: 'DD/MM/YYYY' | 'DD MMMM YYYY';     // Output format for dates
+}
+
+export interface FieldDefinition {
+  name: string;                             // Key in the extracted data
+  label?: string;                           // Display label, defaults to name
+  type: FieldValueType;
+  synonyms: string[];                       // Other labels used for this field in documents
+  required?: boolean;
+  allowedValues?: string[];                 // Canonical wording for coverage terms
+  defaultValue?: string;                    // Used when the document says nothing / "Nil"
+  paidBy?: 'insurer' | 'member';            // Whose share the amount is - decides if higher is better
+  format?: FieldFormat;
+  instructions?: string;                    // Extra extraction guidance for the prompt
+}
+
+const QLM_SCHEMA: FieldDefinition[] = [
+  {
+    name: "Insured",
+    type: "text",
+    required: true,
+    synonyms: [],
+  },
+  {
+    name: "Policy No",
+    type: "text",
+    required: true,
+    synonyms: [
+      "Policy number",
+      "Policy ID",
+      "Contract number",
+    ],
+  },
+  {
+    name: "Period of Insurance",
+    type: "text",
+    required: true,
+    synonyms: ["Coverage period", "Insurance period"],
+  },
+  {
+    name: "Plan",
+    type: "text",
+    required: true,
+    synonyms: [
+      "Plan type",
+      "Plan name",
+      "Insurance plan",
+      "PLANS",
+    ],
+  },
+  {
+    name: "For Eligible Medical Expenses at Al Ahli Hospital",
+    type: "percentage",
+    paidBy: "insurer",
+    format: { suffix: " covered" },
+    synonyms: [],
+    instructions: "Share of eligible expenses the insurer pays at Al Ahli Hospital (e.g. \"80% covered\")",
+  },
+  {
+    name: "Inpatient Deductible",
+    type: "money",
+    paidBy: "member",
+    synonyms: [],
+  },
+  {
+    name: "Deductible per each outpatient consultation",
+    type: "money",
+    paidBy: "member",
+    synonyms: [
+      "Outpatient deductible",
+    ],
+  },
+  {
+    name: "Vaccination of children",
+    type: "coverage",
+    allowedValues: ["Covered", "Not covered"],
+    defaultValue: "Covered",
+    format: { suffix: "/PPPY" },
+    synonyms: [
+      "Child vaccination",
+      "Vaccination coverage",
+    ],
+    instructions: "Extract from the coverage/benefit column, not from description/conditions columns. Ignore age limits, regulations, or Ministry of Health references - these are conditions, not values. If only description text is found (like \"Up to age 6\" or \"Based on MoH regulations\"), return \"Covered\". Only return \"Nil\" or \"Not covered\" if explicitly stated.",
+  },
+  {
+    name: "Psychiatric Treatment",
+    type: "money",
+    paidBy: "insurer",
+    synonyms: ["Psychiatry coverage"],
+  },
+  {
+    name: "Dental Copayment",
+    type: "percentage",
+    paidBy: "member",
+    synonyms: ["Dental benefits"],
+  },
+  {
+    name: "Maternity Copayment",
+    type: "percentage",
+    paidBy: "member",
+    synonyms: ["Maternity benefits", "Childbirth coverage"],
+  },
+  {
+    name: "Optical Copayment",
+    type: "percentage",
+    paidBy: "member",
+    synonyms: ["Optical benefits"],
+  },
+];
+
+const ALKOOT_SCHEMA: FieldDefinition[] = [
+  {
+    name: "Policy Number",
+    type: "text",
+    required: true,
+    synonyms: [
+      "Policy No",
+      "Policy ID",
+      "Policy #",
+      "Contract Number",
+      "Certificate Number",
+    ],
+  },
+  {
+    name: "Category",
+    type: "text",
+    required: true,
+    synonyms: [
+      "Plan",
+      "Plan Name",
+      "Policy Type",
+      "Plan Type",
+      "Category Name",
+    ],
+  },
+  {
+    name: "Effective Date",
+    type: "date",
+    required: true,
+    format: { date: "DD MMMM YYYY" },
+    synonyms: [
+      "Start Date",
+      "Commencement Date",
+      "Inception Date",
+      "From Date",
+    ],
+  },
+  {
+    name: "Expiry Date",
+    type: "date",
+    required: true,
+    format: { date: "DD MMMM YYYY" },
+    synonyms: [
+      "End Date",
+      "Termination Date",
+      "To Date",
+      "Expiration Date",
+    ],
+  },
+  {
+    name: "Provider-specific co-insurance at Al Ahli Hospital",
+    type: "percentage",
+    paidBy: "member",
+    synonyms: [
+      "Al-Ahli Hospital",
+      "Al Ahli",
+      "Al-Ahli",
+      "Provider-specific co-insurance at Al Ahli Hospital",
+      "Provider Specific Co-insurance",
+      "Additional co-insurance at Al Ahli",
+      "Additional deductible at Al Ahli",
+      "Al Ahli Hospital co-insurance",
+      "Co-insurance Al Ahli Hospital",
+      "Provider-specific co-insurance/deductible",
+    ],
+    instructions: "Only a co-insurance that explicitly names Al Ahli Hospital - not the general or inpatient co-insurance",
+  },
+  {
+    name: "Co-insurance on all inpatient treatment",
+    type: "percentage",
+    paidBy: "member",
+    synonyms: [
+      "Co-insurance on all inpatient treatments",
+      "In-patient co-insurance",
+      "Inpatient co-insurance",
+      "IPD co-insurance",
+      "In-patient co-pay",
+    ],
+  },
+  {
+    name: "Deductible on consultation",
+    type: "money",
+    paidBy: "member",
+    synonyms: [
+      "Deductible on consultations",
+      "Consultation deductible",
+      "OPD deductible",
+      "Outpatient deductible",
+      "Out-patient deductible",
+      "Deductible per consultation",
+    ],
+  },
+  {
+    name: "Co-insurance",
+    type: "percentage",
+    paidBy: "member",
+    synonyms: [
+      "Co-insurance",
+      "Out-patient co-insurance",
+      "Outpatient co-insurance",
+      "OPD co-insurance",
+      "General co-insurance",
+    ],
+    instructions: "General / outpatient co-insurance, not the inpatient one",
+  },
+  {
+    name: "Vaccinations & immunizations",
+    type: "coverage",
+    allowedValues: ["Covered", "Not covered"],
+    synonyms: [
+      "Vaccination & Immunization",
+      "Vaccination & Immunizations",
+      "Vaccination and Immunization",
+      "Vaccination and Immunizations",
+      "Vaccination/Immunization",
+      "Vaccinations & Immunizations",
+      "Vaccinations and Immunizations",
+      "Immunizations",
+      "Vaccinations",
+      "Immunization",
+      "Vaccination",
+    ],
+  },
+  {
+    name: "Psychiatric treatment and Psychotherapy",
+    type: "money",
+    paidBy: "insurer",
+    synonyms: [
+      "Psychiatric treatment & Psychotherapy",
+      "Psychiatric treatment & Psychotherapies",
+      "Psychiatric treatment and Psychotherapies",
+      "Psychiatric Treatment",
+      "Psychotherapy",
+      "Mental Health",
+      "Mental health treatment",
+      "Psychiatric care",
+      "Psychological treatment",
+      "Psychiatry",
+      "Psychiatric services",
+      "Mental health coverage",
+      "Mental healthcare",
+    ],
+  },
+  {
+    name: "Pregnancy and childbirth",
+    type: "money",
+    paidBy: "insurer",
+    synonyms: [
+      "Pregnancy & Childbirth",
+      "Pregnancy and Childbirth",
+      "Pregnancy & Childbirths",
+      "Pregnancy and Child birth",
+      "Pregnancy and childbirth(in accordance with Hamad Protocol/s)",
+      "Maternity",
+      "Maternity coverage",
+      "Childbirth",
+      "Pregnancy",
+    ],
+  },
+  {
+    name: "Dental Benefit",
+    type: "money",
+    paidBy: "insurer",
+    synonyms: [
+      "Dental Coverage",
+      "Dental Benefits",
+      "Dental",
+      "Dental care",
+    ],
+    instructions: "Complete value: limit, co-insurance and deductible combined",
+  },
+  {
+    name: "Optical Benefit",
+    type: "money",
+    paidBy: "insurer",
+    synonyms: [
+      "Optical Coverage",
+      "Vision Coverage",
+      "Optical Benefits",
+      "Vision Benefits",
+      "Optical",
+      "Vision care",
+      "Eye care",
+    ],
+  },
+];
+export const FIELD_SCHEMAS: Record<string, FieldDefinition[]> = {
+  QLM: QLM_SCHEMA,
+  ALKOOT: ALKOOT_SCHEMA,
+};
+
+export const fieldNames = (schema: FieldDefinition[]) => schema.map(field => field.name);
+
+export const fieldSynonyms = (schema: FieldDefinition[]): Record<string, string[]> =>
+  Object.fromEntries(schema.map(field => [field.name, field.synonyms]));
@@ -1,3 +1,6 @@
+import { FIELD_SCHEMAS, fieldNames, fieldSynonyms, type FieldDefinition } from "./fieldSchema";
+import type { PromptVersions } from "../prompts/types";
+
 export const PAYER_PLANS = {
   QLM: 'QLM',
   ALKOOT: 'ALKOOT',
@@ -6,201 +9,14 @@ export const PAYER_PLANS = {
 
 export type PayerPlan = keyof typeof PAYER_PLANS;
 
-export const QLM_FIELDS = [
-  "Insured", 
-  "Policy No",
-  "Period of Insurance", 
-  "Plan", 
-  "For Eligible Medical Expenses at Al Ahli Hospital",
-  "Inpatient Deductible", 
-  "Deductible per each outpatient consultation",
-  "Vaccination of children", 
-  "Psychiatric Treatment", 
-  "Dental Copayment",
-  "Maternity Copayment", 
-  "Optical Copayment"
-];
-
-export const ALKOOT_FIELDS = [
-  "Policy Number", 
-  "Category", 
-  "Effective Date",
-  "Expiry Date", 
-  "Provider-specific co-insurance at Al Ahli Hospital",
-  "Co-insurance on all inpatient treatment", 
-  "Deductible on consultation",
-  "Co-insurance",
-  "Vaccinations & immunizations",
-  "Psychiatric treatment and Psychotherapy",
-  "Pregnancy and childbirth", 
-  "Dental Benefit", 
-  "Optical Benefit"
-];
+// Field lists and synonym hints are derived from the typed schema in fieldSchema.ts
+export const QLM_FIELDS = fieldNames(FIELD_SCHEMAS.QLM);
+
+export const ALKOOT_FIELDS = fieldNames(FIELD_SCHEMAS.ALKOOT);
 
 export const FIELD_SUGGESTIONS = {
-  [PAYER_PLANS.QLM]: {
-    "Insured": [
-    
-    ],
-    "Policy No": [
-      "Policy number",
-      "Policy ID",
-      "Contract number",
-    ],
-    "Period of Insurance": [
-      "Coverage period",
-      "Insurance period",
-
-    ],
-    "Plan": [
-      "Plan type",
-      "Plan name",
-      "Insurance plan",
-      "PLANS"
-    ],
-    "For Eligible Medical Expenses at Al Ahli Hospital": [
-
-    ],
-    "Inpatient Deductible": [
-    ],
-    "Deductible per each outpatient consultation": [
-      "Outpatient deductible",
-    ],
-    "Vaccination of children": [
-      "Child vaccination",
-      "Vaccination coverage",
-    ],
-    "Psychiatric Treatment": [
-      "Psychiatry coverage"
-    ],
-    "Dental Copayment": [
-      "Dental benefits"
-    ],
-    "Maternity Copayment": [
-      "Maternity benefits",
-      "Childbirth coverage"
-    ],
-    "Optical Copayment": [
-      "Optical benefits"
-    ]
-  },
-  [PAYER_PLANS.ALKOOT]: {
-    "Policy Number": [
-      "Policy No",
-      "Policy ID",
-      "Policy #",
-      "Contract Number",
-      "Certificate Number"
-    ],
-    "Category": [
-      "Plan",
-      "Plan Name",
-      "Policy Type",
-      "Plan Type",
-      "Category Name"
-    ],
-    "Effective Date": [
-      "Start Date",
-      "Commencement Date",
-      "Inception Date",
-      "From Date"
-    ],
-    "Expiry Date": [
-      "End Date",
-      "Termination Date",
-      "To Date",
-      "Expiration Date"
-    ],
-    "Provider-specific co-insurance at Al Ahli Hospital": [
-      "Al-Ahli Hospital",
-      "Al Ahli",
-      "Al-Ahli",
-      "Provider-specific co-insurance at Al Ahli Hospital",
-      "Provider Specific Co-insurance",
-      "Additional co-insurance at Al Ahli",
-      "Additional deductible at Al Ahli",
-      "Al Ahli Hospital co-insurance",
-      "Co-insurance Al Ahli Hospital",
-      "Provider-specific co-insurance/deductible"
-    ],
-    "Co-insurance on all inpatient treatment": [
-      "Co-insurance on all inpatient treatments",
-      "In-patient co-insurance",
-      "Inpatient co-insurance",
-      "IPD co-insurance",
-      "In-patient co-pay"
-    ],
-    "Deductible on consultation": [
-      "Deductible on consultations",
-      "Consultation deductible",
-      "OPD deductible",
-      "Outpatient deductible",
-      "Out-patient deductible",
-      "Deductible per consultation"
-    ],
-    "Co-insurance": [
-      "Co-insurance",
-      "Out-patient co-insurance",
-      "Outpatient co-insurance",
-      "OPD co-insurance",
-      "General co-insurance"
-    ],
-    "Vaccinations & immunizations": [
-      "Vaccination & Immunization",
-      "Vaccination & Immunizations",
-      "Vaccination and Immunization",
-      "Vaccination and Immunizations",
-      "Vaccination/Immunization",
-      "Vaccinations & Immunizations",
-      "Vaccinations and Immunizations",
-      "Immunizations",
-      "Vaccinations",
-      "Immunization",
-      "Vaccination"
-    ],
-    "Psychiatric treatment and Psychotherapy": [
-      "Psychiatric treatment & Psychotherapy",
-      "Psychiatric treatment & Psychotherapies",
-      "Psychiatric treatment and Psychotherapies",
-      "Psychiatric Treatment",
-      "Psychotherapy",
-      "Mental Health",
-      "Mental health treatment",
-      "Psychiatric care",
-      "Psychological treatment",
-      "Psychiatry",
-      "Psychiatric services",
-      "Mental health coverage",
-      "Psychiatric services",
-      "Mental healthcare"
-    ],
-    "Pregnancy and childbirth": [
-      "Pregnancy & Childbirth",
-      "Pregnancy and Childbirth",
-      "Pregnancy & Childbirths",
-      "Pregnancy and Child birth",
-      "Pregnancy and childbirth(in accordance with Hamad Protocol/s)",
-      "Maternity",
-      "Maternity coverage",
-      "Childbirth",
-      "Pregnancy"
-    ],
-    "Dental Benefit": [
-      "Dental Coverage",
-      "Dental Benefits",
-      "Dental",
-      "Dental care"
-    ],
-    "Optical Benefit": [
-      "Optical Coverage",
-      "Vision Coverage",
-      "Optical Benefits",
-      "Vision Benefits",
-      "Optical",
-      "Vision care",
-      "Eye care"
-    ]
-  }
+  [PAYER_PLANS.QLM]: fieldSynonyms(FIELD_SCHEMAS.QLM),
+  [PAYER_PLANS.ALKOOT]: fieldSynonyms(FIELD_SCHEMAS.ALKOOT)
 };
 
 export const FIELD_MAPPINGS = {
@@ -212,10 +28,168 @@ export interface ExtractedData {
   [key: string]: string | null;
 }
 
+// 'format-only': same value, different formatting ("QAR 7,500" vs "QAR 7500")
+// 'equivalent': same meaning, different wording ("Nil" vs "Not covered")
+// 'increased' / 'decreased': same kind of value that moved (amount, rate, date)
+export type ComparisonStatus =
+  | 'same'
+  | 'format-only'
+  | 'equivalent'
+  | 'increased'
+  | 'decreased'
+  | 'different'
+  | 'missing';
+
 export interface ComparisonResult {
   field: string;
   file1Value: string | null;
   file2Value: string | null;
-  status: 'same' | 'different' | 'missing';
+  status: ComparisonStatus;
+  explanation: string;
+}
+
+// N-way comparison - one value per document, in upload order
+export interface DocumentComparisonResult {
+  field: string;
+  values: Array<string | null>;
+  status: ComparisonStatus;     // Relative to the first document
+  explanation: string;
+  groups: number[][];           // Indices of documents sharing a value (by meaning)
+}
+
+
+// Which stage of the pipeline produced a field's final value
+export type ExtractionPass = 'direct' | 'table' | 'single-field' | 'revalidation' | 'post-processing';
+
+export interface FieldProvenance {
+  value: string | null;
+  rawValue: string | null;      // Model output before validation / normalization
+  page: number | null;
+  source: string | null;        // Table / row (or section) the value was read from
+  snippet: string | null;       // Surrounding document text
+  confidence: number;           // 0-1
+  pass: ExtractionPass;
+  ocr?: boolean;                // Read from a scanned page by OCR
+  passages?: FieldPassage[];    // Retrieved passages the model was given for this field (long documents)
+  agreement?: number;           // Share of extraction passes that returned this value (multi-pass voting)
+  votes?: Array<string | null>; // Each pass's value, revalidation last
+  rules?: string[];             // Ids of payer rules that changed or flagged the value
+  warnings?: string[];          // Consistency checks and rule flags for a reviewer to look at
+}
+
+export interface FieldPassage {
+  page: number;
+  section: string;
+  score: number;                // BM25, or fused rank score with embeddings
+}
+
+export type ExtractionProvenance = Record<string, FieldProvenance>;
+
+// A payer rule (src/constants/payerRules.ts) that changed or flagged a field
+export interface RuleFiring {
+  rule: string;                 // Rule id
+  field: string;
+  action: 'set' | 'copy' | 'normalize' | 'flag';
+  from: string | null;
+  to: string | null;
+  message?: string;             // Flags only
+}
+
+// A value that contradicts another or is implausible (src/lib/consistency.ts)
+export interface ConsistencyWarning {
+  check: string;                // Check id, or the rule id for payer rule flags
+  fields: string[];             // Affected fields
+  message: string;
 }
 
+export interface ExtractionResult {
+  data: ExtractedData;
+  provenance: ExtractionProvenance;
+  cached?: boolean;             // Served from the extraction cache, no LLM calls made
+  fieldsFromTables?: number;    // Read from parsed tables by the table-first stage, without a model call
+  promptVersions?: PromptVersions; // Prompt templates (id -> version) the values were extracted with
+  rulesFired?: RuleFiring[];    // Payer rules that changed or flagged a value, in the order they ran
+  warnings?: ConsistencyWarning[]; // Cross-field consistency problems - values are not changed
+}
+
+// Human review of an extraction
+export type ReviewStatus = 'pending' | 'accepted' | 'corrected' | 'rejected';
+
+export interface ReviewChange {
+  reviewer: string;
+  at: string;                   // ISO timestamp
+  status: ReviewStatus;
+  from: string | null;
+  to: string | null;
+}
+
+export interface FieldReview {
+  field: string;
+  modelValue: string | null;    // Original model output, never overwritten
+  value: string | null;         // Current (possibly corrected) value
+  status: ReviewStatus;
+  note?: string;
+  history: ReviewChange[];
+}
+
+export interface ReviewedRecord {
+  id: string;
+  pdfName: string;
+  payerPlan: string;
+  reviewer: string;
+  createdAt: string;
+  updatedAt: string;
+  fields: Record<string, FieldReview>;
+}
+
+// Verified value of one field in one document, shown to the model as a worked example
+export interface FewShotExample {
+  id: string;                   // Document hash prefix + field - a newer verification replaces the older
+  payerPlan: string;
+  field: string;
+  value: string;
+  snippet: string;              // Document text the value was read from
+  documentName: string;
+  documentHash: string;         // Examples of the document being extracted are never used for it
+  source: 'expected' | 'review';
+  verifiedAt: string;           // ISO timestamp
+  verifiedBy?: string;
+}
+
+// Past extraction, kept in the browser so results survive leaving the page
+export interface ExtractionRun {
+  id: string;
+  fileName: string;
+  payerPlan: string;            // Display name of the plan used
+  // Plan and fields it was extracted with - a new file is extracted the same way to compare
+  request: {
+    payerPlan?: PayerPlan;
+    payerPlanName?: string;
+    fields?: string[];
+    schema?: FieldDefinition[];
+  };
+  createdAt: string;
+  durationMs: number;
+  fieldsFound: number;
+  fieldsTotal: number;
+  cached?: boolean;
+  data: ExtractedData;
+  provenance?: ExtractionProvenance;
+  promptVersions?: PromptVersions;
+}
+
+// User-managed payer plan, stored in the browser with its edit history
+export interface PayerPlanVersion {
+  version: number;
+  savedAt: string;              // ISO timestamp
+  name: string;
+  basePlan?: PayerPlan;         // Built-in plan it was cloned from - keeps that plan's LLM default
+  fields: FieldDefinition[];
+  note?: string;
+}
+
+export interface SavedPayerPlan extends PayerPlanVersion {
+  id: string;
+  createdAt: string;
+  history: PayerPlanVersion[];  // Earlier versions, oldest first
+}
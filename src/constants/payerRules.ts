@@ -0,0 +1,110 @@
+// Payer business rules as data, applied after extraction by src/lib/ruleEngine.ts.
+// Rules are keyed by payer plan (built-in plan or saved plan name); '*' rules
+// apply to every plan. A rule only runs when the extraction has every field it
+// names, so plan-specific fields can't leak into other plans. Per-field defaults
+// and output formats belong in the field schema (src/constants/fieldSchema.ts),
+// which is applied before the rules.
+
+// present / missing: the field has a value (null and empty count as missing, "Nil" does not)
+// matches / not-matches: `value` is a case-insensitive regex
+// equals: `value` is a literal, compared case- and whitespace-insensitively
+// same-as / differs-from: `value` is another field, both must have a value
+export interface RuleCondition {
+  field: string;
+  op: 'present' | 'missing' | 'matches' | 'not-matches' | 'equals' | 'same-as' | 'differs-from';
+  value?: string;
+}
+
+// normalize: rewrite with `pattern` -> `replacement` (regex, $1 etc.), or without
+// a pattern into the field's schema format (fieldTypes.normalizeFieldValue)
+// flag: leave the value, record the message for review
+export type RuleAction =
+  | { type: 'set'; field: string; value: string | null }
+  | { type: 'copy'; from: string; to: string }
+  | { type: 'normalize'; field: string; pattern?: string; replacement?: string }
+  | { type: 'flag'; field: string; message: string };
+
+export interface PayerRule {
+  id: string;
+  description: string;
+  priority: number;             // Lower runs first; equal priorities keep declaration order
+  when: RuleCondition[];        // All must hold
+  then: RuleAction[];
+}
+
+const AHLI_COINSURANCE = 'Provider-specific co-insurance at Al Ahli Hospital';
+const INPATIENT_COINSURANCE = 'Co-insurance on all inpatient treatment';
+const CONSULTATION_DEDUCTIBLE = 'Deductible on consultation';
+
+export const PAYER_RULES: Record<string, PayerRule[]> = {
+  '*': [
+    {
+      id: 'ahli-copies-inpatient-coinsurance',
+      description: 'Al Ahli co-insurance identical to the inpatient rate was read from the wrong row',
+      priority: 100,
+      when: [
+        { field: AHLI_COINSURANCE, op: 'matches', value: '^\\d+%$' },
+        { field: AHLI_COINSURANCE, op: 'same-as', value: INPATIENT_COINSURANCE },
+      ],
+      then: [{ type: 'set', field: AHLI_COINSURANCE, value: 'Not applicable' }],
+    },
+  ],
+  // Co-insurance and the consultation deductible share one cell in ALKOOT tables.
+  // Before the rule engine only the old markdown pipeline (extractionApi.new.ts)
+  // applied these; the main pipeline now does too, and lists each copy in
+  // rulesFired and each mismatch as a warning.
+  ALKOOT: [
+    {
+      id: 'alkoot-deductible-from-coinsurance',
+      description: 'Consultation deductible not found - it is the co-insurance cell',
+      priority: 10,
+      when: [
+        { field: 'Co-insurance', op: 'present' },
+        { field: CONSULTATION_DEDUCTIBLE, op: 'missing' },
+      ],
+      then: [{ type: 'copy', from: 'Co-insurance', to: CONSULTATION_DEDUCTIBLE }],
+    },
+    {
+      id: 'alkoot-coinsurance-from-deductible',
+      description: 'Co-insurance not found - it is the consultation deductible cell',
+      priority: 10,
+      when: [
+        { field: CONSULTATION_DEDUCTIBLE, op: 'present' },
+        { field: 'Co-insurance', op: 'missing' },
+      ],
+      then: [{ type: 'copy', from: CONSULTATION_DEDUCTIBLE, to: 'Co-insurance' }],
+    },
+    {
+      id: 'alkoot-coinsurance-deductible-match',
+      description: 'Co-insurance and consultation deductible differ - co-insurance is used for both',
+      priority: 20,
+      when: [{ field: 'Co-insurance', op: 'differs-from', value: CONSULTATION_DEDUCTIBLE }],
+      then: [
+        { type: 'flag', field: CONSULTATION_DEDUCTIBLE, message: 'Differed from Co-insurance, which ALKOOT prints in the same cell' },
+        { type: 'copy', from: 'Co-insurance', to: CONSULTATION_DEDUCTIBLE },
+      ],
+    },
+  ],
+};
+
+// Markdown extraction path (postProcessData) - stricter about the Al Ahli field,
+// which markdown tables often fill from a neighbouring row
+export const MARKDOWN_RULES: PayerRule[] = [
+  {
+    id: 'ahli-percentage-without-ahli',
+    description: 'A percentage for Al Ahli that does not mention Al Ahli belongs to another row',
+    priority: 10,
+    when: [
+      { field: AHLI_COINSURANCE, op: 'matches', value: '\\d+%' },
+      { field: AHLI_COINSURANCE, op: 'not-matches', value: 'al ahli|ahli hospital' },
+    ],
+    then: [{ type: 'set', field: AHLI_COINSURANCE, value: 'Not applicable' }],
+  },
+  ...[['general', 'Co-insurance'], ['inpatient', INPATIENT_COINSURANCE]].map(([kind, field]): PayerRule => ({
+    id: `ahli-duplicates-${kind}-coinsurance`,
+    description: `Al Ahli value identical to the ${kind} co-insurance was read from the wrong row`,
+    priority: 20,
+    when: [{ field: AHLI_COINSURANCE, op: 'same-as', value: field }],
+    then: [{ type: 'set', field: AHLI_COINSURANCE, value: 'Not applicable' }],
+  })),
+];
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { chunkDocumentText, mapWithConcurrency, reduceChunkCandidates, valueInTable, type ChunkCandidate } from "@/lib/chunking";
+
+const candidate = (value: string, overrides: Partial<ChunkCandidate> = {}): ChunkCandidate => ({
+  value, chunk: 0, page: 1, source: null, confidence: null, fromTable: false, ...overrides,
+});
+
+describe('chunkDocumentText', () => {
+  it('keeps a short text in one chunk', () => {
+    expect(chunkDocumentText('=== PAGE 1 ===\nHello', 1000, 100)).toEqual([
+      { index: 0, text: '=== PAGE 1 ===\nHello', pages: [1, 1] },
+    ]);
+  });
+
+  it('repeats the page marker and table header in a chunk that starts mid-table', () => {
+    const rows = Array.from({ length: 20 }, (_, idx) => `| Benefit ${idx} | QAR ${idx} |`);
+    const text = ['=== PAGE 1 ===', 'Intro', '=== PAGE 2 ===', '| Benefit | Limit |', '| --- | --- |', ...rows].join('\n');
+    const chunks = chunkDocumentText(text, 200, 40);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.text.startsWith('=== PAGE 2 ===\n| Benefit | Limit |\n| --- | --- |\n')).toBe(true);
+    }
+    expect(chunks[chunks.length - 1].text).toContain('| Benefit 19 | QAR 19 |');
+  });
+
+  it('overlaps consecutive chunks', () => {
+    const lines = Array.from({ length: 10 }, (_, idx) => `line ${idx}`);
+    const [first, second] = chunkDocumentText(lines.join('\n'), 30, 10);
+    const lastLine = first.text.split('\n').pop() as string;
+    expect(second.text).toContain(lastLine);
+  });
+});
+
+describe('valueInTable', () => {
+  it('only finds values in table rows', () => {
+    const text = 'Deductible QAR 50\n| Co-insurance | 20% |';
+    expect(valueInTable(text, '20%')).toBe(true);
+    expect(valueInTable(text, 'QAR 50')).toBe(false);
+    expect(valueInTable(text, ' ')).toBe(false);
+  });
+});
+
+describe('reduceChunkCandidates', () => {
+  it('prefers a real value over "Nil"', () => {
+    expect(reduceChunkCandidates([candidate('Nil', { confidence: 0.9 }), candidate('20%')])?.value).toBe('20%');
+  });
+
+  it('prefers a table value and counts agreeing pages once each', () => {
+    const reduced = reduceChunkCandidates([
+      candidate('10%', { confidence: 0.7 }),
+      candidate('20%', { confidence: 0.7, fromTable: true, page: 3 }),
+      candidate('20%', { confidence: 0.6, chunk: 1, page: 3 }),
+    ]);
+    expect(reduced).toEqual({ value: '20%', page: 3, source: null, confidence: 0.6, rivals: ['10%'] });
+  });
+
+  it('returns null without candidates', () => {
+    expect(reduceChunkCandidates([])).toBeNull();
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps order and never runs more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(peak).toBe(2);
+  });
+});
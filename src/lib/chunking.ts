@@ -0,0 +1,163 @@
+// Chunked (map-reduce) extraction for long documents: the PDF text is split into
+// overlapping chunks on line boundaries, each chunk is extracted on its own and
+// the per-chunk candidates are reconciled field by field
+import { BLANK_VALUE } from "@/lib/fieldTypes";
+
+export interface TextChunk {
+  index: number;                // 0-based
+  text: string;
+  pages: [number, number];      // First and last page the chunk covers
+}
+
+export interface ChunkCandidate {
+  value: string;
+  chunk: number;
+  page: number | null;
+  source: string | null;
+  confidence: number | null;    // Model's own confidence, if it gave one
+  fromTable: boolean;           // Value sits in a markdown table row of the chunk
+}
+
+export interface ReducedField {
+  value: string;
+  page: number | null;
+  source: string | null;
+  confidence: number;
+  rivals: string[];             // Other values found for the field, best first
+}
+
+const PAGE_MARKER = /^=== PAGE (\d+) ===$/;
+const TABLE_SEPARATOR = /^\|(\s*:?-+:?\s*\|)+$/;
+// Candidates without a model confidence
+const DEFAULT_CONFIDENCE = 0.6;
+// A value read from a table row beats one read from prose
+const TABLE_BONUS = 0.1;
+// Per extra page that found the same value
+const AGREEMENT_BONUS = 0.05;
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Splits on line boundaries into chunks of at most chunkSize characters (a
+ * single longer line is kept whole). Each chunk repeats the last `overlap`
+ * characters of the one before, and one that starts mid-page or mid-table gets
+ * the page marker and table header in front, so rows are never read without
+ * their columns.
+ */
+export function chunkDocumentText(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  const lines = text.split('\n');
+  const pageAt: number[] = [];
+  const headerAt: Array<string | null> = [];
+  let page = 1;
+  let header: string | null = null;
+  lines.forEach((line, idx) => {
+    const trimmed = line.trim();
+    const marker = trimmed.match(PAGE_MARKER);
+    if (marker) page = parseInt(marker[1], 10);
+    if (!trimmed.startsWith('|')) header = null;
+    else if (header === null && TABLE_SEPARATOR.test(lines[idx + 1]?.trim() ?? '')) header = `${trimmed}\n${lines[idx + 1].trim()}`;
+    pageAt.push(page);
+    headerAt.push(header);
+  });
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    let size = 0;
+    while (end < lines.length && (end === start || size + lines[end].length + 1 <= chunkSize)) {
+      size += lines[end].length + 1;
+      end++;
+    }
+
+    const prefix: string[] = [];
+    if (!PAGE_MARKER.test(lines[start].trim())) prefix.push(`=== PAGE ${pageAt[start]} ===`);
+    const tableHeader = headerAt[start];
+    if (tableHeader && !tableHeader.split('\n').includes(lines[start].trim())) prefix.push(tableHeader);
+    chunks.push({
+      index: chunks.length,
+      text: [...prefix, ...lines.slice(start, end)].join('\n'),
+      pages: [pageAt[start], pageAt[end - 1]],
+    });
+    if (end >= lines.length) break;
+
+    // Step back over whole lines for the overlap, but always move forward
+    let next = end;
+    let back = 0;
+    while (next - 1 > start && back + lines[next - 1].length + 1 <= overlap) {
+      back += lines[next - 1].length + 1;
+      next--;
+    }
+    start = next;
+  }
+
+  console.log(`[Chunking] Split ${text.length} characters into ${chunks.length} chunks (size: ${chunkSize}, overlap: ${overlap})`);
+  return chunks;
+}
+
+/**
+ * Whether the value appears in a markdown table row of the text
+ */
+export function valueInTable(text: string, value: string): boolean {
+  const needle = collapse(value);
+  return needle.length > 0 && text.split('\n').some((line) => line.trim().startsWith('|') && collapse(line).includes(needle));
+}
+
+const score = (candidate: ChunkCandidate) =>
+  (candidate.confidence ?? DEFAULT_CONFIDENCE) + (candidate.fromTable ? TABLE_BONUS : 0);
+
+/**
+ * Picks one value for a field from the candidates of all chunks. Candidates
+ * are grouped by value; a group scores its best candidate's confidence (plus
+ * the table bonus) and a little for every further page agreeing with it.
+ * "Nil"-style answers only win when no chunk found a real value. A close
+ * runner-up lowers the confidence of the winner.
+ */
+export function reduceChunkCandidates(candidates: ChunkCandidate[]): ReducedField | null {
+  const real = candidates.filter((candidate) => !BLANK_VALUE.test(candidate.value.trim()));
+  const pool = real.length > 0 ? real : candidates;
+  if (pool.length === 0) return null;
+
+  const groups = new Map<string, ChunkCandidate[]>();
+  for (const candidate of pool) {
+    const key = collapse(candidate.value);
+    groups.set(key, [...(groups.get(key) ?? []), candidate]);
+  }
+
+  // Overlapping chunks see the same page twice - that is one finding, not two
+  const ranked = [...groups.values()]
+    .map((group) => {
+      const best = group.reduce((top, candidate) => (score(candidate) > score(top) ? candidate : top));
+      const pages = new Set(group.map((candidate) => candidate.page ?? `chunk ${candidate.chunk}`));
+      return { best, score: score(best) + AGREEMENT_BONUS * (pages.size - 1) };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [winner, runnerUp] = ranked;
+  let confidence = Math.min(1, winner.best.confidence ?? DEFAULT_CONFIDENCE);
+  if (runnerUp) confidence = Math.min(confidence, 0.5 + (winner.score - runnerUp.score));
+
+  return {
+    value: winner.best.value,
+    page: winner.best.page,
+    source: winner.best.source,
+    confidence: Math.round(confidence * 100) / 100,
+    rivals: ranked.slice(1).map((group) => group.best.value),
+  };
+}
+
+/**
+ * Runs fn over the items with at most `limit` calls in flight, keeping order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
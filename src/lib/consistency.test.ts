@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { FIELD_SCHEMAS } from "@/constants/fieldSchema";
+import { checkConsistency } from "@/lib/consistency";
+
+const checks = (data: Record<string, string | null>, schema = FIELD_SCHEMAS.ALKOOT) =>
+  checkConsistency(data, schema).map((warning) => warning.check);
+
+describe('checkConsistency', () => {
+  it('accepts a one-year policy period', () => {
+    expect(checks({ 'Effective Date': '01 January 2024', 'Expiry Date': '31 December 2024' })).toEqual([]);
+  });
+
+  it('warns when the period ends before it starts or is not about a year', () => {
+    expect(checks({ 'Effective Date': '01/01/2025', 'Expiry Date': '31/12/2024' })).toEqual(['date-order']);
+    expect(checks({ 'Effective Date': '01/01/2024', 'Expiry Date': '30/06/2024' })).toEqual(['period-length']);
+  });
+
+  it('reads a period written as one value', () => {
+    expect(checks({ 'Period of Insurance': 'From 01/01/2024 to 31/12/2023' }, [])).toEqual(['date-order']);
+  });
+
+  it('warns about percentages over 100%', () => {
+    expect(checks({ 'Co-insurance': '120%' }, [])).toContain('percent-range');
+  });
+
+  it('warns when the provider rate equals a general rate', () => {
+    const warnings = checkConsistency({
+      'Provider-specific co-insurance at Al Ahli Hospital': '20%',
+      'Co-insurance on all inpatient treatment': '20%',
+    }, FIELD_SCHEMAS.ALKOOT);
+    expect(warnings).toEqual([{
+      check: 'provider-coinsurance',
+      fields: ['Provider-specific co-insurance at Al Ahli Hospital', 'Co-insurance on all inpatient treatment'],
+      message: '"Provider-specific co-insurance at Al Ahli Hospital" was read as 20%, the same as "Co-insurance on all inpatient treatment" - the provider rate may come from the general row',
+    }]);
+  });
+
+  it('leaves identical coverage terms alone', () => {
+    expect(checks({
+      'Provider-specific co-insurance at Al Ahli Hospital': 'Nil',
+      'Co-insurance on all inpatient treatment': 'Nil',
+    })).toEqual([]);
+  });
+
+  it('warns about implausible member shares', () => {
+    expect(checks({ 'Deductible on consultation': 'QAR 10,000' }, [])).toEqual(['member-share']);
+    expect(checks({ 'Co-insurance': '80%' }, [])).toEqual(['member-share']);
+  });
+});
@@ -0,0 +1,131 @@
+// Cross-field consistency checks: values that can't all be right together.
+// Checks only warn; the pipeline runs them before payer rules rewrite any value.
+import type { ConsistencyWarning, ExtractedData } from "@/constants/fields";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { canonicalKey, parseValue, type ParsedValue } from "@/lib/valueComparison";
+
+const DAY_MS = 86_400_000;
+const MIN_PERIOD_DAYS = 350;        // A policy period is about one year
+const MAX_PERIOD_DAYS = 380;
+const MAX_MEMBER_PERCENT = 50;      // Co-insurance / copayment share above this is implausible
+const MAX_MEMBER_AMOUNT = 5000;     // Per-visit deductible / copayment (QAR) above this is implausible
+
+const START_DATE = /effective|start|inception|commencement/i;
+const END_DATE = /expir|end date|valid until/i;
+const PERIOD = /period of (?:insurance|cover)|coverage period|policy period/i;
+const PERIOD_SEPARATOR = /\s+(?:to|until|till|through|-|–|—)\s+/i;
+const COINSURANCE = /co-?insurance|co-?pay/i;
+const PROVIDER_SPECIFIC = /provider|hospital|clinic|network/i;
+const MEMBER_SHARE = /co-?insurance|co-?pay|deductible/i;
+
+type Check = (data: ExtractedData, schema: FieldDefinition[]) => ConsistencyWarning[];
+
+const present = (data: ExtractedData) =>
+  Object.entries(data).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '');
+
+const typeOf = (schema: FieldDefinition[], field: string) => schema.find((def) => def.name === field)?.type;
+
+const percentsOf = (parsed: ParsedValue) =>
+  parsed.kind === 'percent' ? [parsed.value] : parsed.kind === 'composite' ? parsed.percents : [];
+
+const amountsOf = (parsed: ParsedValue) =>
+  parsed.kind === 'money' ? [parsed.amount] : parsed.kind === 'composite' ? parsed.amounts : [];
+
+const toDate = (value: string) => {
+  const parsed = parseValue(value, 'date');
+  return parsed.kind === 'date' ? parsed.iso : null;
+};
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// End before start, or a period far from one year (inclusive "01/01 to 31/12" is 364 days)
+function periodWarning(fields: string[], start: string, end: string): ConsistencyWarning | null {
+  const days = daysBetween(start, end);
+  if (days < 0) return { check: 'date-order', fields, message: `Ends (${end}) before it starts (${start})` };
+  if (days < MIN_PERIOD_DAYS || days > MAX_PERIOD_DAYS) {
+    return { check: 'period-length', fields, message: `Policy period is ${days} days, not about one year` };
+  }
+  return null;
+}
+
+const checkDateFields: Check = (data) => {
+  const entries = present(data);
+  const starts = entries.filter(([field]) => START_DATE.test(field));
+  const ends = entries.filter(([field]) => END_DATE.test(field));
+  const warnings: ConsistencyWarning[] = [];
+  for (const [startField, startValue] of starts) {
+    for (const [endField, endValue] of ends) {
+      const start = toDate(startValue);
+      const end = toDate(endValue);
+      if (!start || !end) continue;
+      const warning = periodWarning([startField, endField], start, end);
+      if (warning) warnings.push(warning);
+    }
+  }
+  return warnings;
+};
+
+const checkPeriodText: Check = (data) =>
+  present(data)
+    .filter(([field]) => PERIOD.test(field))
+    .flatMap(([field, value]) => {
+      const [start, end, ...rest] = value.replace(/^\s*from\s+/i, '').split(PERIOD_SEPARATOR).map(toDate);
+      if (!start || !end || rest.length > 0) return [];
+      const warning = periodWarning([field], start, end);
+      return warning ? [warning] : [];
+    });
+
+const checkPercentages: Check = (data, schema) =>
+  present(data).flatMap(([field, value]) => {
+    const over = percentsOf(parseValue(value, typeOf(schema, field))).filter((percent) => percent > 100);
+    return over.length > 0 ? [{ check: 'percent-range', fields: [field], message: `${over[0]}% is over 100%` }] : [];
+  });
+
+const checkProviderCoinsurance: Check = (data, schema) => {
+  const entries = present(data).filter(([field]) => COINSURANCE.test(field));
+  const specific = entries.filter(([field]) => PROVIDER_SPECIFIC.test(field));
+  const general = entries.filter(([field]) => !PROVIDER_SPECIFIC.test(field));
+  const warnings: ConsistencyWarning[] = [];
+  for (const [field, value] of specific) {
+    const parsed = parseValue(value, typeOf(schema, field));
+    // Identical coverage terms ("Nil" for both) are common and fine
+    if (parsed.kind !== 'percent' && parsed.kind !== 'money') continue;
+    const same = general.find(([other, otherValue]) => canonicalKey(parseValue(otherValue, typeOf(schema, other))) === canonicalKey(parsed));
+    if (same) {
+      warnings.push({
+        check: 'provider-coinsurance',
+        fields: [field, same[0]],
+        message: `"${field}" was read as ${value}, the same as "${same[0]}" - the provider rate may come from the general row`,
+      });
+    }
+  }
+  return warnings;
+};
+
+const checkMemberShare: Check = (data, schema) =>
+  present(data).flatMap(([field, value]) => {
+    const def = schema.find((entry) => entry.name === field);
+    const memberPaid = def ? def.paidBy === 'member' : MEMBER_SHARE.test(field);
+    if (!memberPaid) return [];
+    const parsed = parseValue(value, def?.type);
+    const percent = percentsOf(parsed).find((share) => share > MAX_MEMBER_PERCENT && share <= 100);
+    if (percent !== undefined) {
+      return [{ check: 'member-share', fields: [field], message: `Member pays ${percent}% - more than the usual ${MAX_MEMBER_PERCENT}% at most` }];
+    }
+    const amount = amountsOf(parsed).find((total) => total > MAX_MEMBER_AMOUNT);
+    if (amount !== undefined) {
+      return [{ check: 'member-share', fields: [field], message: `Member pays ${amount} - more than the usual ${MAX_MEMBER_AMOUNT} at most` }];
+    }
+    return [];
+  });
+
+const CHECKS: Check[] = [checkDateFields, checkPeriodText, checkPercentages, checkProviderCoinsurance, checkMemberShare];
+
+/**
+ * Warnings for extracted values that contradict each other or are outside
+ * plausible ranges. Fields are recognised by schema type and name, so checks
+ * also cover custom plans.
+ */
+export function checkConsistency(data: ExtractedData, schema: FieldDefinition[] = []): ConsistencyWarning[] {
+  return CHECKS.flatMap((check) => check(data, schema));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { cacheKeys, hashFile, invalidateExtractionCache, readCache, writeCache, type ExtractionCacheStore, type ResultCacheKey } from "@/lib/extractionCache";
+
+const memoryStore = (): ExtractionCacheStore & { entries: Map<string, unknown> } => {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    get: async <T>(key: string) => entries.get(key) as T | undefined,
+    set: async (key, value) => void entries.set(key, value),
+    invalidate: async (prefix) => [...entries.keys()].filter((key) => key.startsWith(prefix)).forEach((key) => entries.delete(key)),
+  };
+};
+
+const schema: FieldDefinition[] = [{ name: 'Dental', type: 'money', synonyms: [] }];
+const key: ResultCacheKey = { fileHash: 'abc', plan: 'Acme Gold', llm: 'openai/gpt-5-mini', schema, promptVersion: '3+extract@2' };
+
+describe('hashFile', () => {
+  it('hashes the file contents, not the name', async () => {
+    const hash = await hashFile(new File(['%PDF'], 'a.pdf'));
+    expect(hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(await hashFile(new File(['%PDF'], 'b.pdf'))).toBe(hash);
+    expect(await hashFile(new File(['%PDF-1.4'], 'a.pdf'))).not.toBe(hash);
+  });
+});
+
+describe('cacheKeys.result', () => {
+  it('starts with the file hash and changes with anything that reaches the prompt', async () => {
+    const base = await cacheKeys.result(key);
+    expect(base).toMatch(/^abc:result:Acme%20Gold:openai%2Fgpt-5-mini:[a-f0-9]{64}:v3\+extract@2$/);
+    expect(await cacheKeys.result({ ...key, schema: [{ ...schema[0], instructions: 'Limit only' }] })).not.toBe(base);
+    expect(await cacheKeys.result({ ...key, examples: ['ex-1@2025-01-01'] })).not.toBe(base);
+    expect(await cacheKeys.result({ ...key, examples: [] })).toBe(base);
+  });
+});
+
+describe('readCache', () => {
+  it('treats a missing or failing store as a miss', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken: ExtractionCacheStore = {
+      get: async () => { throw new Error('quota'); },
+      set: async () => { throw new Error('quota'); },
+      invalidate: async () => {},
+    };
+    expect(await readCache(null, 'k')).toBeUndefined();
+    expect(await readCache(broken, 'k')).toBeUndefined();
+    await expect(writeCache(broken, 'k', 1)).resolves.toBeUndefined();
+  });
+});
+
+describe('invalidateExtractionCache', () => {
+  it('drops one file, or everything', async () => {
+    const store = memoryStore();
+    const file = new File(['%PDF'], 'a.pdf');
+    const hash = await hashFile(file);
+    await writeCache(store, cacheKeys.text(hash, 1), 'text');
+    await writeCache(store, cacheKeys.markdown(hash, 'openai/gpt-5-mini', 2), 'markdown');
+    await writeCache(store, cacheKeys.text('other', 1), 'text');
+
+    await invalidateExtractionCache(file, store);
+    expect([...store.entries.keys()]).toEqual(['other:text:v1']);
+    await invalidateExtractionCache(undefined, store);
+    expect(store.entries.size).toBe(0);
+  });
+});
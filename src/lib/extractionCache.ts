@@ -0,0 +1,124 @@
+// Content-addressed cache of extraction work (PDF text, markdown, final results),
+// so re-extracting a file we've already processed costs no parsing, upload or LLM calls
+import type { FieldDefinition } from "../constants/fieldSchema";
+
+/**
+ * Key-value backend. Keys start with the file hash, so one file's entries
+ * can be dropped with invalidate(fileHash); invalidate('') clears everything.
+ */
+export interface ExtractionCacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  invalidate(prefix: string): Promise<void>;
+}
+
+interface StoredEntry<T> {
+  value: T;
+  storedAt: string;
+}
+
+export interface ResultCacheKey {
+  fileHash: string;
+  plan: string;                 // Payer plan name, or the built-in plan
+  llm: string;                  // Provider kind and model, e.g. "gemini/gemini-1.5-pro"
+  schema: FieldDefinition[];
+  promptVersion: number | string;  // Pipeline version and the prompt template stamps
+  examples?: string[];          // Few-shot examples that could be shown (id@verifiedAt)
+}
+
+const DB_NAME = "extraction-cache";
+const DB_STORE = "entries";
+
+async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export const hashFile = async (file: File) => sha256Hex(await file.arrayBuffer());
+
+export const cacheKeys = {
+  text: (fileHash: string, textVersion: number) => `${fileHash}:text:v${textVersion}`,
+  markdown: (fileHash: string, llm: string, promptVersion: number) => `${fileHash}:markdown:${encodeURIComponent(llm)}:v${promptVersion}`,
+  // Types, synonyms and instructions all end up in the prompt, so the whole schema is hashed
+  // Without examples the key is unchanged, so earlier cached results stay valid
+  result: async ({ fileHash, plan, llm, schema, promptVersion, examples }: ResultCacheKey) =>
+    `${fileHash}:result:${encodeURIComponent(plan)}:${encodeURIComponent(llm)}:${await sha256Hex(JSON.stringify(examples?.length ? [schema, examples] : schema))}:v${promptVersion}`,
+};
+
+/**
+ * Cache reads and writes never fail an extraction - a broken store just means a miss
+ */
+export async function readCache<T>(store: ExtractionCacheStore | null, key: string): Promise<T | undefined> {
+  if (!store) return undefined;
+  try {
+    return await store.get<T>(key);
+  } catch (err) {
+    console.warn(`[Cache] Read failed for ${key}:`, err);
+    return undefined;
+  }
+}
+
+export async function writeCache<T>(store: ExtractionCacheStore | null, key: string, value: T): Promise<void> {
+  if (!store) return;
+  try {
+    await store.set(key, value);
+  } catch (err) {
+    console.warn(`[Cache] Write failed for ${key}:`, err);
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function createIndexedDBCacheStore(dbName = DB_NAME): ExtractionCacheStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+      db = requestToPromise(request);
+    }
+    return db;
+  };
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(DB_STORE, mode).objectStore(DB_STORE);
+
+  return {
+    async get<T>(key: string) {
+      const entry = await requestToPromise<StoredEntry<T> | undefined>((await objectStore("readonly")).get(key));
+      return entry?.value;
+    },
+    async set<T>(key: string, value: T) {
+      const entry: StoredEntry<T> = { value, storedAt: new Date().toISOString() };
+      await requestToPromise((await objectStore("readwrite")).put(entry, key));
+    },
+    async invalidate(prefix: string) {
+      const store = await objectStore("readwrite");
+      await requestToPromise(prefix ? store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)) : store.clear());
+    },
+  };
+}
+
+let browserStore: ExtractionCacheStore | null | undefined;
+
+/**
+ * IndexedDB in the browser; none in Node, where callers pass a disk store
+ */
+export function defaultExtractionCache(): ExtractionCacheStore | null {
+  if (browserStore === undefined) {
+    browserStore = typeof indexedDB !== "undefined" ? createIndexedDBCacheStore() : null;
+  }
+  return browserStore;
+}
+
+/**
+ * Drops cached entries for one file, or everything when no file is given
+ */
+export async function invalidateExtractionCache(file?: File, store = defaultExtractionCache()): Promise<void> {
+  if (!store) return;
+  await store.invalidate(file ? await hashFile(file) : "");
+}
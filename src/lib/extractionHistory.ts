@@ -0,0 +1,94 @@
+// Past extraction runs, stored in localStorage (newest first)
+import type { ExtractionRun } from "../constants/fields";
+
+const STORAGE_KEY = "extractionHistory";
+// Runs carry full results and provenance - keep well under the localStorage quota
+const MAX_RUNS = 200;
+
+const POLICY_NUMBER_FIELD = /^policy\s*(no\b|number|#)/i;
+const CLIENT_FIELD = /insured|client|policy\s*holder|company|employer/i;
+
+export type NewExtractionRun = Omit<ExtractionRun, 'id' | 'createdAt' | 'fieldsFound' | 'fieldsTotal'>;
+
+export function loadExtractionHistory(): ExtractionRun[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Error reading extraction history:", err);
+    return [];
+  }
+}
+
+function writeHistory(runs: ExtractionRun[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  } catch (err) {
+    // Quota exceeded - drop the older half and try once more
+    if (runs.length <= 1) throw err;
+    console.warn("Extraction history is full, dropping older runs");
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(0, Math.ceil(runs.length / 2))));
+  }
+}
+
+export function recordExtractionRun(run: NewExtractionRun): ExtractionRun {
+  const values = Object.values(run.data);
+  const saved: ExtractionRun = {
+    ...run,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    fieldsFound: values.filter((value) => value !== null).length,
+    fieldsTotal: values.length,
+  };
+  try {
+    writeHistory([saved, ...loadExtractionHistory()].slice(0, MAX_RUNS));
+  } catch (err) {
+    // History is a convenience - never fail the extraction over it
+    console.error("Error saving extraction run:", err);
+  }
+  return saved;
+}
+
+export function findExtractionRun(id: string): ExtractionRun | undefined {
+  return loadExtractionHistory().find((run) => run.id === id);
+}
+
+export function deleteExtractionRun(id: string) {
+  writeHistory(loadExtractionHistory().filter((run) => run.id !== id));
+}
+
+export function clearExtractionHistory() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+const fieldValue = (run: ExtractionRun, pattern: RegExp) => {
+  const field = Object.keys(run.data).find((name) => pattern.test(name));
+  return field ? run.data[field] : null;
+};
+
+/**
+ * Policy number and client of a run, from whichever fields the plan names them
+ */
+export function runIdentifiers(run: ExtractionRun): { policyNumber: string | null; client: string | null } {
+  return {
+    policyNumber: fieldValue(run, POLICY_NUMBER_FIELD),
+    client: fieldValue(run, CLIENT_FIELD),
+  };
+}
+
+/**
+ * Case-insensitive match on policy number, client, file name or plan.
+ * Plans without those fields are still found by any extracted value.
+ */
+export function searchExtractionHistory(runs: ExtractionRun[], query: string): ExtractionRun[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return runs;
+  return runs.filter((run) => {
+    const { policyNumber, client } = runIdentifiers(run);
+    const haystack = [policyNumber, client, run.fileName, run.payerPlan, ...Object.values(run.data)]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { FewShotExample, FieldProvenance } from "@/constants/fields";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { createFieldReviews, reviewField, type ExpectedResultsFile } from "@/lib/reviews";
+import { examplesFromExpected, examplesFromReview, loadFewShotExamples, saveFewShotExamples, selectFewShotExamples } from "@/lib/fewShotStore";
+import { stubLocalStorage } from "@/test/localStorage";
+
+const TEXT = [
+  '=== PAGE 1 ===',
+  'Policy Number: AK/HC/00064/7/1, issued to Acme Trading for the period of insurance below.',
+  '=== PAGE 2 ===',
+  '| Benefit | Limit |',
+  '| --- | --- |',
+  '| Deductible on consultation | Nil |',
+  '| Dental Benefit | QAR 7,500, 20% co-insurance |',
+].join('\n');
+
+const example = (overrides: Partial<FewShotExample>): FewShotExample => ({
+  id: 'doc:Dental', payerPlan: 'ALKOOT', field: 'Dental Benefit', value: 'QAR 5,000', snippet: '',
+  documentName: 'old.pdf', documentHash: 'old', source: 'expected', verifiedAt: '2025-01-01T00:00:00.000Z', ...overrides,
+});
+
+describe('examplesFromExpected', () => {
+  const expected: ExpectedResultsFile = {
+    context: '', payerPlan: 'CUSTOM', payerPlanName: 'Acme Gold', pdfName: 'policy.pdf',
+    expectedFields: { 'Dental Benefit': 'QAR 7,500, 20% co-insurance', 'Policy Number': 'AK/HC/00064/7/1', Optical: null, Wellness: 'Covered' },
+  };
+
+  it('shows each value with the passage it was read from, under the plan name, and skips fields not found', () => {
+    const examples = examplesFromExpected(expected, TEXT, 'hash-of-policy-pdf', '2025-02-01');
+    expect(examples.map((ex) => [ex.id, ex.payerPlan, ex.source])).toEqual([
+      ['hash-of-policy-p:Dental Benefit', 'Acme Gold', 'expected'],
+      ['hash-of-policy-p:Policy Number', 'Acme Gold', 'expected'],
+    ]);
+    expect(examples[0].snippet).toContain('| Dental Benefit | QAR 7,500, 20% co-insurance |');
+    expect(examples[1].snippet).toContain('Policy Number: AK/HC/00064/7/1');
+  });
+});
+
+describe('examplesFromReview', () => {
+  const provenance = (snippet: string, page: number): FieldProvenance =>
+    ({ value: null, rawValue: null, page, source: null, snippet, confidence: 0.9, pass: 'direct' });
+
+  let fields = createFieldReviews({ 'Policy Number': 'AK/HC/00064/7/1', 'Deductible on consultation': 'QAR 50', Optical: 'Covered' });
+  fields = reviewField(fields, 'Policy Number', { status: 'accepted', reviewer: 'Sam' });
+  fields = reviewField(fields, 'Deductible on consultation', { status: 'corrected', reviewer: 'Sam', value: 'Nil' });
+  fields = reviewField(fields, 'Optical', { status: 'rejected', reviewer: 'Sam' });
+  const record = {
+    id: 'run-1', pdfName: 'policy.pdf', payerPlan: 'ALKOOT', reviewer: 'Sam',
+    createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-02T00:00:00.000Z', fields,
+  };
+  const modelProvenance = {
+    'Policy Number': provenance('Policy Number: AK/HC/00064/7/1', 1),
+    'Deductible on consultation': provenance('QAR 50 per visit', 1),
+  };
+
+  it('takes accepted snippets from the run and finds corrected values in the text', () => {
+    const examples = examplesFromReview(record, modelProvenance, 'hash', TEXT);
+    expect(examples.map((ex) => [ex.field, ex.value, ex.verifiedBy])).toEqual([
+      ['Policy Number', 'AK/HC/00064/7/1', 'Sam'],
+      ['Deductible on consultation', 'Nil', 'Sam'],
+    ]);
+    expect(examples[1].snippet).toContain('| Deductible on consultation | Nil |');
+  });
+
+  it('skips corrections when the document text is not available', () => {
+    expect(examplesFromReview(record, modelProvenance, 'hash').map((ex) => ex.field)).toEqual(['Policy Number']);
+  });
+});
+
+describe('saveFewShotExamples', () => {
+  beforeEach(() => {
+    stubLocalStorage();
+  });
+
+  it('replaces an earlier example of the same document and field', () => {
+    saveFewShotExamples([example({ value: 'QAR 5,000' }), example({ id: 'doc:Optical', field: 'Optical' })]);
+    saveFewShotExamples([example({ value: 'QAR 6,000' })]);
+    expect(loadFewShotExamples().map((ex) => [ex.id, ex.value])).toEqual([['doc:Dental', 'QAR 6,000'], ['doc:Optical', 'QAR 5,000']]);
+  });
+});
+
+describe('selectFewShotExamples', () => {
+  const schema: FieldDefinition[] = [{ name: 'Dental', type: 'money', synonyms: ['Dental Benefit'] }];
+
+  it('ranks examples by similar wording and payer, never using the same document', () => {
+    const examples = [
+      example({ id: 'a', snippet: 'Room and board: Private', payerPlan: 'QLM' }),
+      example({ id: 'b', snippet: '| Dental Benefit | QAR 5,000, 10% co-insurance |', payerPlan: 'QLM' }),
+      example({ id: 'c', snippet: 'Room and board: Private', payerPlan: 'ALKOOT' }),
+      example({ id: 'own', snippet: '| Dental Benefit | QAR 7,500, 20% co-insurance |', documentHash: 'current' }),
+      example({ id: 'other-field', field: 'Optical', snippet: '| Dental Benefit | QAR 1 |' }),
+    ];
+    const selected = selectFewShotExamples(examples, { schema, pdfText: TEXT, payerPlan: 'ALKOOT', documentHash: 'current', perField: 2 });
+    expect(selected.Dental.map((ex) => ex.id)).toEqual(['b', 'c']);
+    expect(selectFewShotExamples([], { schema, pdfText: TEXT, perField: 2 })).toEqual({});
+  });
+});
@@ -0,0 +1,188 @@
+// Few-shot example store: verified field values - from *.expected.json ground
+// truth and reviewed extractions - with the document text they were read from.
+// At prompt time the most similar examples of each requested field are picked.
+import type { ExtractionProvenance, FewShotExample, ReviewedRecord } from "../constants/fields";
+import type { FieldDefinition } from "../constants/fieldSchema";
+import type { ExpectedResultsFile } from "./reviews";
+import { locateValue } from "./provenance";
+import { buildPassages, createBm25Index, queryText, tokenize } from "./retrieval";
+
+const STORAGE_KEY = "fewShotExamples";
+// Examples should cost little prompt - longer passages are cut to the lines that matter
+const MAX_SNIPPET_CHARS = 600;
+// Documents of the same payer are laid out alike, so their examples rank higher
+const SAME_PAYER_BONUS = 0.2;
+// Passages of the current document a field's examples are compared with
+const CONTEXT_PASSAGES = 2;
+
+const exampleId = (documentHash: string, field: string) => `${documentHash.slice(0, 16)}:${field}`;
+const normalizeName = (name: string) => name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, ' ').trim();
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * The lines of a passage that show the value: lines with the value or the
+ * field label, under the table header when the passage is a table
+ */
+function trimSnippet(text: string, field: string, value: string): string {
+  if (text.length <= MAX_SNIPPET_CHARS) return text;
+  const lines = text.split('\n');
+  const head = lines[0].startsWith('|') && /^\|[\s:|-]+\|$/.test(lines[1] ?? '') ? lines.slice(0, 2) : [];
+  const needles = [collapse(value), collapse(field)];
+  const hits = lines.slice(head.length).filter((line) => needles.some((needle) => needle && collapse(line).includes(needle)));
+  const snippet = [...head, ...hits].join('\n');
+  return hits.length > 0 && snippet.length <= MAX_SNIPPET_CHARS ? snippet : text.slice(0, MAX_SNIPPET_CHARS);
+}
+
+/**
+ * Examples from a ground truth file and the text of its PDF. A value is shown
+ * with the passage it appears in, or else the passage that best matches the
+ * field name; fields with neither are skipped.
+ */
+export function examplesFromExpected(
+  expected: ExpectedResultsFile,
+  pdfText: string,
+  documentHash: string,
+  verifiedAt = new Date().toISOString()
+): FewShotExample[] {
+  const passages = buildPassages(pdfText);
+  const index = createBm25Index(passages);
+
+  return Object.entries(expected.expectedFields).flatMap(([field, value]) => {
+    if (value === null || !value.trim()) return [];
+    const located = locateValue(pdfText, value, null, [field]);
+    const holding = located && passages.find((p) => p.page === located.page && collapse(p.text).includes(collapse(value)));
+    const passage = holding || index.search(field, 1)[0]?.passage;
+    if (!passage) return [];
+    return [{
+      id: exampleId(documentHash, field),
+      payerPlan: expected.payerPlanName ?? expected.payerPlan,
+      field,
+      value,
+      snippet: trimSnippet(passage.text, field, value),
+      documentName: expected.pdfName,
+      documentHash,
+      source: 'expected' as const,
+      verifiedAt,
+    }];
+  });
+}
+
+/**
+ * Examples from a review: accepted values with the snippet the model's value
+ * was found in, corrected values with the text around the correction in
+ * pdfText (skipped without it - the model's snippet surrounds the wrong value).
+ * Rejected fields have no value to show.
+ */
+export function examplesFromReview(
+  record: ReviewedRecord,
+  provenance: ExtractionProvenance,
+  documentHash: string,
+  pdfText?: string
+): FewShotExample[] {
+  return Object.values(record.fields).flatMap((review) => {
+    if (!review.value) return [];
+    const snippet = review.status === 'accepted'
+      ? provenance[review.field]?.snippet
+      : review.status === 'corrected' && pdfText
+        ? locateValue(pdfText, review.value, provenance[review.field]?.page, [review.field])?.snippet
+        : null;
+    if (!snippet) return [];
+    return [{
+      id: exampleId(documentHash, review.field),
+      payerPlan: record.payerPlan,
+      field: review.field,
+      value: review.value,
+      snippet,
+      documentName: record.pdfName,
+      documentHash,
+      source: 'review' as const,
+      verifiedAt: record.updatedAt,
+      ...(record.reviewer && { verifiedBy: record.reviewer }),
+    }];
+  });
+}
+
+/**
+ * Adds examples to a list; one with the same id (document and field) replaces the older one
+ */
+export function mergeFewShotExamples(existing: FewShotExample[], added: FewShotExample[]): FewShotExample[] {
+  const byId = new Map(existing.map((example) => [example.id, example]));
+  added.forEach((example) => byId.set(example.id, example));
+  return [...byId.values()];
+}
+
+/**
+ * Examples saved in this browser; empty where there is no localStorage (CLI, server)
+ */
+export function loadFewShotExamples(): FewShotExample[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Error reading few-shot examples:", err);
+    return [];
+  }
+}
+
+export function saveFewShotExamples(added: FewShotExample[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mergeFewShotExamples(loadFewShotExamples(), added)));
+}
+
+const matchesField = (example: FewShotExample, def: Pick<FieldDefinition, 'name' | 'synonyms'>) =>
+  [def.name, ...def.synonyms].some((name) => normalizeName(name) === normalizeName(example.field));
+
+/**
+ * Examples that could be picked for these fields - never ones of the document itself
+ */
+export function candidateExamples(
+  examples: FewShotExample[],
+  schema: Pick<FieldDefinition, 'name' | 'synonyms'>[],
+  documentHash?: string
+): FewShotExample[] {
+  return examples.filter((example) => example.documentHash !== documentHash && schema.some((def) => matchesField(example, def)));
+}
+
+const termVector = (text: string) => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+  let dot = 0;
+  a.forEach((count, token) => (dot += count * (b.get(token) ?? 0)));
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, n) => sum + n * n, 0));
+  return dot ? dot / (norm(a) * norm(b)) : 0;
+};
+
+/**
+ * Up to `perField` examples per field, most similar first: each example's
+ * snippet is compared (term cosine) with the passages of the current document
+ * that best match the field, with a bonus for the same payer.
+ */
+export function selectFewShotExamples(
+  examples: FewShotExample[],
+  params: { schema: FieldDefinition[]; pdfText: string; payerPlan?: string; documentHash?: string; perField: number }
+): Record<string, FewShotExample[]> {
+  const { schema, pdfText, payerPlan, documentHash, perField } = params;
+  const pool = candidateExamples(examples, schema, documentHash);
+  if (pool.length === 0) return {};
+
+  const index = createBm25Index(buildPassages(pdfText));
+  const selected: Record<string, FewShotExample[]> = {};
+  for (const def of schema) {
+    const candidates = pool.filter((example) => matchesField(example, def));
+    if (candidates.length === 0) continue;
+    const context = termVector(index.search(queryText(def), CONTEXT_PASSAGES).map(({ passage }) => passage.text).join('\n'));
+    selected[def.name] = candidates
+      .map((example) => ({
+        example,
+        score: cosine(termVector(example.snippet), context) + (payerPlan && example.payerPlan === payerPlan ? SAME_PAYER_BONUS : 0),
+      }))
+      .sort((a, b) => b.score - a.score || b.example.verifiedAt.localeCompare(a.example.verifiedAt))
+      .slice(0, perField)
+      .map(({ example }) => example);
+  }
+  return selected;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { applyFieldSchema, findFieldDefinition, normalizeFieldValue, resolveFieldSchema, validateFieldValue } from "@/lib/fieldTypes";
+
+const def = (name: string) => findFieldDefinition(name)!;
+
+describe('findFieldDefinition', () => {
+  it('matches names and synonyms, preferring the given payer', () => {
+    expect(findFieldDefinition('policy  number')?.name).toBe('Policy Number');
+    expect(findFieldDefinition('Outpatient deductible', 'ALKOOT')?.name).toBe('Deductible on consultation');
+    expect(findFieldDefinition('Outpatient deductible', 'QLM')?.name).toBe('Deductible per each outpatient consultation');
+    expect(findFieldDefinition('Gym membership')).toBeUndefined();
+  });
+});
+
+describe('resolveFieldSchema', () => {
+  it('keeps the requested name and infers custom fields', () => {
+    expect(resolveFieldSchema(['Dental', 'Renewal Date'])).toMatchObject([
+      { name: 'Dental', type: 'money', paidBy: 'insurer' },
+      { name: 'Renewal Date', type: 'date' },
+    ]);
+  });
+});
+
+describe('normalizeFieldValue', () => {
+  it('writes dates, amounts and percentages in the field format', () => {
+    expect(normalizeFieldValue(def('Effective Date'), '01/03/2025')).toBe('01 March 2025');
+    expect(normalizeFieldValue(def('Inpatient Deductible'), 'QR 1500')).toBe('QAR 1,500');
+    expect(normalizeFieldValue(def('Vaccination of children'), 'QAR 500')).toBe('QAR 500/PPPY');
+  });
+
+  it('turns the member share into the insurer share for covered fields', () => {
+    expect(normalizeFieldValue(def('For Eligible Medical Expenses at Al Ahli Hospital'), '20% co-insurance')).toBe('80% covered');
+  });
+
+  it('falls back to the default for blank answers and bare conditions only', () => {
+    const vaccination = def('Vaccination of children');
+    expect(normalizeFieldValue(vaccination, 'Nil')).toBe('Covered');
+    expect(normalizeFieldValue(vaccination, 'Up to age 6 per MoH regulations')).toBe('Covered');
+    expect(normalizeFieldValue(vaccination, 'Not covered')).toBe('Not covered');
+  });
+});
+
+describe('validateFieldValue', () => {
+  const date: FieldDefinition = { name: 'Start', type: 'date', required: true, synonyms: [] };
+
+  it('fails values of the wrong kind and missing required fields', () => {
+    expect(validateFieldValue(date, 'next year')).toMatchObject({ valid: false });
+    expect(validateFieldValue(date, null)).toEqual({ valid: false, suggestion: 'Required field not found' });
+    expect(validateFieldValue(def('Dental Benefit'), 'QAR 7,500, 20% co-insurance').valid).toBe(true);
+  });
+});
+
+describe('applyFieldSchema', () => {
+  it('normalizes the schema fields, keeps the others and lists the issues', () => {
+    const schema = resolveFieldSchema(['Inpatient Deductible', 'Effective Date']);
+    const result = applyFieldSchema({ 'Inpatient Deductible': 'QAR 100', 'Effective Date': 'soon', Other: 'x' }, schema);
+    expect(result.data).toEqual({ 'Inpatient Deductible': 'QAR 100', 'Effective Date': 'soon', Other: 'x' });
+    expect(Object.keys(result.issues)).toEqual(['Effective Date']);
+  });
+});
@@ -0,0 +1,200 @@
+// Schema-driven prompting, validation and normalization of field values
+import type { PayerPlan } from "../constants/fields";
+import { FIELD_SCHEMAS, type FieldDefinition, type FieldValueType } from "../constants/fieldSchema";
+import { parseValue, type CoverageTerm } from "./valueComparison";
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Literal "nothing found" answers - a field default may replace these, an explicit "Not covered" never
+export const BLANK_VALUE = /^(?:nil|null|none|n\/?a|not found|-+)$/i;
+
+const TYPE_HINTS: Record<FieldValueType, string> = {
+  money: 'amount with currency, e.g. "QAR 7,500"',
+  percentage: 'percentage, e.g. "20%"',
+  date: 'date, DD/MM/YYYY',
+  coverage: '"Covered", "Not covered" or an amount',
+  text: 'text as written in the document',
+};
+
+const labelKey = (label: string) => label.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Finds the definition for a field by name or synonym, preferring the given
+ * payer's schema over the others
+ */
+export function findFieldDefinition(name: string, payerPlan?: PayerPlan): FieldDefinition | undefined {
+  const key = labelKey(name);
+  const schemas = [
+    ...(payerPlan && FIELD_SCHEMAS[payerPlan] ? [FIELD_SCHEMAS[payerPlan]] : []),
+    ...Object.values(FIELD_SCHEMAS),
+  ];
+  for (const byName of [true, false]) {
+    for (const schema of schemas) {
+      const match = schema.find(def =>
+        byName ? labelKey(def.name) === key : def.synonyms.some(s => labelKey(s) === key)
+      );
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Best guess for custom fields that are not in any schema
+ */
+export function inferFieldDefinition(name: string): FieldDefinition {
+  const lower = name.toLowerCase();
+  let type: FieldValueType = 'text';
+  if (/\bdate\b/.test(lower)) type = 'date';
+  else if (/co-?insurance|co-?pay/.test(lower)) type = 'percentage';
+  else if (/deductible/.test(lower)) type = 'money';
+  else if (/vaccin|immuni/.test(lower)) type = 'coverage';
+  return { name, type, synonyms: [] };
+}
+
+/**
+ * Definitions for the requested fields. Fields are keyed by the requested name
+ * even when they matched a schema entry through a synonym.
+ */
+export function resolveFieldSchema(fields: string[], payerPlan?: PayerPlan): FieldDefinition[] {
+  return fields.map(name => {
+    const def = findFieldDefinition(name, payerPlan);
+    return def ? { ...def, name } : inferFieldDefinition(name);
+  });
+}
+
+/**
+ * One line per field for the extraction prompt: expected type, allowed
+ * values and the other labels it appears under
+ */
+export function describeFieldForPrompt(def: FieldDefinition): string {
+  const allowed = def.allowedValues?.map(v => `"${v}"`).join(', ');
+  const parts = [
+    !allowed ? TYPE_HINTS[def.type] : def.type === 'coverage' ? `${allowed} or an amount` : `one of: ${allowed}`,
+  ];
+  if (def.synonyms.length) parts.push(`also labelled: ${def.synonyms.map(s => `"${s}"`).join(', ')}`);
+  if (def.required) parts.push('always present');
+  return `${def.label || def.name} (${parts.join('; ')})`;
+}
+
+/**
+ * Checks a value against its field type. Only values of the wrong kind fail -
+ * combined values ("QAR 500, 20% co-insurance") are accepted for any amount type.
+ */
+export function validateFieldValue(def: FieldDefinition, value: string | null): { valid: boolean; suggestion?: string } {
+  if (value === null || value.trim() === '') {
+    return def.required ? { valid: false, suggestion: 'Required field not found' } : { valid: true };
+  }
+
+  const parsed = parseValue(value);
+  switch (def.type) {
+    case 'date':
+      if (parsed.kind !== 'date') return { valid: false, suggestion: 'Expected date format (DD/MM/YYYY or similar)' };
+      break;
+    case 'money':
+    case 'percentage':
+      if (parsed.kind === 'text' || parsed.kind === 'date') {
+        return { valid: false, suggestion: `Expected ${def.type === 'money' ? 'an amount' : 'a percentage'} or coverage term` };
+      }
+      break;
+    case 'coverage':
+      if (parsed.kind === 'text' || parsed.kind === 'date') {
+        return { valid: false, suggestion: `Expected ${def.allowedValues?.join(' / ') || 'a coverage term'} or an amount` };
+      }
+      break;
+    case 'text':
+      break;
+  }
+  return { valid: true };
+}
+
+const formatMoney = (amount: number, currency: string, suffix = '') =>
+  `${currency} ${amount.toLocaleString('en-US')}${suffix}`;
+
+function formatDate(iso: string, format: FieldDefinition['format']): string {
+  const [year, month, day] = iso.split('-');
+  return format?.date === 'DD MMMM YYYY'
+    ? `${day} ${MONTH_NAMES[+month - 1]} ${year}`
+    : `${day}/${month}/${year}`;
+}
+
+// The allowed value that means the same coverage term, e.g. "included" -> "Covered"
+function allowedValueForTerm(def: FieldDefinition, term: CoverageTerm): string | undefined {
+  return def.allowedValues?.find(allowed => {
+    const parsed = parseValue(allowed);
+    return parsed.kind === 'term' && parsed.term === term;
+  });
+}
+
+/**
+ * Rewrites a single typed value into the field's output format. Combined
+ * values and free text are left as extracted, apart from applying defaults.
+ */
+export function normalizeFieldValue(def: FieldDefinition, value: string | null): string | null {
+  const trimmed = value?.trim() || null;
+  if (trimmed === null || BLANK_VALUE.test(trimmed)) {
+    return def.defaultValue ?? trimmed;
+  }
+
+  const parsed = parseValue(trimmed);
+  const suffix = def.format?.suffix ?? '';
+
+  switch (def.type) {
+    case 'date':
+      return parsed.kind === 'date' ? formatDate(parsed.iso, def.format) : trimmed;
+
+    case 'money':
+      return parsed.kind === 'money' ? formatMoney(parsed.amount, def.format?.currency || parsed.currency, suffix) : trimmed;
+
+    case 'percentage': {
+      // "20% co-insurance" in a field that holds the insurer's share means 80% covered
+      const quotesMemberShare = def.paidBy === 'insurer' && /co-?insurance|co-?pay/i.test(trimmed);
+      const percent = parsed.kind === 'percent'
+        ? parsed.value
+        : parsed.kind === 'composite' && parsed.percents.length === 1 && parsed.amounts.length === 0 && !parsed.text &&
+          parsed.terms.every(t => t === 'covered')
+          ? parsed.percents[0]
+          : null;
+      if (percent !== null) return `${quotesMemberShare ? 100 - percent : percent}%${suffix}`;
+      if (def.paidBy === 'insurer' && parsed.kind === 'term' && (parsed.term === 'covered' || parsed.term === 'unlimited')) {
+        return `100%${suffix}`;
+      }
+      // Copayments are sometimes a fixed amount instead of a rate
+      if (parsed.kind === 'money') return formatMoney(parsed.amount, def.format?.currency || parsed.currency);
+      return trimmed;
+    }
+
+    case 'coverage': {
+      if (parsed.kind === 'money') return formatMoney(parsed.amount, def.format?.currency || parsed.currency, suffix);
+      const terms = parsed.kind === 'term' ? [parsed.term] : parsed.kind === 'composite' && !parsed.amounts.length && !parsed.percents.length ? parsed.terms : [];
+      // "Not covered" anywhere in the wording wins over "covered"
+      const term = terms.includes('none') ? 'none' : terms[0];
+      if (term) return allowedValueForTerm(def, term) ?? trimmed;
+      // Only conditions were extracted ("Up to age 6 per MoH regulations") - fall back to the default
+      if (parsed.kind === 'text' && def.defaultValue) return def.defaultValue;
+      return trimmed;
+    }
+
+    case 'text':
+      return trimmed;
+  }
+}
+
+/**
+ * Normalizes every field in the data, returning the fields whose value failed
+ * type validation alongside the suggestion
+ */
+export function applyFieldSchema(
+  data: Record<string, string | null>,
+  schema: FieldDefinition[]
+): { data: Record<string, string | null>; issues: Record<string, string> } {
+  const result: Record<string, string | null> = { ...data };
+  const issues: Record<string, string> = {};
+  for (const def of schema) {
+    const value = normalizeFieldValue(def, data[def.name] ?? null);
+    const check = validateFieldValue(def, value);
+    if (!check.valid) issues[def.name] = check.suggestion || 'Unexpected value';
+    result[def.name] = value;
+  }
+  return { data: result, issues };
+}
@@ -1,20 +1,18 @@
 // src/lib/getPayerFields.ts
 import { FIELD_MAPPINGS } from "../constants/fields";
+import { fieldNames } from "../constants/fieldSchema";
+import { loadPayerPlans } from "./payerPlans";
 
-// Reads dynamic payers from localStorage + merges with static ones
+// Reads saved payer plans from localStorage + merges with static ones
 export function getFieldsForPayer(payerName?: string): string[] {
   if (!payerName) return [];
 
-  // Check localStorage dynamic payers first
+  // Check saved payer plans first
   try {
-    const stored = localStorage.getItem("dynamicPayers");
-    const dynamicPayers = stored ? JSON.parse(stored) : {};
-
-    if (dynamicPayers[payerName]) {
-      return dynamicPayers[payerName];
-    }
+    const saved = loadPayerPlans().find((plan) => plan.name === payerName);
+    if (saved) return fieldNames(saved.fields);
   } catch (err) {
-    console.error("Error reading dynamic payers:", err);
+    console.error("Error reading saved payer plans:", err);
   }
 
   // Fallback → static FIELD_MAPPINGS
@@ -23,16 +21,15 @@ export function getFieldsForPayer(payerName?: string): string[] {
   return [];
 }
 
-// Merge static + dynamic (optional utility)
+// Merge static + saved (optional utility)
 export function getAllPayers(): Record<string, string[]> {
-  let dynamicPayers: Record<string, string[]> = {};
+  let savedPayers: Record<string, string[]> = {};
   try {
-    const stored = localStorage.getItem("dynamicPayers");
-    dynamicPayers = stored ? JSON.parse(stored) : {};
+    savedPayers = Object.fromEntries(loadPayerPlans().map((plan) => [plan.name, fieldNames(plan.fields)]));
   } catch {}
 
   return {
     ...FIELD_MAPPINGS,
-    ...dynamicPayers,
+    ...savedPayers,
   };
 }
@@ -0,0 +1,113 @@
+// OCR for scanned pages: pages without a text layer are rendered with pdfjs and
+// read with tesseract.js, then fed through the same layout code as real text
+import type { PDFPageProxy } from "pdfjs-dist";
+import type { LayoutItem } from "./pdfLayout";
+
+export interface OcrWord {
+  text: string;
+  confidence: number;           // 0-100, as tesseract reports it
+  // Pixels, origin top-left. Vertical extent is the word's line, so words on one line share it
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export type OcrImage = HTMLCanvasElement | OffscreenCanvas;
+
+export interface OcrEngine {
+  recognize(image: OcrImage): Promise<OcrWord[]>;
+  terminate(): Promise<void>;
+}
+
+export interface OcrPageResult {
+  items: LayoutItem[];
+  confidence: number;           // Mean word confidence, 0-1
+}
+
+// Fewer characters than this and the page is treated as a scan (a stray page number doesn't count)
+const MIN_TEXT_CHARS = 20;
+// ~144 dpi - small print in schedules needs more than 72 dpi to be read reliably
+const RENDER_SCALE = 2;
+
+export const hasTextLayer = (items: LayoutItem[]) =>
+  items.reduce((count, item) => count + item.text.replace(/\s/g, "").length, 0) >= MIN_TEXT_CHARS;
+
+/**
+ * Rendering needs a canvas - the browser has one, Node (CLI, server) does not
+ */
+export const canRasterize = () => typeof OffscreenCanvas !== "undefined" || typeof document !== "undefined";
+
+/**
+ * tesseract.js engine. The library and its language data are loaded on first
+ * use, so documents with a text layer never download them.
+ */
+export function createTesseractEngine(lang = "eng"): OcrEngine {
+  let worker: Promise<import("tesseract.js").Worker> | null = null;
+  const getWorker = () => {
+    if (!worker) {
+      worker = import("tesseract.js").then((module) => {
+        // CommonJS build exposes the API under `default` in some bundlers
+        const { createWorker } = "createWorker" in module ? module : (module as { default: typeof module }).default;
+        return createWorker(lang);
+      });
+    }
+    return worker;
+  };
+
+  return {
+    async recognize(image) {
+      const { data } = await (await getWorker()).recognize(image, {}, { blocks: true });
+      return (data.blocks ?? []).flatMap((block) =>
+        block.paragraphs.flatMap((paragraph) =>
+          paragraph.lines.flatMap((line) =>
+            line.words.map((word) => ({
+              text: word.text,
+              confidence: word.confidence,
+              bbox: { x0: word.bbox.x0, x1: word.bbox.x1, y0: line.bbox.y0, y1: line.bbox.y1 },
+            }))
+          )
+        )
+      );
+    },
+    async terminate() {
+      const pending = worker;
+      worker = null;
+      if (pending) await (await pending).terminate();
+    },
+  };
+}
+
+async function renderPage(page: PDFPageProxy, scale: number): Promise<OcrImage> {
+  const viewport = page.getViewport({ scale });
+  const canvas: OcrImage = typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(viewport.width, viewport.height)
+    : Object.assign(document.createElement("canvas"), { width: viewport.width, height: viewport.height });
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D | null;
+  if (!context) throw new Error("Could not get a 2D canvas context for OCR");
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+}
+
+/**
+ * OCR words (pixels, top-left origin) as layout items (PDF units, bottom-left origin)
+ */
+export function ocrWordsToLayoutItems(words: OcrWord[], scale: number, pageHeight: number): LayoutItem[] {
+  return words
+    .filter((word) => word.text.trim())
+    .map(({ text, bbox }) => ({
+      // Each item is a whole word - the trailing space keeps words apart however tight the gap
+      text: `${text} `,
+      x: bbox.x0 / scale,
+      y: pageHeight - bbox.y1 / scale,
+      width: (bbox.x1 - bbox.x0) / scale,
+      fontSize: (bbox.y1 - bbox.y0) / scale,
+    }));
+}
+
+export async function ocrPage(page: PDFPageProxy, engine: OcrEngine): Promise<OcrPageResult> {
+  const image = await renderPage(page, RENDER_SCALE);
+  const words = await engine.recognize(image);
+  const confidence = words.length ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length / 100 : 0;
+  return {
+    items: ocrWordsToLayoutItems(words, RENDER_SCALE, page.getViewport({ scale: 1 }).height),
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
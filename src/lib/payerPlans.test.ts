@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { clonePayerPlan, exportPayerPlans, findPayerPlan, importPayerPlans, loadPayerPlans, restorePayerPlanVersion, savePayerPlan } from "@/lib/payerPlans";
+import { stubLocalStorage } from "@/test/localStorage";
+
+const field = (name: string): FieldDefinition => ({ name, type: 'text', synonyms: [] });
+
+let storage: Storage;
+
+beforeEach(() => {
+  storage = stubLocalStorage();
+});
+
+describe('savePayerPlan', () => {
+  it('keeps every earlier version in the history', () => {
+    const first = savePayerPlan({ name: ' Acme ', fields: [field('Dental'), field(' ')] });
+    const second = savePayerPlan({ id: first.id, name: 'Acme Gold', fields: [field('Dental'), field('Optical')] });
+    expect(first).toMatchObject({ name: 'Acme', version: 1, fields: [field('Dental')] });
+    expect(second).toMatchObject({ id: first.id, name: 'Acme Gold', version: 2, createdAt: first.createdAt });
+    expect(second.history).toMatchObject([{ version: 1, name: 'Acme', fields: [field('Dental')] }]);
+    expect(loadPayerPlans()).toHaveLength(1);
+  });
+
+  it('rejects built-in ids, empty plans and repeated fields', () => {
+    expect(() => savePayerPlan({ id: 'QLM', name: 'QLM', fields: [field('A')] })).toThrow('built in');
+    expect(() => savePayerPlan({ name: 'Empty', fields: [field('')] })).toThrow('at least one field');
+    expect(() => savePayerPlan({ name: 'Twice', fields: [field('A'), field('A ')] })).toThrow('listed twice');
+  });
+});
+
+describe('restorePayerPlanVersion', () => {
+  it('saves the old version as the newest one', () => {
+    const plan = savePayerPlan({ name: 'Acme', fields: [field('Dental')] });
+    savePayerPlan({ id: plan.id, name: 'Acme', fields: [field('Optical')] });
+    const restored = restorePayerPlanVersion(plan.id, 1);
+    expect(restored).toMatchObject({ version: 3, fields: [field('Dental')], note: 'Restored v1' });
+    expect(() => restorePayerPlanVersion(plan.id, 9)).toThrow('Version 9 not found');
+  });
+});
+
+describe('clonePayerPlan', () => {
+  it('copies a built-in plan as a new editable plan', () => {
+    const clone = clonePayerPlan(findPayerPlan('ALKOOT')!);
+    expect(clone).toMatchObject({ name: 'ALKOOT (copy)', basePlan: 'ALKOOT', version: 1 });
+    expect(clone.id).not.toBe('ALKOOT');
+    expect(clone.fields).toEqual(findPayerPlan('ALKOOT')!.fields);
+  });
+});
+
+describe('importPayerPlans', () => {
+  it('saves a plan with a known id as its next version', () => {
+    const plan = savePayerPlan({ name: 'Acme', fields: [field('Dental')] });
+    const [imported] = importPayerPlans(exportPayerPlans([{ ...plan, fields: [field('Dental'), { name: 'Start', type: 'date', synonyms: [] }] }]));
+    expect(imported).toMatchObject({ id: plan.id, version: 2, note: 'Imported v1' });
+    expect(imported.fields.map((f) => f.type)).toEqual(['text', 'date']);
+  });
+
+  it('writes nothing when any plan in the file is invalid', () => {
+    const file = exportPayerPlans([
+      { ...savePayerPlan({ name: 'Good', fields: [field('A')] }), id: 'new-id' },
+      { ...savePayerPlan({ name: 'Bad', fields: [field('A')] }), id: 'other-id', fields: [{ name: 'A', type: 'colour' } as unknown as FieldDefinition] },
+    ]);
+    const before = storage.getItem('payerPlans');
+    expect(() => importPayerPlans(file)).toThrow('unknown type "colour"');
+    expect(storage.getItem('payerPlans')).toBe(before);
+    expect(() => importPayerPlans({ hello: 'world' })).toThrow('Not a payer plan export');
+  });
+});
+
+describe('loadPayerPlans', () => {
+  it('migrates payers from the old AddPayer list once', () => {
+    storage.setItem('dynamicPayers', JSON.stringify({ Acme: ['Deductible', '', 'Policy Start Date'] }));
+    const [plan] = loadPayerPlans();
+    expect(plan).toMatchObject({ name: 'Acme', version: 1, note: 'Imported from the old payer list' });
+    expect(plan.fields.map((f) => [f.name, f.type])).toEqual([['Deductible', 'money'], ['Policy Start Date', 'date']]);
+    expect(storage.getItem('dynamicPayers')).toBeNull();
+    expect(loadPayerPlans()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,227 @@
+// Saved payer plans with version history, stored in localStorage
+import { PAYER_PLANS, type PayerPlan, type PayerPlanVersion, type SavedPayerPlan } from "../constants/fields";
+import { FIELD_SCHEMAS, type FieldDefinition, type FieldValueType } from "../constants/fieldSchema";
+import { inferFieldDefinition } from "./fieldTypes";
+
+const STORAGE_KEY = "payerPlans";
+// Written by the old AddPayer page: { [payerName]: string[] }
+const LEGACY_STORAGE_KEY = "dynamicPayers";
+const EXPORT_FORMAT = "payer-plans";
+
+const VALUE_TYPES: FieldValueType[] = ['money', 'percentage', 'date', 'coverage', 'text'];
+
+export interface PayerPlanExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  plans: SavedPayerPlan[];
+}
+
+export interface PayerPlanDraft {
+  id?: string;                  // Omit to create a new plan
+  name: string;
+  basePlan?: PayerPlan;
+  fields: FieldDefinition[];
+  note?: string;
+}
+
+/**
+ * QLM and ALKOOT as read-only plans, so they can be viewed and cloned
+ */
+export function builtInPayerPlans(): SavedPayerPlan[] {
+  return (Object.keys(FIELD_SCHEMAS) as PayerPlan[]).map(plan => ({
+    id: plan,
+    name: plan,
+    basePlan: plan,
+    fields: FIELD_SCHEMAS[plan],
+    version: 1,
+    savedAt: '',
+    createdAt: '',
+    history: [],
+  }));
+}
+
+export const isBuiltInPlan = (id: string) => id in FIELD_SCHEMAS;
+
+function writePlans(plans: SavedPayerPlan[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(plans));
+}
+
+// Converts plans saved by the old comma-separated AddPayer form, once
+function migrateLegacyPlans(plans: SavedPayerPlan[]): SavedPayerPlan[] {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return plans;
+
+  try {
+    const legacy = JSON.parse(stored) as Record<string, string[]>;
+    const now = new Date().toISOString();
+    const migrated = Object.entries(legacy)
+      .filter(([name, fields]) => Array.isArray(fields) && !plans.some(p => p.name === name))
+      .map(([name, fields]): SavedPayerPlan => ({
+        id: crypto.randomUUID(),
+        name,
+        fields: fields.filter(Boolean).map(inferFieldDefinition),
+        version: 1,
+        savedAt: now,
+        createdAt: now,
+        history: [],
+        note: 'Imported from the old payer list',
+      }));
+    plans = [...plans, ...migrated];
+    writePlans(plans);
+  } catch (err) {
+    console.error("Error migrating dynamic payers:", err);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return plans;
+}
+
+export function loadPayerPlans(): SavedPayerPlan[] {
+  let plans: SavedPayerPlan[] = [];
+  try {
+    plans = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    plans = [];
+  }
+  return migrateLegacyPlans(plans);
+}
+
+export function findPayerPlan(id: string): SavedPayerPlan | undefined {
+  return builtInPayerPlans().find(p => p.id === id) ?? loadPayerPlans().find(p => p.id === id);
+}
+
+const snapshot = ({ version, savedAt, name, basePlan, fields, note }: PayerPlanVersion): PayerPlanVersion =>
+  ({ version, savedAt, name, basePlan, fields, note });
+
+/**
+ * Checks a draft can be saved and returns it with its name trimmed and
+ * unnamed fields dropped
+ */
+function validatePayerPlanDraft(draft: PayerPlanDraft): PayerPlanDraft {
+  if (draft.id && isBuiltInPlan(draft.id)) {
+    throw new Error(`${draft.id} is built in - clone it to make changes`);
+  }
+  const name = draft.name.trim();
+  if (!name) throw new Error("Plan name is required");
+  const fields = draft.fields.filter(f => f.name.trim());
+  if (fields.length === 0) throw new Error(`Plan "${name}" needs at least one field`);
+  const duplicate = fields.find((f, idx) => fields.findIndex(o => o.name.trim() === f.name.trim()) !== idx);
+  if (duplicate) throw new Error(`Field "${duplicate.name}" is listed twice in "${name}"`);
+  return { ...draft, name, fields };
+}
+
+/**
+ * Creates a plan or saves a new version of it, keeping the previous version
+ * in its history. Returns the saved plan.
+ */
+export function savePayerPlan(draft: PayerPlanDraft): SavedPayerPlan {
+  const { name, fields } = validatePayerPlanDraft(draft);
+
+  const plans = loadPayerPlans();
+  const now = new Date().toISOString();
+  const existing = draft.id ? plans.find(p => p.id === draft.id) : undefined;
+
+  const saved: SavedPayerPlan = existing
+    ? {
+        ...existing,
+        name,
+        basePlan: draft.basePlan,
+        fields,
+        note: draft.note,
+        version: existing.version + 1,
+        savedAt: now,
+        history: [...existing.history, snapshot(existing)],
+      }
+    : {
+        id: draft.id || crypto.randomUUID(),
+        name,
+        basePlan: draft.basePlan,
+        fields,
+        note: draft.note,
+        version: 1,
+        savedAt: now,
+        createdAt: now,
+        history: [],
+      };
+
+  writePlans(existing ? plans.map(p => (p.id === saved.id ? saved : p)) : [...plans, saved]);
+  return saved;
+}
+
+/**
+ * Copy of any plan (built-in or saved) as a new, editable plan
+ */
+export function clonePayerPlan(source: SavedPayerPlan, name = `${source.name} (copy)`): SavedPayerPlan {
+  return savePayerPlan({
+    name,
+    basePlan: source.basePlan,
+    fields: structuredClone(source.fields),
+    note: `Cloned from ${source.name} v${source.version}`,
+  });
+}
+
+/**
+ * Saves an earlier version as the newest one, so the restore itself is undoable
+ */
+export function restorePayerPlanVersion(id: string, version: number): SavedPayerPlan {
+  const plan = loadPayerPlans().find(p => p.id === id);
+  const old = plan?.history.find(v => v.version === version);
+  if (!plan || !old) throw new Error(`Version ${version} not found`);
+  return savePayerPlan({ id, name: old.name, basePlan: old.basePlan, fields: old.fields, note: `Restored v${version}` });
+}
+
+export function deletePayerPlan(id: string) {
+  writePlans(loadPayerPlans().filter(p => p.id !== id));
+}
+
+export function exportPayerPlans(plans: SavedPayerPlan[]): PayerPlanExport {
+  return { format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), plans };
+}
+
+export function parseFieldDefinition(raw: unknown, planName: string): FieldDefinition {
+  const field = raw as Partial<FieldDefinition> | null;
+  if (!field || typeof field.name !== 'string' || !field.name.trim()) {
+    throw new Error(`Plan "${planName}" has a field without a name`);
+  }
+  if (field.type && !VALUE_TYPES.includes(field.type)) {
+    throw new Error(`Field "${field.name}" has unknown type "${field.type}"`);
+  }
+  return {
+    ...inferFieldDefinition(field.name),
+    ...field,
+    synonyms: Array.isArray(field.synonyms) ? field.synonyms.filter(s => typeof s === 'string') : [],
+  } as FieldDefinition;
+}
+
+/**
+ * Validates an export file (or a single exported plan) and returns the plans
+ * in it as drafts, without saving anything
+ */
+export function parsePayerPlanExport(json: unknown): PayerPlanDraft[] {
+  const data = json as Partial<PayerPlanExport> & Partial<SavedPayerPlan>;
+  const incoming = data?.format === EXPORT_FORMAT && Array.isArray(data.plans)
+    ? data.plans
+    : data && Array.isArray(data.fields) ? [data as SavedPayerPlan] : null;
+  if (!incoming) throw new Error("Not a payer plan export");
+
+  return incoming.map((plan) => {
+    if (!plan || typeof plan.name !== 'string' || !Array.isArray(plan.fields)) {
+      throw new Error("Every plan needs a name and a list of fields");
+    }
+    return validatePayerPlanDraft({
+      id: typeof plan.id === 'string' && !isBuiltInPlan(plan.id) ? plan.id : undefined,
+      name: plan.name,
+      basePlan: plan.basePlan && plan.basePlan in PAYER_PLANS ? plan.basePlan : undefined,
+      fields: plan.fields.map(f => parseFieldDefinition(f, plan.name)),
+      note: `Imported v${plan.version ?? 1}`,
+    });
+  });
+}
+
+/**
+ * Imports plans from an export file. A plan whose id already exists is saved
+ * as a new version of it. Returns the imported plans.
+ */
+export function importPayerPlans(json: unknown): SavedPayerPlan[] {
+  // Parsing runs every check savePayerPlan does, so a bad plan stops the import before anything is written
+  return parsePayerPlanExport(json).map(savePayerPlan);
+}
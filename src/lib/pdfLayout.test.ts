@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { groupLines, layoutPage, renderLayoutText, tableToMarkdown, toLayoutItems, type LayoutItem } from "@/lib/pdfLayout";
+
+// Text item of about 5 units per character at font size 10
+const item = (text: string, x: number, y: number): LayoutItem => ({ text, x, y, width: text.length * 5, fontSize: 10 });
+
+describe('toLayoutItems', () => {
+  it('takes positions from the transform and drops whitespace and marked content', () => {
+    expect(toLayoutItems([
+      { str: 'Deductible', transform: [12, 0, 0, 12, 50, 700], width: 60 },
+      { str: '  ', transform: [12, 0, 0, 12, 120, 700], width: 5 },
+      { type: 'beginMarkedContent' },
+    ])).toEqual([{ text: 'Deductible', x: 50, y: 700, width: 60, fontSize: 12 }]);
+  });
+});
+
+describe('groupLines', () => {
+  it('orders lines top to bottom and joins close items into one cell', () => {
+    const lines = groupLines([item('20%', 300, 680), item('Co-insurance', 50, 681), item('Annual', 50, 700), item('Limit', 85, 700)]);
+    expect(lines.map((line) => line.cells.map((cell) => cell.text))).toEqual([['Annual Limit'], ['Co-insurance', '20%']]);
+  });
+});
+
+describe('layoutPage', () => {
+  it('renders aligned rows as a markdown table titled by the line above', () => {
+    const layout = layoutPage(1, [
+      item('Table of Benefits', 50, 720),
+      item('Benefit', 50, 700), item('Limit', 300, 700),
+      item('Annual Limit', 50, 680), item('QAR 1,000,000', 300, 680),
+      item('Co-insurance', 50, 660), item('20%', 300, 660),
+      item('Subject to the policy terms.', 50, 600),
+    ]);
+    expect(layout.tables).toEqual([{
+      page: 1,
+      title: 'Table of Benefits',
+      headers: ['Benefit', 'Limit'],
+      rows: [['Annual Limit', 'QAR 1,000,000'], ['Co-insurance', '20%']],
+    }]);
+    expect(layout.text).toBe([
+      'Table of Benefits',
+      '| Benefit | Limit |',
+      '| --- | --- |',
+      '| Annual Limit | QAR 1,000,000 |',
+      '| Co-insurance | 20% |',
+      '',
+      'Subject to the policy terms.',
+    ].join('\n'));
+  });
+
+  it('appends wrapped cell text to the row above', () => {
+    const layout = layoutPage(1, [
+      item('Benefit', 50, 700), item('Limit', 300, 700),
+      item('Dental', 50, 680), item('QAR 2,000', 300, 680),
+      item('per year', 300, 668),
+    ]);
+    expect(layout.tables[0].rows).toEqual([['Dental', 'QAR 2,000 per year']]);
+  });
+
+  it('leaves a single multi-cell line as text', () => {
+    expect(layoutPage(1, [item('Insured', 50, 700), item('Example LLC', 300, 700)])).toEqual({
+      page: 1, text: 'Insured Example LLC', tables: [],
+    });
+  });
+});
+
+describe('tableToMarkdown', () => {
+  it('escapes pipes inside cells', () => {
+    expect(tableToMarkdown({ headers: ['A', 'B'], rows: [['x|y', 'z']] })).toBe('| A | B |\n| --- | --- |\n| x\\|y | z |');
+  });
+});
+
+describe('renderLayoutText', () => {
+  it('puts a page marker before every page', () => {
+    expect(renderLayoutText([{ page: 1, text: 'One', tables: [] }, { page: 2, text: 'Two', tables: [] }]))
+      .toBe('\n\n=== PAGE 1 ===\n\nOne\n\n=== PAGE 2 ===\n\nTwo');
+  });
+});
@@ -0,0 +1,222 @@
+// Layout-aware PDF text: rebuilds lines, cells and tables from the positions
+// pdfjs returns for each text item, and renders tables as markdown - no LLM involved
+
+export interface LayoutItem {
+  text: string;
+  x: number;                    // Left edge, PDF units (origin bottom-left)
+  y: number;                    // Baseline
+  width: number;
+  fontSize: number;
+}
+
+// Run of items on one line with no column-sized gap between them
+export interface LayoutCell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+export interface LayoutLine {
+  y: number;
+  fontSize: number;
+  cells: LayoutCell[];
+}
+
+export interface LayoutTable {
+  page: number;
+  title: string;                // Text line right above the table, if any
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PageLayout {
+  page: number;
+  text: string;                 // Plain lines, with tables as markdown
+  tables: LayoutTable[];
+}
+
+// Gap between items, in multiples of the font size, that starts a new cell
+const CELL_GAP = 1.2;
+// Vertical gap (font sizes) between lines of one table; a bigger gap ends it
+const ROW_GAP = 2.6;
+// Wrapped cell text sits closer than this to the line above
+const WRAP_GAP = 1.35;
+// Two-column prose also lines up - real table cells are short
+const MAX_MEDIAN_CELL_LENGTH = 60;
+
+/**
+ * Positions from pdfjs TextItems (transform = [a, b, c, d, x, y]); marked content
+ * and whitespace-only items are dropped
+ */
+export function toLayoutItems(items: unknown[]): LayoutItem[] {
+  return items.flatMap((raw) => {
+    const item = raw as { str?: string; transform?: number[]; width?: number; height?: number };
+    if (typeof item.str !== 'string' || !item.str.trim() || !item.transform) return [];
+    const [, , c, d, x, y] = item.transform;
+    return [{
+      text: item.str,
+      x,
+      y,
+      width: item.width ?? 0,
+      fontSize: Math.hypot(c, d) || item.height || 10,
+    }];
+  });
+}
+
+/**
+ * Groups items into lines (top to bottom) and each line into cells (left to right)
+ */
+export function groupLines(items: LayoutItem[]): LayoutLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Array<{ y: number; fontSize: number; items: LayoutItem[] }> = [];
+
+  for (const item of sorted) {
+    const line = lines.find((l) => Math.abs(l.y - item.y) <= Math.min(l.fontSize, item.fontSize) * 0.5);
+    if (line) {
+      line.items.push(item);
+      line.fontSize = Math.max(line.fontSize, item.fontSize);
+    } else {
+      lines.push({ y: item.y, fontSize: item.fontSize, items: [item] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(({ y, fontSize, items: lineItems }) => {
+      const cells: LayoutCell[] = [];
+      for (const item of [...lineItems].sort((a, b) => a.x - b.x)) {
+        const last = cells[cells.length - 1];
+        const gap = last ? item.x - last.x1 : Infinity;
+        if (last && gap < item.fontSize * CELL_GAP) {
+          const joiner = gap > item.fontSize * 0.1 && !last.text.endsWith(' ') && !item.text.startsWith(' ') ? ' ' : '';
+          last.text += joiner + item.text;
+          last.x1 = Math.max(last.x1, item.x + item.width);
+        } else {
+          cells.push({ text: item.text, x0: item.x, x1: item.x + item.width });
+        }
+      }
+      cells.forEach((cell) => (cell.text = cell.text.replace(/\s+/g, ' ').trim()));
+      return { y, fontSize, cells };
+    });
+}
+
+/**
+ * Column ranges of a block of rows: overlapping cell extents are merged, so
+ * left-, right- and centre-aligned columns all come out as one column each
+ */
+function columnRanges(rows: LayoutLine[]): Array<[number, number]> {
+  const spans = rows
+    .flatMap((row) => row.cells.map((cell): [number, number] => [cell.x0, cell.x1]))
+    .sort((a, b) => a[0] - b[0]);
+  const ranges: Array<[number, number]> = [];
+  for (const [x0, x1] of spans) {
+    const last = ranges[ranges.length - 1];
+    if (last && x0 <= last[1]) last[1] = Math.max(last[1], x1);
+    else ranges.push([x0, x1]);
+  }
+  return ranges;
+}
+
+const columnOf = (cell: LayoutCell, ranges: Array<[number, number]>) => {
+  let best = 0;
+  let bestOverlap = -Infinity;
+  ranges.forEach(([x0, x1], idx) => {
+    const overlap = Math.min(x1, cell.x1) - Math.max(x0, cell.x0);
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      best = idx;
+    }
+  });
+  return best;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+/**
+ * Turns a block of aligned lines into table rows. Single-cell lines that sit
+ * tight under a row are wrapped cell text and are appended to that row.
+ */
+function buildTableRows(block: LayoutLine[]): string[][] | null {
+  const multiCell = block.filter((line) => line.cells.length >= 2);
+  const ranges = columnRanges(multiCell);
+  if (ranges.length < 2 || multiCell.length < 2) return null;
+  if (median(multiCell.flatMap((line) => line.cells.map((cell) => cell.text.length))) > MAX_MEDIAN_CELL_LENGTH) return null;
+
+  const rows: string[][] = [];
+  for (const line of block) {
+    const cells: string[] = Array(ranges.length).fill('');
+    line.cells.forEach((cell) => {
+      const col = columnOf(cell, ranges);
+      cells[col] = cells[col] ? `${cells[col]} ${cell.text}` : cell.text;
+    });
+    if (line.cells.length === 1 && rows.length > 0) {
+      const previous = rows[rows.length - 1];
+      cells.forEach((text, col) => text && (previous[col] = previous[col] ? `${previous[col]} ${text}` : text));
+    } else {
+      rows.push(cells);
+    }
+  }
+  return rows;
+}
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|');
+
+export function tableToMarkdown(table: Pick<LayoutTable, 'headers' | 'rows'>): string {
+  const line = (cells: string[]) => `| ${cells.map(escapeCell).join(' | ')} |`;
+  return [line(table.headers), line(table.headers.map(() => '---')), ...table.rows.map(line)].join('\n');
+}
+
+/**
+ * Lines of one page with tables detected. A table is a run of at least two
+ * multi-cell lines, close together, whose cells fall into shared columns.
+ */
+export function layoutPage(page: number, items: LayoutItem[]): PageLayout {
+  const lines = groupLines(items);
+  const tables: LayoutTable[] = [];
+  const output: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].cells.length < 2) {
+      output.push(lines[i].cells.map((cell) => cell.text).join(' '));
+      i++;
+      continue;
+    }
+
+    // Grow the block while lines stay close; single-cell lines only continue it when tight (wrapped text)
+    const block = [lines[i]];
+    let j = i + 1;
+    while (j < lines.length) {
+      const gap = (block[block.length - 1].y - lines[j].y) / lines[j].fontSize;
+      const isWrap = lines[j].cells.length === 1 && gap <= WRAP_GAP;
+      if (gap > ROW_GAP || (lines[j].cells.length < 2 && !isWrap)) break;
+      block.push(lines[j]);
+      j++;
+    }
+
+    const rows = buildTableRows(block);
+    if (!rows) {
+      output.push(lines[i].cells.map((cell) => cell.text).join(' '));
+      i++;
+      continue;
+    }
+
+    const previousLine = output.length > 0 ? output[output.length - 1] : '';
+    const table: LayoutTable = { page, title: previousLine.trim(), headers: rows[0], rows: rows.slice(1) };
+    tables.push(table);
+    output.push(tableToMarkdown(table), '');
+    i = j;
+  }
+
+  return { page, text: output.join('\n').replace(/\n{3,}/g, '\n\n').trim(), tables };
+}
+
+/**
+ * Same page markers as before ("=== PAGE n ==="), which provenance relies on
+ */
+export function renderLayoutText(pages: PageLayout[]): string {
+  return pages.map(({ page, text }) => `\n\n=== PAGE ${page} ===\n\n${text}`).join('');
+}
@@ -0,0 +1,12 @@
+// Shared pdfjs-dist setup for text extraction and the in-app PDF viewer
+import * as pdfjsModule from 'pdfjs-dist';
+
+// Node (tsx test scripts) exposes the CommonJS build under `default`
+export const pdfjsLib: typeof pdfjsModule = 'getDocument' in pdfjsModule
+  ? pdfjsModule
+  : (pdfjsModule as unknown as { default: typeof pdfjsModule }).default;
+
+// Set worker path for pdfjs (browser only - Node uses the bundled fake worker)
+if (typeof window !== 'undefined') {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildFieldProvenance, locateValue, locatedText, splitPages } from "@/lib/provenance";
+
+const TEXT = [
+  '=== PAGE 1 ===',
+  'Room category: Private',
+  'Outpatient consultations: Nil',
+  '=== PAGE 2 ===',
+  '| Benefit | Limit |',
+  '| --- | --- |',
+  '| Deductible on consultation | Nil |',
+  '| Dental Benefit | QAR 7,500, 20% co-insurance |',
+].join('\n');
+
+const provenance = (value: string | null, overrides: Partial<Parameters<typeof buildFieldProvenance>[0]> = {}) =>
+  buildFieldProvenance({ value, rawValue: value, pass: 'direct', pdfText: TEXT, ...overrides });
+
+describe('splitPages', () => {
+  it('splits on page markers, or keeps unmarked text as page 1', () => {
+    expect(splitPages(TEXT).map((page) => page.page)).toEqual([1, 2]);
+    expect(splitPages('no markers')).toEqual([{ page: 1, text: 'no markers' }]);
+  });
+});
+
+describe('locateValue', () => {
+  it('prefers an occurrence next to a field label over an earlier bare one', () => {
+    expect(locateValue(TEXT, 'nil', null, ['Deductible on consultation'])).toMatchObject({ page: 2, anchored: true });
+  });
+
+  it('takes the label from the line above a wrapped value', () => {
+    const text = '=== PAGE 1 ===\nNil\n=== PAGE 2 ===\nPsychiatric treatment\nNil';
+    expect(locateValue(text, 'Nil', null, ['Psychiatric treatment'])?.page).toBe(2);
+  });
+
+  it('falls back to the first bare occurrence, on the cited page first', () => {
+    expect(locateValue(TEXT, 'Nil', null, ['Maternity'])).toMatchObject({ page: 1, anchored: false });
+    expect(locateValue(TEXT, 'Nil', 2, ['Maternity'])).toMatchObject({ page: 2, anchored: false });
+  });
+
+  it('cuts a snippet around the value in its original casing', () => {
+    expect(locateValue(TEXT, 'qar 7,500', null)?.snippet).toContain('Dental Benefit | QAR 7,500, 20% co-insurance');
+    expect(locateValue(TEXT, 'Not in the document', null)).toBeNull();
+  });
+});
+
+describe('buildFieldProvenance', () => {
+  it('is confident about a value next to its label on the cited page', () => {
+    expect(provenance('Nil', { labels: ['Deductible on consultation'], modelPage: 2 })).toMatchObject({ page: 2, confidence: 0.95 });
+  });
+
+  it('lowers the confidence of a short value found without its label', () => {
+    expect(provenance('Nil', { labels: ['Maternity'] })).toMatchObject({ page: 1, confidence: 0.6 });
+  });
+
+  it('does not pin a bare short value to another page than the cited one', () => {
+    const result = provenance('Private', { labels: ['Room and board'], modelPage: 2, modelSource: 'Benefits table' });
+    expect(result).toMatchObject({ page: 2, snippet: null, confidence: 0.6 });
+  });
+
+  it('trusts a long value found verbatim even without a label', () => {
+    expect(provenance('QAR 7,500, 20% co-insurance', { labels: ['Dental'] }).confidence).toBe(0.9);
+  });
+
+  it('falls back to the raw value when the value was normalized', () => {
+    const result = provenance('QAR 7,500 per year', { rawValue: 'QAR 7,500, 20% co-insurance' });
+    expect(result).toMatchObject({ page: 2, confidence: 0.8 });
+  });
+
+  it('lets OCR and the model only lower the confidence', () => {
+    expect(provenance('QAR 7,500, 20% co-insurance', { ocrPages: { 2: 0.7 } })).toMatchObject({ confidence: 0.7, ocr: true });
+    expect(provenance('QAR 7,500, 20% co-insurance', { modelConfidence: 0.4 }).confidence).toBe(0.4);
+    expect(provenance(null).confidence).toBe(0);
+  });
+});
+
+describe('locatedText', () => {
+  it('searches the value when the snippet shows it, else the raw model output', () => {
+    expect(locatedText({ value: 'Nil', rawValue: 'nil', snippet: '| Deductible | Nil |' })).toBe('Nil');
+    expect(locatedText({ value: 'QAR 7,500 per year', rawValue: 'QAR 7,500', snippet: '| Dental | QAR 7,500 |' })).toBe('QAR 7,500');
+    expect(locatedText({ value: 'Not applicable', rawValue: null, snippet: null })).toBe('Not applicable');
+  });
+});
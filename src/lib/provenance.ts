@@ -0,0 +1,196 @@
+// Locates extracted values back in the PDF text and builds per-field provenance
+import type { ExtractionPass, FieldPassage, FieldProvenance } from "@/constants/fields";
+
+const PAGE_MARKER = /=== PAGE (\d+) ===/g;
+const SNIPPET_RADIUS = 80;
+
+export interface PageText {
+  page: number;
+  text: string;
+}
+
+/**
+ * Splits extractTextFromPDF output ("=== PAGE n ===" markers) into pages
+ */
+export function splitPages(pdfText: string): PageText[] {
+  const pages: PageText[] = [];
+  const markers = [...pdfText.matchAll(PAGE_MARKER)];
+
+  if (markers.length === 0) {
+    return [{ page: 1, text: pdfText }];
+  }
+
+  markers.forEach((marker, idx) => {
+    const start = marker.index! + marker[0].length;
+    const end = idx + 1 < markers.length ? markers[idx + 1].index! : pdfText.length;
+    pages.push({ page: parseInt(marker[1], 10), text: pdfText.substring(start, end) });
+  });
+
+  return pages;
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+export interface LocatedValue {
+  page: number;
+  snippet: string;
+  anchored: boolean;            // A field label is on the value's line or the line above
+}
+
+/**
+ * Finds the value (case and whitespace insensitive) and returns its page with
+ * a snippet of surrounding text. With labels (field name, synonyms), the first
+ * occurrence next to one of them wins over a bare one - "Nil" or "20%" appear
+ * all over a policy. The page the model cited is searched first.
+ */
+export function locateValue(
+  pdfText: string,
+  value: string | null,
+  preferredPage?: number | null,
+  labels: string[] = []
+): LocatedValue | null {
+  if (!value || !pdfText) return null;
+
+  const needle = collapseWhitespace(value.trim()).toLowerCase();
+  if (needle.length < 2) return null;
+  const labelNeedles = labels.map(label => collapseWhitespace(label.trim()).toLowerCase()).filter(Boolean);
+
+  const pages = splitPages(pdfText);
+  const ordered = preferredPage
+    ? [...pages.filter(p => p.page === preferredPage), ...pages.filter(p => p.page !== preferredPage)]
+    : pages;
+
+  let bare: LocatedValue | null = null;
+  for (const { page, text } of ordered) {
+    // Search case-insensitively, but cut the snippet from the original casing
+    const lines = text.split('\n').map(line => collapseWhitespace(line).trim()).filter(Boolean);
+    const collapsed = lines.join(' ');
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      lineStarts.push(offset);
+      offset += line.length + 1;
+    }
+    const lower = collapsed.toLowerCase();
+
+    for (let idx = lower.indexOf(needle); idx !== -1; idx = lower.indexOf(needle, idx + 1)) {
+      const lineIdx = lineStarts.filter(start => start <= idx).length - 1;
+      const near = lines.slice(Math.max(0, lineIdx - 1), lineIdx + 1).join(' ').toLowerCase();
+      const anchored = labelNeedles.some(label => near.includes(label));
+      if (!anchored && bare) continue;
+
+      const start = Math.max(0, idx - SNIPPET_RADIUS);
+      const end = Math.min(collapsed.length, idx + needle.length + SNIPPET_RADIUS);
+      const snippet = `${start > 0 ? '…' : ''}${collapsed.substring(start, end).trim()}${end < collapsed.length ? '…' : ''}`;
+      if (anchored || labelNeedles.length === 0) return { page, snippet, anchored };
+      bare = { page, snippet, anchored };
+    }
+  }
+
+  return bare;
+}
+
+const contains = (text: string, part: string) =>
+  collapseWhitespace(text).toLowerCase().includes(collapseWhitespace(part.trim()).toLowerCase());
+
+/**
+ * The text to look for in the PDF for a field: the value if the snippet shows
+ * it, else the model's raw output - a normalized value ("QAR 7,500 per year")
+ * or one set by a payer rule is not in the document
+ */
+export function locatedText(source: Pick<FieldProvenance, 'value' | 'rawValue' | 'snippet'>): string | null {
+  const { value, rawValue, snippet } = source;
+  if (snippet && value && contains(snippet, value)) return value;
+  return rawValue ?? value;
+}
+
+// Values this short ("Nil", "20%", "QAR 50") say little about where they were read
+// unless a field label is next to them
+const MIN_DISTINCTIVE_LENGTH = 12;
+const BARE_MATCH_CONFIDENCE = 0.6;
+
+const isBare = (hit: LocatedValue, text: string) =>
+  !hit.anchored && collapseWhitespace(text.trim()).length < MIN_DISTINCTIVE_LENGTH;
+
+/**
+ * Builds provenance for one field. Confidence is a heuristic:
+ * verbatim match in the document > match of the raw (pre-normalization) value
+ * > model-cited source or a short value found with no label next to it > value
+ * with no support in the text. With multi-pass voting the passes' agreement
+ * takes the model's place.
+ */
+export function buildFieldProvenance(params: {
+  value: string | null;
+  rawValue: string | null;
+  pass: ExtractionPass;
+  pdfText: string;
+  ocrPages?: Record<number, number>;  // Pages read by OCR -> OCR confidence
+  modelPage?: number | null;
+  modelSource?: string | null;
+  modelConfidence?: number | null;
+  passages?: FieldPassage[];
+  agreement?: number;                 // Share of voting passes that returned the value
+  votes?: Array<string | null>;
+  labels?: string[];                  // Field name and synonyms, to anchor the value
+}): FieldProvenance {
+  const { value, rawValue, pass, pdfText, ocrPages = {}, modelPage, modelSource, modelConfidence, passages, agreement, votes, labels } = params;
+  const voting = typeof agreement === 'number' ? { agreement, ...(votes && { votes }) } : {};
+
+  if (value === null) {
+    return { value, rawValue, page: null, source: modelSource ?? null, snippet: null, confidence: 0, pass, ...(passages && { passages }), ...voting };
+  }
+
+  const exactHit = locateValue(pdfText, value, modelPage, labels);
+  const exact = exactHit && !isBare(exactHit, value) ? exactHit : null;
+  const rawHit = exact ? null : locateValue(pdfText, rawValue, modelPage, labels);
+  const raw = rawHit && rawValue !== null && !isBare(rawHit, rawValue) ? rawHit : null;
+  // A bare short match on another page than the one the model cited is likely another row's
+  const bareHit = exact || raw ? null : exactHit || rawHit;
+  const bare = bareHit && (!modelPage || bareHit.page === modelPage) ? bareHit : null;
+  const located = exact || raw || bare;
+
+  let confidence: number;
+  if (exact) {
+    confidence = modelPage && exact.page === modelPage ? 0.95 : 0.9;
+  } else if (raw) {
+    confidence = 0.8;
+  } else if (bare) {
+    confidence = BARE_MATCH_CONFIDENCE;
+  } else if (rawValue === null) {
+    // Value was defaulted by post-processing, nothing in the document backs it
+    confidence = 0.3;
+  } else {
+    confidence = modelSource ? 0.6 : 0.5;
+  }
+
+  // With voting, agreement between passes is the confidence - capped by how well
+  // the document backs the value, so unanimous guesses stay low
+  if (typeof agreement === 'number') {
+    confidence = Math.min(exact ? 1 : confidence, agreement);
+  }
+
+  // A self-reported model confidence can only lower the heuristic, never raise it
+  if (typeof modelConfidence === 'number' && modelConfidence >= 0 && modelConfidence < confidence) {
+    confidence = modelConfidence;
+  }
+
+  // Text from a scanned page is only as trustworthy as the OCR that read it
+  const page = located?.page ?? modelPage ?? null;
+  const ocrConfidence = page !== null ? ocrPages[page] : undefined;
+  if (ocrConfidence !== undefined && ocrConfidence < confidence) {
+    confidence = ocrConfidence;
+  }
+
+  return {
+    value,
+    rawValue,
+    page,
+    source: modelSource ?? null,
+    snippet: located?.snippet ?? null,
+    confidence: Math.round(confidence * 100) / 100,
+    pass,
+    ...(ocrConfidence !== undefined && { ocr: true }),
+    ...(passages && { passages }),
+    ...voting
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { buildPassages, createBm25Index, renderPassages, retrievePassages, tokenize } from "@/lib/retrieval";
+
+const TEXT = [
+  '=== PAGE 1 ===',
+  'Policy Schedule',
+  '',
+  'The insured is Example Trading LLC. The policy runs for one year from the effective date.',
+  '',
+  '=== PAGE 2 ===',
+  'Table of Benefits',
+  '| Benefit | Limit |',
+  '| --- | --- |',
+  '| Co-insurance | 20% |',
+  '| Dental | QAR 2,000 |',
+  '',
+  'Maternity Cover',
+  '',
+  'Maternity benefits are covered after a waiting period of ten months.',
+].join('\n');
+
+describe('tokenize', () => {
+  it('drops stopwords and also joins hyphenated words', () => {
+    expect(tokenize('Co-insurance on all Room & Board')).toEqual(['co', 'insurance', 'coinsurance', 'room', 'board']);
+  });
+});
+
+describe('buildPassages', () => {
+  it('splits pages into sections, with tables under their title', () => {
+    const passages = buildPassages(TEXT);
+    expect(passages.map(({ page, section }) => [page, section])).toEqual([
+      [1, 'Policy Schedule'],
+      [2, 'Table of Benefits'],
+      [2, 'Maternity Cover'],
+    ]);
+    expect(passages[1].text.split('\n')[0]).toBe('| Benefit | Limit |');
+  });
+
+  it('repeats the table header in every part of a long table', () => {
+    const rows = Array.from({ length: 80 }, (_, idx) => `| Benefit number ${idx} | QAR ${idx * 100} |`);
+    const passages = buildPassages(['=== PAGE 1 ===', 'Benefits', '| Benefit | Limit |', '| --- | --- |', ...rows].join('\n'));
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.every((passage) => passage.text.startsWith('| Benefit | Limit |\n| --- | --- |'))).toBe(true);
+  });
+});
+
+describe('createBm25Index', () => {
+  it('ranks the passage with the query terms first and leaves out the rest', () => {
+    const results = createBm25Index(buildPassages(TEXT)).search('coinsurance', 5);
+    expect(results).toHaveLength(1);
+    expect(results[0].passage.section).toBe('Table of Benefits');
+  });
+
+  it('indexes section headings with their passages', () => {
+    expect(createBm25Index(buildPassages(TEXT)).search('maternity', 1)[0].passage.page).toBe(2);
+  });
+});
+
+describe('retrievePassages', () => {
+  const passages = buildPassages(TEXT);
+
+  it('returns the top passages per field', () => {
+    const results = retrievePassages(passages, [{ name: 'Dental', synonyms: [] }, { name: 'Insured', synonyms: ['Policyholder'] }], 1);
+    expect(results.Dental[0].passage.id).toBe(1);
+    expect(results.Insured[0].passage.id).toBe(0);
+  });
+
+  it('fuses lexical and embedding rankings', () => {
+    const embeddings = { passages: [[1, 0], [0, 1], [0.9, 0.1]], queries: [[1, 0]] };
+    const results = retrievePassages(passages, [{ name: 'Waiting period', synonyms: [] }], 2, embeddings);
+    expect(results['Waiting period'].map((result) => result.passage.id)).toEqual([2, 0]);
+  });
+});
+
+describe('renderPassages', () => {
+  it('writes passages in document order under their page markers', () => {
+    const [first, , third] = buildPassages(TEXT);
+    expect(renderPassages([third, first])).toBe(
+      '=== PAGE 1 ===\nPolicy Schedule\nThe insured is Example Trading LLC. The policy runs for one year from the effective date.\n\n' +
+      '=== PAGE 2 ===\nMaternity Cover\nMaternity benefits are covered after a waiting period of ten months.'
+    );
+  });
+});
@@ -0,0 +1,239 @@
+// Retrieval over the PDF text: passages (page sections and table row groups)
+// ranked per field with BM25, optionally fused with embedding similarity, so
+// long documents only send the relevant passages to the model
+import { splitPages } from "@/lib/provenance";
+
+export interface Passage {
+  id: number;
+  page: number;
+  section: string;              // Heading or table title the passage sits under
+  text: string;
+}
+
+export interface RetrievedPassage {
+  passage: Passage;
+  score: number;
+}
+
+export interface RetrievalQuery {
+  name: string;
+  synonyms: string[];
+}
+
+export interface Bm25Index {
+  search(query: string, limit: number): RetrievedPassage[];
+}
+
+// Longer sections and tables are split; a table's header is repeated in every part
+const MAX_PASSAGE_CHARS = 1500;
+// Short blocks under one heading are packed together up to this size
+const MIN_PASSAGE_CHARS = 400;
+const MAX_HEADING_CHARS = 80;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Reciprocal rank fusion constant - damps the weight of the very top ranks
+const RRF_K = 60;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'per',
+  'the', 'to', 'with', 'all', 'any', 'this', 'that', 'will', 'up',
+]);
+
+/**
+ * Lowercase word tokens without stopwords. Hyphenated words also count joined,
+ * so "co-insurance" matches "coinsurance"
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9-]+/)
+    .flatMap((word) => {
+      const parts = word.split('-').filter(Boolean);
+      return parts.length > 1 ? [...parts, parts.join('')] : parts;
+    })
+    .filter((token) => !STOPWORDS.has(token));
+}
+
+const isTableLine = (line: string) => line.trim().startsWith('|');
+const isHeading = (line: string) => line.length <= MAX_HEADING_CHARS && !/[.;,]$/.test(line) && /[a-z]/i.test(line);
+
+/**
+ * Splits a block into parts of at most MAX_PASSAGE_CHARS on line boundaries,
+ * each starting with `head` (the table header, for tables)
+ */
+function splitBlock(lines: string[], head: string[] = []): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let size = head.join('\n').length;
+  for (const line of lines) {
+    if (current.length > 0 && size + line.length + 1 > MAX_PASSAGE_CHARS) {
+      parts.push([...head, ...current].join('\n'));
+      current = [];
+      size = head.join('\n').length;
+    }
+    current.push(line);
+    size += line.length + 1;
+  }
+  if (current.length > 0) parts.push([...head, ...current].join('\n'));
+  return parts;
+}
+
+/**
+ * Passages of the PDF text, in document order. Blocks are separated by blank
+ * lines or a switch between prose and table; a one-line block that looks like
+ * a heading names the section of the blocks after it.
+ */
+export function buildPassages(pdfText: string): Passage[] {
+  const passages: Passage[] = [];
+  const push = (page: number, section: string, text: string) => {
+    if (text.trim()) passages.push({ id: passages.length, page, section, text: text.trim() });
+  };
+
+  for (const { page, text } of splitPages(pdfText)) {
+    const blocks: string[][] = [];
+    let current: string[] = [];
+    for (const line of text.split('\n').map((l) => l.trim())) {
+      if (!line || (current.length > 0 && isTableLine(current[current.length - 1]) !== isTableLine(line))) {
+        if (current.length > 0) blocks.push(current);
+        current = line ? [line] : [];
+      } else {
+        current.push(line);
+      }
+    }
+    if (current.length > 0) blocks.push(current);
+
+    let section = '';
+    let pending: string[] = [];
+    const flushProse = () => {
+      splitBlock(pending).forEach((part) => push(page, section, part));
+      pending = [];
+    };
+
+    blocks.forEach((block, idx) => {
+      if (isTableLine(block[0])) {
+        // The table's title is usually the last line of the text right above it
+        const above = blocks[idx - 1];
+        if (above && !isTableLine(above[0]) && isHeading(above[above.length - 1])) {
+          flushProse();
+          section = above[above.length - 1];
+        }
+        flushProse();
+        // Markdown header + separator row lead every part of the table
+        const head = block.length > 2 && /^\|[\s:|-]+\|$/.test(block[1]) ? block.slice(0, 2) : [];
+        splitBlock(block.slice(head.length), head).forEach((part) => push(page, section, part));
+      } else if (block.length === 1 && isHeading(block[0])) {
+        flushProse();
+        section = block[0];
+      } else {
+        pending.push(...block);
+        if (pending.join('\n').length >= MIN_PASSAGE_CHARS) flushProse();
+      }
+    });
+    flushProse();
+  }
+
+  return passages;
+}
+
+// Headings carry the words fields are named with, so they are indexed with every passage under them
+const indexedText = (passage: Passage) => `${passage.section}\n${passage.text}`;
+
+export function createBm25Index(passages: Passage[]): Bm25Index {
+  const docs = passages.map((passage) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(indexedText(passage));
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return { passage, counts, length: tokens.length };
+  });
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1);
+  const docFrequency = new Map<string, number>();
+  docs.forEach((doc) => doc.counts.forEach((_, token) => docFrequency.set(token, (docFrequency.get(token) ?? 0) + 1)));
+
+  return {
+    search(query, limit) {
+      const terms = [...new Set(tokenize(query))];
+      return docs
+        .map((doc) => {
+          const score = terms.reduce((sum, term) => {
+            const tf = doc.counts.get(term);
+            if (!tf) return sum;
+            const df = docFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+            return sum + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+          }, 0);
+          return { passage: doc.passage, score };
+        })
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const queryText = (query: RetrievalQuery) => [query.name, ...query.synonyms].join('; ');
+
+/**
+ * Top passages for every field. With embeddings (one vector per passage and
+ * per query, same order) the BM25 and similarity rankings are merged by
+ * reciprocal rank fusion; the score is then the fused score.
+ */
+export function retrievePassages(
+  passages: Passage[],
+  queries: RetrievalQuery[],
+  topK: number,
+  embeddings?: { passages: number[][]; queries: number[][] }
+): Record<string, RetrievedPassage[]> {
+  const index = createBm25Index(passages);
+  const results: Record<string, RetrievedPassage[]> = {};
+
+  queries.forEach((query, queryIdx) => {
+    // Deeper BM25 list than topK, so fusion can promote passages just below the cut
+    const lexical = index.search(queryText(query), embeddings ? topK * 3 : topK);
+    if (!embeddings) {
+      results[query.name] = lexical;
+      return;
+    }
+
+    const queryVector = embeddings.queries[queryIdx];
+    const semantic = passages
+      .map((passage) => ({ passage, score: cosine(queryVector, embeddings.passages[passage.id]) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK * 3);
+
+    const fused = new Map<number, RetrievedPassage>();
+    for (const ranking of [lexical, semantic]) {
+      ranking.forEach(({ passage }, rank) => {
+        const entry = fused.get(passage.id) ?? { passage, score: 0 };
+        entry.score += 1 / (RRF_K + rank + 1);
+        fused.set(passage.id, entry);
+      });
+    }
+    results[query.name] = [...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+  });
+
+  return results;
+}
+
+/**
+ * Passages as prompt text, in document order, each under its page marker so
+ * the model can still cite pages
+ */
+export function renderPassages(passages: Passage[]): string {
+  return [...passages]
+    .sort((a, b) => a.id - b.id)
+    .map((passage) => `=== PAGE ${passage.page} ===\n${passage.section && !passage.text.startsWith(passage.section) ? `${passage.section}\n` : ''}${passage.text}`)
+    .join('\n\n');
+}
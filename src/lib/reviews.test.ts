@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { ReviewedRecord } from "@/constants/fields";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { createFieldReviews, expectedFileName, loadReviewedRecords, reviewField, saveReviewedRecord, toExpectedResults } from "@/lib/reviews";
+import { stubLocalStorage } from "@/test/localStorage";
+
+const record = (overrides: Partial<ReviewedRecord> = {}): ReviewedRecord => {
+  let fields = createFieldReviews({ 'Co-insurance': '20%', 'Dental Benefit': 'QAR 500', Optical: 'Covered', Maternity: null });
+  fields = reviewField(fields, 'Co-insurance', { status: 'accepted', reviewer: 'Sam' });
+  fields = reviewField(fields, 'Dental Benefit', { status: 'corrected', reviewer: 'Sam', value: ' QAR 5,000 ' });
+  fields = reviewField(fields, 'Optical', { status: 'rejected', reviewer: 'Sam' });
+  return {
+    id: 'run-1', pdfName: 'policy.pdf', payerPlan: 'Acme Gold', reviewer: 'Sam',
+    createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-02T00:00:00.000Z', fields, ...overrides,
+  };
+};
+
+describe('reviewField', () => {
+  it('keeps the model value and records every change', () => {
+    const { fields } = record();
+    expect(fields['Dental Benefit']).toMatchObject({ modelValue: 'QAR 500', value: 'QAR 5,000', status: 'corrected' });
+    expect(fields['Dental Benefit'].history).toMatchObject([{ reviewer: 'Sam', status: 'corrected', from: 'QAR 500', to: 'QAR 5,000' }]);
+    expect(fields.Optical).toMatchObject({ value: null, status: 'rejected' });
+  });
+
+  it('treats a correction back to the model value as an accept', () => {
+    const fields = reviewField(createFieldReviews({ A: 'x' }), 'A', { status: 'corrected', reviewer: 'Sam', value: 'x' });
+    expect(fields.A.status).toBe('accepted');
+  });
+});
+
+describe('toExpectedResults', () => {
+  const schema: FieldDefinition[] = [{ name: 'Co-insurance', type: 'percentage', synonyms: [] }];
+
+  it('keeps accepted and corrected fields only', () => {
+    const expected = toExpectedResults(record(), { payerPlan: 'QLM' });
+    expect(expected.expectedFields).toEqual({ 'Co-insurance': '20%', 'Dental Benefit': 'QAR 5,000' });
+    expect(expected.notes).toEqual({ 'Dental Benefit': 'Corrected by Sam - model returned "QAR 500"' });
+  });
+
+  it('writes the plan id, and the schema or fields of saved and custom plans', () => {
+    expect(toExpectedResults(record(), { payerPlan: 'ALKOOT', payerPlanName: 'Acme Gold', schema }))
+      .toMatchObject({ payerPlan: 'ALKOOT', payerPlanName: 'Acme Gold', schema });
+    const custom = toExpectedResults(record(), { payerPlanName: 'Ad hoc', fields: ['Co-insurance'] });
+    expect(custom).toMatchObject({ payerPlan: 'CUSTOM', payerPlanName: 'Ad hoc', fields: ['Co-insurance'] });
+    expect(custom).not.toHaveProperty('schema');
+  });
+});
+
+describe('saveReviewedRecord', () => {
+  beforeEach(() => {
+    stubLocalStorage();
+  });
+
+  it('replaces an earlier save of the same record, newest first', () => {
+    saveReviewedRecord(record({ id: 'run-0' }));
+    saveReviewedRecord(record());
+    saveReviewedRecord(record({ reviewer: 'Alex' }));
+    expect(loadReviewedRecords().map((saved) => [saved.id, saved.reviewer])).toEqual([['run-1', 'Alex'], ['run-0', 'Sam']]);
+  });
+
+  it('needs a reviewer name', () => {
+    expect(() => saveReviewedRecord(record({ reviewer: '  ' }))).toThrow('reviewer name');
+  });
+});
+
+describe('expectedFileName', () => {
+  it('replaces the PDF extension', () => {
+    expect(expectedFileName('Policy 2025.PDF')).toBe('Policy 2025.expected.json');
+  });
+});
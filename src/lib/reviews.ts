@@ -0,0 +1,150 @@
+// Human-in-the-loop review of extractions, stored in localStorage
+import type {
+  ExtractedData,
+  ExtractionRun,
+  FieldReview,
+  ReviewedRecord,
+  ReviewStatus,
+} from "../constants/fields";
+import type { FieldDefinition } from "../constants/fieldSchema";
+
+const STORAGE_KEY = "reviewedExtractions";
+
+// Same shape as ExpectedResults in tests/extractionTest.ts (*.expected.json)
+export interface ExpectedResultsFile {
+  context: string;
+  payerPlan: string;            // Plan id (QLM, ALKOOT, CUSTOM)
+  // Custom and saved plans: what the harness extracts with, as the run did
+  payerPlanName?: string;
+  fields?: string[];
+  schema?: FieldDefinition[];
+  pdfName: string;
+  expectedFields: Record<string, string | null>;
+  notes?: Record<string, string>;
+}
+
+/**
+ * Starts a review for every extracted field, keeping the model output
+ */
+export function createFieldReviews(data: ExtractedData): Record<string, FieldReview> {
+  return Object.fromEntries(
+    Object.entries(data).map(([field, value]) => [
+      field,
+      { field, modelValue: value, value, status: 'pending' as ReviewStatus, history: [] },
+    ])
+  );
+}
+
+/**
+ * Applies one reviewer action to a field and appends it to the field's history.
+ * Accepting restores the model value; correcting requires a new value;
+ * rejecting marks the model value as wrong without saying what is right.
+ */
+export function reviewField(
+  reviews: Record<string, FieldReview>,
+  field: string,
+  action: { status: Exclude<ReviewStatus, 'pending'>; reviewer: string; value?: string | null; note?: string }
+): Record<string, FieldReview> {
+  const current = reviews[field];
+  if (!current) return reviews;
+
+  let nextValue: string | null;
+  switch (action.status) {
+    case 'accepted':
+      nextValue = current.modelValue;
+      break;
+    case 'corrected':
+      nextValue = action.value?.trim() ? action.value.trim() : null;
+      break;
+    case 'rejected':
+      nextValue = null;
+      break;
+  }
+
+  // A "correction" back to the model's own value is just an accept
+  const status = action.status === 'corrected' && nextValue === current.modelValue ? 'accepted' : action.status;
+
+  return {
+    ...reviews,
+    [field]: {
+      ...current,
+      value: nextValue,
+      status,
+      note: action.note ?? current.note,
+      history: [
+        ...current.history,
+        { reviewer: action.reviewer, at: new Date().toISOString(), status, from: current.value, to: nextValue },
+      ],
+    },
+  };
+}
+
+export function countByStatus(reviews: Record<string, FieldReview>): Record<ReviewStatus, number> {
+  const counts: Record<ReviewStatus, number> = { pending: 0, accepted: 0, corrected: 0, rejected: 0 };
+  Object.values(reviews).forEach((review) => counts[review.status]++);
+  return counts;
+}
+
+export function loadReviewedRecords(): ReviewedRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Error reading reviewed extractions:", err);
+    return [];
+  }
+}
+
+/**
+ * Saves (or updates, by id) a reviewed record. Every record needs a reviewer.
+ */
+export function saveReviewedRecord(record: ReviewedRecord): void {
+  if (!record.reviewer.trim()) throw new Error("A reviewed record needs a reviewer name");
+  const records = loadReviewedRecords().filter((r) => r.id !== record.id);
+  records.unshift(record);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+}
+
+/**
+ * Converts a reviewed record into a *.expected.json for the test harness.
+ * Only accepted and corrected fields are included - pending fields are not
+ * ground truth, and a rejection says the model was wrong, not what is right.
+ * The run's plan request goes along, so custom and saved plans (which the
+ * harness can't look up by name) extract the same fields.
+ */
+export function toExpectedResults(
+  record: ReviewedRecord,
+  request: ExtractionRun['request'],
+  context?: string
+): ExpectedResultsFile {
+  const expectedFields: Record<string, string | null> = {};
+  const notes: Record<string, string> = {};
+
+  for (const review of Object.values(record.fields)) {
+    if (review.status === 'pending' || review.status === 'rejected') continue;
+    expectedFields[review.field] = review.value;
+
+    if (review.note) {
+      notes[review.field] = review.note;
+    } else if (review.status === 'corrected') {
+      notes[review.field] = `Corrected by ${record.reviewer} - model returned ${JSON.stringify(review.modelValue)}`;
+    }
+  }
+
+  return {
+    context: context || `Reviewed extraction of ${record.pdfName} - ${record.payerPlan}`,
+    payerPlan: request.payerPlan ?? 'CUSTOM',
+    ...(request.payerPlanName && { payerPlanName: request.payerPlanName }),
+    ...(request.schema ? { schema: request.schema } : request.fields && { fields: request.fields }),
+    pdfName: record.pdfName,
+    expectedFields,
+    ...(Object.keys(notes).length > 0 && { notes }),
+  };
+}
+
+/**
+ * File name for the exported ground truth, next to the PDF in the test layout
+ */
+export function expectedFileName(pdfName: string): string {
+  return `${pdfName.replace(/\.pdf$/i, '')}.expected.json`;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { FIELD_SCHEMAS } from "@/constants/fieldSchema";
+import { MARKDOWN_RULES, type PayerRule } from "@/constants/payerRules";
+import { applyPayerRules, rulesForPlan } from "@/lib/ruleEngine";
+
+const AHLI = 'Provider-specific co-insurance at Al Ahli Hospital';
+const INPATIENT = 'Co-insurance on all inpatient treatment';
+const DEDUCTIBLE = 'Deductible on consultation';
+
+describe('rulesForPlan', () => {
+  it('puts the rules for every plan before the plan\'s own', () => {
+    const ids = rulesForPlan('ALKOOT').map((rule) => rule.id);
+    expect(ids[0]).toBe('ahli-copies-inpatient-coinsurance');
+    expect(ids).toContain('alkoot-deductible-from-coinsurance');
+    expect(rulesForPlan('QLM').map((rule) => rule.id)).toEqual(['ahli-copies-inpatient-coinsurance']);
+  });
+
+  it('does not repeat rules when the plan name is the built-in plan', () => {
+    expect(rulesForPlan('QLM', 'QLM')).toHaveLength(rulesForPlan('QLM').length);
+  });
+});
+
+describe('applyPayerRules', () => {
+  it('sets the Al Ahli rate aside when it copies the inpatient rate', () => {
+    const { data, fired } = applyPayerRules({ [AHLI]: '20%', [INPATIENT]: '20%' }, rulesForPlan('ALKOOT'));
+    expect(data[AHLI]).toBe('Not applicable');
+    expect(fired).toEqual([{ rule: 'ahli-copies-inpatient-coinsurance', field: AHLI, action: 'set', from: '20%', to: 'Not applicable' }]);
+  });
+
+  it('copies the shared ALKOOT cell and flags a mismatch', () => {
+    const rules = rulesForPlan('ALKOOT');
+    expect(applyPayerRules({ 'Co-insurance': '10%', [DEDUCTIBLE]: null }, rules).data[DEDUCTIBLE]).toBe('10%');
+    expect(applyPayerRules({ 'Co-insurance': null, [DEDUCTIBLE]: 'QAR 50' }, rules).data['Co-insurance']).toBe('QAR 50');
+    expect(applyPayerRules({ 'Co-insurance': '10%', [DEDUCTIBLE]: '10%' }, rules).fired).toEqual([]);
+
+    const { data, fired } = applyPayerRules({ 'Co-insurance': '10%', [DEDUCTIBLE]: 'QAR 50' }, rules);
+    expect(data[DEDUCTIBLE]).toBe('10%');
+    expect(fired.map((firing) => firing.action)).toEqual(['flag', 'copy']);
+    expect(fired[0]).toMatchObject({ from: 'QAR 50', to: 'QAR 50' });
+  });
+
+  it('skips rules naming fields the extraction does not have', () => {
+    const { data, fired } = applyPayerRules({ 'Co-insurance': '10%' }, rulesForPlan('ALKOOT'));
+    expect(data).toEqual({ 'Co-insurance': '10%' });
+    expect(fired).toEqual([]);
+  });
+
+  it('runs rules in priority order, each seeing the changes before it', () => {
+    const rules: PayerRule[] = [
+      { id: 'second', description: '', priority: 20, when: [{ field: 'A', op: 'equals', value: 'one' }], then: [{ type: 'set', field: 'A', value: 'two' }] },
+      { id: 'first', description: '', priority: 10, when: [{ field: 'A', op: 'missing' }], then: [{ type: 'set', field: 'A', value: 'one' }] },
+    ];
+    const { data, fired } = applyPayerRules({ A: null }, rules);
+    expect(data.A).toBe('two');
+    expect(fired.map((firing) => firing.rule)).toEqual(['first', 'second']);
+  });
+
+  it('normalizes into the field\'s schema format', () => {
+    const schema = FIELD_SCHEMAS.ALKOOT;
+    const rules: PayerRule[] = [{ id: 'format', description: '', priority: 10, when: [], then: [{ type: 'normalize', field: 'Effective Date' }] }];
+    expect(applyPayerRules({ 'Effective Date': '01/03/2024' }, rules, schema).data['Effective Date']).toBe('01 March 2024');
+  });
+
+  it('keeps an Al Ahli rate that names the hospital on the markdown path', () => {
+    const base = { [AHLI]: '10% at Al Ahli Hospital', 'Co-insurance': '20%', [INPATIENT]: '20%' };
+    expect(applyPayerRules(base, MARKDOWN_RULES).data[AHLI]).toBe('10% at Al Ahli Hospital');
+    expect(applyPayerRules({ ...base, [AHLI]: '10%' }, MARKDOWN_RULES).data[AHLI]).toBe('Not applicable');
+  });
+});
@@ -0,0 +1,81 @@
+// Runs the declarative payer rules of src/constants/payerRules.ts over extracted data
+import type { ExtractedData, RuleFiring } from "@/constants/fields";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { PAYER_RULES, type PayerRule, type RuleAction, type RuleCondition } from "@/constants/payerRules";
+import { normalizeFieldValue } from "@/lib/fieldTypes";
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+const hasValue = (value: string | null | undefined): value is string =>
+  typeof value === 'string' && value.trim() !== '' && value.trim().toLowerCase() !== 'null';
+
+/**
+ * Rules for a plan: the '*' rules, the built-in plan's, then those declared
+ * under the saved plan's name
+ */
+export function rulesForPlan(payerPlan?: string, payerPlanName?: string): PayerRule[] {
+  const keys = ['*', payerPlan, payerPlanName].filter((key, idx, all): key is string => !!key && all.indexOf(key) === idx);
+  return keys.flatMap((key) => PAYER_RULES[key] ?? []);
+}
+
+function holds(condition: RuleCondition, data: ExtractedData): boolean {
+  const value = data[condition.field];
+  const other = condition.value ?? '';
+  switch (condition.op) {
+    case 'present': return hasValue(value);
+    case 'missing': return !hasValue(value);
+    case 'matches': return hasValue(value) && new RegExp(other, 'i').test(value.trim());
+    case 'not-matches': return !hasValue(value) || !new RegExp(other, 'i').test(value.trim());
+    case 'equals': return hasValue(value) && collapse(value) === collapse(other);
+    case 'same-as': return hasValue(value) && hasValue(data[other]) && collapse(value) === collapse(data[other] as string);
+    case 'differs-from': return hasValue(value) && hasValue(data[other]) && collapse(value) !== collapse(data[other] as string);
+  }
+}
+
+const actionFields = (action: RuleAction) => (action.type === 'copy' ? [action.from, action.to] : [action.field]);
+
+const ruleFields = (rule: PayerRule) => [
+  ...rule.when.flatMap((condition) => (condition.op === 'same-as' || condition.op === 'differs-from' ? [condition.field, condition.value ?? ''] : [condition.field])),
+  ...rule.then.flatMap(actionFields),
+];
+
+/**
+ * Applies the rules in priority order, each at most once, every rule seeing
+ * the changes of those before it. Returns the new data and a log of what
+ * fired - actions that left a value as it was are not logged.
+ */
+export function applyPayerRules(
+  data: ExtractedData,
+  rules: PayerRule[],
+  schema: FieldDefinition[] = []
+): { data: ExtractedData; fired: RuleFiring[] } {
+  const result: ExtractedData = { ...data };
+  const fired: RuleFiring[] = [];
+  const ordered = rules.map((rule, idx) => ({ rule, idx })).sort((a, b) => a.rule.priority - b.rule.priority || a.idx - b.idx);
+
+  for (const { rule } of ordered) {
+    if (!ruleFields(rule).every((field) => field in result)) continue;
+    if (!rule.when.every((condition) => holds(condition, result))) continue;
+
+    for (const action of rule.then) {
+      const field = action.type === 'copy' ? action.to : action.field;
+      const from = result[field];
+      let to = from;
+      if (action.type === 'set') to = action.value;
+      if (action.type === 'copy') to = result[action.from];
+      if (action.type === 'normalize' && hasValue(from)) {
+        const def = schema.find((entry) => entry.name === field);
+        to = action.pattern !== undefined
+          ? from.replace(new RegExp(action.pattern, 'i'), action.replacement ?? '')
+          : def ? normalizeFieldValue(def, from) : from;
+      }
+
+      if (action.type === 'flag') {
+        fired.push({ rule: rule.id, field, action: action.type, from, to: from, message: action.message });
+      } else if (to !== from) {
+        result[field] = to;
+        fired.push({ rule: rule.id, field, action: action.type, from, to });
+      }
+    }
+  }
+  return { data: result, fired };
+}
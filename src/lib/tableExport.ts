@@ -0,0 +1,53 @@
+// Row-based CSV / Markdown rendering shared by the app's downloads and the CLI
+import type { DocumentComparisonResult } from "../constants/fields";
+
+export type ExportRow = Record<string, string | number | null | undefined>;
+
+export function toCsv(rows: ExportRow[]): string {
+  if (rows.length === 0) return '';
+
+  // Quote values containing a comma, newline or quote, doubling internal quotes
+  const escapeCsvValue = (value: ExportRow[string]): string => {
+    if (value === null || value === undefined) return '';
+    const stringValue = String(value);
+    if (stringValue.includes(',') || stringValue.includes('\n') || stringValue.includes('"')) {
+      return `"${stringValue.replace(/"/g, '""')}"`;
+    }
+    return stringValue;
+  };
+
+  const columns = Object.keys(rows[0]);
+  return [
+    columns.join(","),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(",")),
+  ].join("\n");
+}
+
+export function toMarkdownTable(rows: ExportRow[]): string {
+  if (rows.length === 0) return '';
+
+  const escapeCell = (value: ExportRow[string]) =>
+    value === null || value === undefined ? '' : String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+  const columns = Object.keys(rows[0]);
+  return [
+    `| ${columns.map(escapeCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${columns.map((column) => escapeCell(row[column])).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * One row per field with a column per document, for comparison exports.
+ * A repeated file name gets its document number, e.g. "policy.pdf (2)".
+ */
+export function comparisonToRows(results: DocumentComparisonResult[], fileNames: string[]): ExportRow[] {
+  const columns = fileNames.map((name, idx) => (fileNames.indexOf(name) === idx ? name : `${name} (${idx + 1})`));
+  return results.map((result) => ({
+    Field: result.field,
+    ...Object.fromEntries(columns.map((name, idx) => [name, result.values[idx]])),
+    Status: result.status,
+    Explanation: result.explanation,
+    "Matching Files": result.groups.map((group) => group.map((idx) => idx + 1).join("+")).join(" | "),
+  }));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { extractAllTables, resolveFieldsFromTables, searchFieldInTables } from "@/lib/tableSearch";
+
+const TEXT = [
+  '=== PAGE 1 ===',
+  'Table of Benefits',
+  '| Benefit | Limit |',
+  '| --- | --- |',
+  '| Annual Limit | QAR 1,000,000 |',
+  '| Co-insurance on all inpatient treatment | 20% |',
+  '| Notes | Paid \\| reimbursed |',
+  '',
+  '=== PAGE 2 ===',
+  '| Co-insurance | 10% |',
+  '| Deductible | QAR 50 |',
+].join('\n');
+
+const field = (name: string, type: FieldDefinition['type'], synonyms: string[] = []): FieldDefinition => ({ name, type, synonyms });
+
+describe('extractAllTables', () => {
+  it('finds tables with their page, title and escaped pipes', () => {
+    const tables = extractAllTables(TEXT);
+    expect(tables).toHaveLength(2);
+    expect(tables[0]).toMatchObject({ page: 1, title: 'Table of Benefits', headers: ['Benefit', 'Limit'] });
+    expect(tables[0].rows[2]).toEqual(['Notes', 'Paid | reimbursed']);
+    expect(tables[1]).toMatchObject({ page: 2, title: '', headers: ['Co-insurance', '10%'] });
+  });
+});
+
+describe('searchFieldInTables', () => {
+  const tables = extractAllTables(TEXT);
+
+  it('reads an exact label from a headerless table', () => {
+    expect(searchFieldInTables(field('Co-insurance', 'percentage'), tables)).toMatchObject({ value: '10%', page: 2, confidence: 0.95 });
+  });
+
+  it('matches synonyms', () => {
+    expect(searchFieldInTables(field('Overall limit', 'money', ['Annual Limit']), tables)?.value).toBe('QAR 1,000,000');
+  });
+
+  it('keeps a partial label below the acceptance threshold', () => {
+    const match = searchFieldInTables(field('Inpatient treatment', 'percentage'), tables);
+    expect(match?.value).toBe('20%');
+    expect(match?.confidence).toBeLessThan(0.7);
+  });
+
+  it('lowers the confidence when two tables disagree', () => {
+    const twice = extractAllTables(`${TEXT}\n\nOther\n| Deductible | QAR 100 |\n| Room | Private |`);
+    expect(searchFieldInTables(field('Deductible', 'money'), twice)?.confidence).toBe(0.5);
+  });
+});
+
+describe('resolveFieldsFromTables', () => {
+  it('only resolves confident values of the field\'s type', () => {
+    const resolved = resolveFieldsFromTables(TEXT, [
+      field('Co-insurance', 'percentage'),
+      field('Deductible', 'date'),
+      field('Inpatient treatment', 'percentage'),
+    ], 0.7);
+    expect(Object.keys(resolved)).toEqual(['Co-insurance']);
+  });
+});
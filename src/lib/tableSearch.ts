@@ -0,0 +1,139 @@
+// Table-first extraction: fields whose label appears as a row in one of the
+// markdown tables of the PDF text are read straight from that row - no LLM call
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { validateFieldValue } from "@/lib/fieldTypes";
+
+export interface ParsedTable {
+  page: number | null;
+  title: string;                // Text line right above the table, if any
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TableMatch {
+  value: string;
+  page: number | null;
+  source: string;
+  confidence: number;           // 0-1
+}
+
+const PAGE_MARKER = /^=== PAGE (\d+) ===$/;
+const SEPARATOR_CELL = /^:?-+:?$/;
+// Wider tables have several value columns (per network, in/out-patient) - which one is meant needs reading
+const MAX_UNAMBIGUOUS_COLUMNS = 3;
+const EXACT_LABEL = 0.95;
+// Below the acceptance threshold: "Co-insurance" is contained in "Co-insurance on all
+// inpatient treatment", so a partial label can be the wrong row and the model decides
+const PARTIAL_LABEL = 0.6;
+const AMBIGUOUS = 0.5;
+
+// Cells split on unescaped pipes, as written by tableToMarkdown
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+
+/**
+ * All markdown tables in the PDF text, with the page they are on
+ */
+export function extractAllTables(text: string): ParsedTable[] {
+  const tables: ParsedTable[] = [];
+  const lines = text.split('\n');
+  let page: number | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const marker = lines[i].trim().match(PAGE_MARKER);
+    if (marker) page = parseInt(marker[1], 10);
+    if (!lines[i].trim().startsWith('|')) {
+      i++;
+      continue;
+    }
+
+    const title = i > 0 ? lines[i - 1].trim() : '';
+    const rows: string[][] = [];
+    while (i < lines.length && lines[i].trim().startsWith('|')) {
+      const cells = splitRow(lines[i]);
+      if (!cells.every((cell) => SEPARATOR_CELL.test(cell) || !cell)) rows.push(cells);
+      i++;
+    }
+    if (rows.length >= 2) {
+      tables.push({ page, title: PAGE_MARKER.test(title) ? '' : title, headers: rows[0], rows: rows.slice(1) });
+    }
+  }
+
+  console.log(`[Table Search] Found ${tables.length} tables`);
+  return tables;
+}
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]/g, '');
+
+// A label that merely contains a short target ("Room" in "Room and board") says little
+const labelScore = (cell: string, target: string) => {
+  if (!cell || !target) return 0;
+  if (cell === target) return EXACT_LABEL;
+  return target.length >= 6 && cell.includes(target) ? PARTIAL_LABEL : 0;
+};
+
+/**
+ * Best row for a field across all tables. The label is matched against the
+ * field name and its synonyms: exactly in any column, or contained in the first
+ * column; the value is the next non-empty cell. The same label with different
+ * values in two tables is left to the model.
+ */
+export function searchFieldInTables(def: Pick<FieldDefinition, 'name' | 'synonyms'>, tables: ParsedTable[]): TableMatch | null {
+  const targets = [def.name, ...def.synonyms].map(normalizeLabel);
+  const matches: TableMatch[] = [];
+
+  for (const table of tables) {
+    // Layout tables without a header row have their first row in headers
+    [table.headers, ...table.rows].forEach((row, rowIdx) => {
+      for (let col = 0; col < row.length - 1; col++) {
+        const cell = normalizeLabel(row[col]);
+        const score = Math.max(...targets.map((target) => labelScore(cell, target)));
+        if (score === 0 || (col > 0 && score < EXACT_LABEL)) continue;
+
+        const value = row.slice(col + 1).find((text) => /[a-z0-9]/i.test(text));
+        if (!value) continue;
+        matches.push({
+          value,
+          page: table.page,
+          source: `Table${table.title ? ` "${table.title}"` : ''}, ${row[col]} row`,
+          confidence: row.length > MAX_UNAMBIGUOUS_COLUMNS ? Math.min(score, AMBIGUOUS) : score,
+        });
+        break;
+      }
+    });
+  }
+
+  if (matches.length === 0) return null;
+  const best = matches.reduce((top, match) => (match.confidence > top.confidence ? match : top));
+  const conflicting = matches.some((match) => match.confidence === best.confidence && match.value !== best.value);
+  return conflicting ? { ...best, confidence: Math.min(best.confidence, AMBIGUOUS) } : best;
+}
+
+/**
+ * Fields resolved from tables at or above the confidence threshold, with a value
+ * of the field's type. Everything else is left for the LLM.
+ */
+export function resolveFieldsFromTables(
+  pdfText: string,
+  schema: FieldDefinition[],
+  threshold: number
+): Record<string, TableMatch> {
+  const tables = extractAllTables(pdfText);
+  const resolved: Record<string, TableMatch> = {};
+  if (tables.length === 0) return resolved;
+
+  for (const def of schema) {
+    const match = searchFieldInTables(def, tables);
+    if (!match) continue;
+    if (match.confidence < threshold) {
+      console.log(`[Table Search] "${def.name}": "${match.value}" too uncertain (${match.confidence}), leaving it to the model`);
+    } else if (!validateFieldValue(def, match.value).valid) {
+      console.log(`[Table Search] "${def.name}": "${match.value}" is not a ${def.type} value, leaving it to the model`);
+    } else {
+      console.log(`[Table Search] "${def.name}": ${match.value} (${match.source})`);
+      resolved[def.name] = match;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { canonicalKey, compareDocumentValues, compareValues, parseValue } from "@/lib/valueComparison";
+
+describe('parseValue', () => {
+  it('reads amounts, with QAR as the default currency', () => {
+    expect(parseValue('QAR 7,500')).toEqual({ kind: 'money', amount: 7500, currency: 'QAR' });
+    expect(parseValue('7500')).toEqual({ kind: 'money', amount: 7500, currency: 'QAR' });
+    expect(parseValue('US$ 1,000.50')).toEqual({ kind: 'money', amount: 1000.5, currency: 'USD' });
+  });
+
+  it('reads percentages with filler words around them', () => {
+    expect(parseValue('20% co-insurance')).toEqual({ kind: 'percent', value: 20 });
+  });
+
+  it('reads dates day first and with month names', () => {
+    expect(parseValue('01/02/2024')).toEqual({ kind: 'date', iso: '2024-02-01' });
+    expect(parseValue('1st February 2024')).toEqual({ kind: 'date', iso: '2024-02-01' });
+    expect(parseValue('Feb 1, 2024')).toEqual({ kind: 'date', iso: '2024-02-01' });
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseValue('30/02/2024').kind).not.toBe('date');
+    expect(parseValue('2023-02-29').kind).not.toBe('date');
+    expect(parseValue('29/02/2024')).toEqual({ kind: 'date', iso: '2024-02-29' });
+  });
+
+  it('maps coverage phrases to terms, "not covered" before "covered"', () => {
+    expect(parseValue('Not covered')).toEqual({ kind: 'term', term: 'none' });
+    expect(parseValue('Covered')).toEqual({ kind: 'term', term: 'covered' });
+    expect(parseValue('N/A')).toEqual({ kind: 'term', term: 'not-applicable' });
+    expect(parseValue('QAR 0')).toEqual({ kind: 'term', term: 'none' });
+  });
+
+  it('keeps several values together as a composite', () => {
+    expect(parseValue('QAR 50 or 10% whichever is higher')).toMatchObject({
+      kind: 'composite', amounts: [50], percents: [10], currency: 'QAR',
+    });
+  });
+
+  it('never reads free-text fields as amounts or dates', () => {
+    expect(parseValue('POL-2024/001', 'text')).toEqual({ kind: 'text', text: 'pol 2024 001' });
+    expect(parseValue('   ')).toEqual({ kind: 'empty' });
+  });
+});
+
+describe('compareValues', () => {
+  it('tells formatting apart from wording', () => {
+    expect(compareValues('QAR 7,500', 'QAR 7500').status).toBe('format-only');
+    expect(compareValues('Nil', 'Not covered').status).toBe('equivalent');
+    expect(compareValues('01/02/2024', '1 February 2024').status).toBe('format-only');
+  });
+
+  it('reports the direction of a change', () => {
+    expect(compareValues('QAR 100', 'QAR 150')).toEqual({ status: 'increased', explanation: 'Increased from QAR 100 to QAR 150 (+50%)' });
+    expect(compareValues('20%', '10%')).toEqual({ status: 'decreased', explanation: 'Decreased from 20% to 10% (-10 pts)' });
+  });
+
+  it('handles values missing on one or both sides', () => {
+    expect(compareValues(null, null).status).toBe('missing');
+    expect(compareValues('QAR 100', null)).toEqual({ status: 'different', explanation: 'Only found in the first document' });
+  });
+});
+
+describe('compareDocumentValues', () => {
+  it('groups documents sharing a value', () => {
+    const result = compareDocumentValues(['QAR 100', 'QAR 100.00', 'QAR 200']);
+    expect(result.groups).toEqual([[0, 1], [2]]);
+    expect(result.status).toBe('increased');
+  });
+
+  it('names the files a value is missing from', () => {
+    expect(compareDocumentValues(['20%', null, null]).explanation).toBe('Not found in files 2, 3');
+  });
+});
+
+describe('canonicalKey', () => {
+  it('is equal for values that mean the same', () => {
+    expect(canonicalKey(parseValue('QR 1,000'))).toBe(canonicalKey(parseValue('QAR 1000')));
+    expect(canonicalKey(parseValue('20%'))).not.toBe(canonicalKey(parseValue('20')));
+  });
+});
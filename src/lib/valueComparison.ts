@@ -0,0 +1,330 @@
+// Typed value parsing and semantic comparison for policy field values
+import type { ComparisonStatus } from "../constants/fields";
+import type { FieldValueType } from "../constants/fieldSchema";
+
+// Policies handled by this tool are Qatari - bare amounts are assumed to be QAR
+const DEFAULT_CURRENCY = 'QAR';
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  qar: 'QAR',
+  qr: 'QAR',
+  usd: 'USD',
+  'us$': 'USD',
+  $: 'USD',
+  eur: 'EUR',
+  '€': 'EUR',
+};
+
+// Coverage phrases mapped to a canonical term. Longer phrases first so
+// "not covered" wins over "covered".
+const TERMS: Array<[RegExp, CoverageTerm]> = [
+  [/\b(?:not covered|no cover(?:age)?|not included|excluded|nil|none|no)\b/, 'none'],
+  [/\b(?:not applicable|n\/a|na)\b/, 'not-applicable'],
+  [/\bunlimited\b|\bfull cost\b/, 'unlimited'],
+  [/\b(?:covered|included|yes)\b/, 'covered'],
+];
+
+// Words that qualify a value without changing it ("20% co-insurance" == "20%")
+const FILLER = /\b(?:co-?insurance|co-?pay(?:ment)?|deductible|up to|upto|limit|maximum|max|per annum|per year|annually|only|of|the|on|amount|applies|applicable)\b/g;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+export type CoverageTerm = 'none' | 'covered' | 'not-applicable' | 'unlimited';
+
+export type ParsedValue =
+  | { kind: 'empty' }
+  | { kind: 'money'; amount: number; currency: string }
+  | { kind: 'percent'; value: number }
+  | { kind: 'date'; iso: string }
+  | { kind: 'term'; term: CoverageTerm }
+  | { kind: 'composite'; amounts: number[]; currency: string; percents: number[]; terms: CoverageTerm[]; text: string }
+  | { kind: 'text'; text: string };
+
+export interface ValueComparison {
+  status: ComparisonStatus;
+  explanation: string;
+}
+
+const normalizeText = (value: string) =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}%]+/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Same characters once case, spacing and punctuation are ignored
+const formatKey = (value: string) => value.toLowerCase().replace(/[\s,.;:'"()-]+/g, '');
+
+const toNumber = (digits: string) => parseFloat(digits.replace(/[,\s]/g, ''));
+
+function parseDate(value: string): string | null {
+  const text = value.trim().toLowerCase().replace(/[.,]+$/, '');
+  const iso = (y: number, m: number, d: number) => {
+    // Round-trip through Date so impossible days ("30 February") are rejected
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+    return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  };
+  const monthIndex = (name: string) => MONTHS.findIndex(m => m.startsWith(name.substring(0, 3))) + 1;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return iso(+match[1], +match[2], +match[3]);
+
+  // Day first - the convention in these policies
+  match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (match) return iso(+match[3], +match[2], +match[1]);
+
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,})[\s,-]+(\d{4})$/);
+  if (match && monthIndex(match[2]) > 0) return iso(+match[3], monthIndex(match[2]), +match[1]);
+
+  match = text.match(/^([a-z]{3,})\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (match && monthIndex(match[1]) > 0) return iso(+match[3], monthIndex(match[1]), +match[2]);
+
+  return null;
+}
+
+/**
+ * Parses a field value into a typed value (money, percentage, date, coverage
+ * term), a composite of several of those, or plain text. Free-text fields
+ * (policy numbers, plan names) are never read as amounts or dates.
+ */
+export function parseValue(raw: string | null | undefined, type?: FieldValueType): ParsedValue {
+  if (raw === null || raw === undefined || raw.trim() === '') return { kind: 'empty' };
+  if (type === 'text') return { kind: 'text', text: normalizeText(raw) };
+
+  const date = parseDate(raw);
+  if (date) return { kind: 'date', iso: date };
+
+  let text = ` ${raw.toLowerCase()} `;
+
+  const percents: number[] = [];
+  text = text.replace(/(\d+(?:\.\d+)?)\s*%/g, (_, num) => {
+    percents.push(parseFloat(num));
+    return ' ';
+  });
+
+  const currencyMatch = text.match(/\b(qar|qr|usd|eur)(?![a-z])|us\$|\$|€/);
+  const currency = currencyMatch ? CURRENCY_ALIASES[currencyMatch[0]] : DEFAULT_CURRENCY;
+  text = text.replace(/\b(?:qar|qr|usd|eur)(?![a-z])|us\$|\$|€/g, ' ');
+
+  // Bare numbers only count as amounts when a currency is stated or the value is just a number
+  const amounts: number[] = [];
+  if (currencyMatch || /^\s*[\d,.\s]+\s*$/.test(text)) {
+    text = text.replace(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g, (num) => {
+      amounts.push(toNumber(num));
+      return ' ';
+    });
+  }
+
+  const terms: CoverageTerm[] = [];
+  for (const [pattern, term] of TERMS) {
+    const global = new RegExp(pattern.source, 'g');
+    text = text.replace(global, () => {
+      terms.push(term);
+      return ' ';
+    });
+  }
+
+  const residual = normalizeText(text.replace(FILLER, ' '));
+
+  // A zero amount or rate means the same as "Nil"
+  const isZero = (amounts.length === 1 && amounts[0] === 0 && percents.length === 0)
+    || (percents.length === 1 && percents[0] === 0 && amounts.length === 0);
+
+  if (!residual) {
+    if (isZero && terms.every(t => t === 'none')) return { kind: 'term', term: 'none' };
+    if (amounts.length === 1 && percents.length === 0 && terms.length === 0) {
+      return { kind: 'money', amount: amounts[0], currency };
+    }
+    if (percents.length === 1 && amounts.length === 0 && terms.length === 0) {
+      return { kind: 'percent', value: percents[0] };
+    }
+    if (terms.length === 1 && amounts.length === 0 && percents.length === 0) {
+      return { kind: 'term', term: terms[0] };
+    }
+  }
+
+  if (amounts.length === 0 && percents.length === 0 && terms.length === 0) {
+    return { kind: 'text', text: normalizeText(raw) };
+  }
+
+  return { kind: 'composite', amounts, currency, percents, terms, text: residual };
+}
+
+/**
+ * Key that is equal for values which mean the same thing
+ */
+export function canonicalKey(parsed: ParsedValue): string {
+  switch (parsed.kind) {
+    case 'empty': return 'empty';
+    case 'money': return `money:${parsed.currency}:${parsed.amount}`;
+    case 'percent': return `percent:${parsed.value}`;
+    case 'date': return `date:${parsed.iso}`;
+    case 'term': return `term:${parsed.term}`;
+    case 'composite':
+      return `composite:${parsed.currency}:${parsed.amounts.join('/')}:${parsed.percents.join('/')}:${parsed.terms.join('/')}:${parsed.text}`;
+    case 'text': return `text:${parsed.text}`;
+  }
+}
+
+const TERM_MEANINGS: Record<CoverageTerm, string> = {
+  none: 'no cover / nil amount',
+  covered: 'covered',
+  'not-applicable': 'not applicable',
+  unlimited: 'unlimited',
+};
+
+export function formatParsedValue(parsed: ParsedValue): string {
+  switch (parsed.kind) {
+    case 'empty': return 'not found';
+    case 'money': return `${parsed.currency} ${parsed.amount.toLocaleString('en-US')}`;
+    case 'percent': return `${parsed.value}%`;
+    case 'date': return parsed.iso;
+    case 'term': return TERM_MEANINGS[parsed.term];
+    case 'composite': return 'combined value';
+    case 'text': return parsed.text;
+  }
+}
+
+function describeChange(from: number, to: number, format: (n: number) => string): ValueComparison {
+  const status: ComparisonStatus = to > from ? 'increased' : 'decreased';
+  const pct = from !== 0 ? ` (${to > from ? '+' : ''}${Math.round(((to - from) / from) * 100)}%)` : '';
+  return {
+    status,
+    explanation: `${status === 'increased' ? 'Increased' : 'Decreased'} from ${format(from)} to ${format(to)}${pct}`,
+  };
+}
+
+/**
+ * Compares two field values by meaning rather than by string equality
+ */
+export function compareValues(a: string | null, b: string | null, type?: FieldValueType): ValueComparison {
+  if (a === b) {
+    return a === null
+      ? { status: 'missing', explanation: 'Not found in either document' }
+      : { status: 'same', explanation: 'Identical values' };
+  }
+  if (a === null || b === null) {
+    return { status: 'different', explanation: a === null ? 'Only found in the second document' : 'Only found in the first document' };
+  }
+  if (formatKey(a) === formatKey(b)) {
+    return { status: 'format-only', explanation: `Same value, formatting differs ("${a}" vs "${b}")` };
+  }
+
+  const pa = parseValue(a, type);
+  const pb = parseValue(b, type);
+
+  if (canonicalKey(pa) === canonicalKey(pb)) {
+    if (pa.kind === 'term') {
+      return { status: 'equivalent', explanation: `Both mean ${TERM_MEANINGS[pa.term]} ("${a}" vs "${b}")` };
+    }
+    if (pa.kind === 'date') {
+      return { status: 'format-only', explanation: `Same date (${pa.iso}), written differently` };
+    }
+    if (pa.kind === 'money' || pa.kind === 'percent') {
+      const sameWording = normalizeText(a).replace(FILLER, '').trim() === normalizeText(b).replace(FILLER, '').trim();
+      return sameWording
+        ? { status: 'format-only', explanation: `Same value (${formatParsedValue(pa)}), formatting differs` }
+        : { status: 'equivalent', explanation: `Same value (${formatParsedValue(pa)}), wording differs` };
+    }
+    return { status: 'equivalent', explanation: 'Same amounts and terms, wording differs' };
+  }
+
+  if (pa.kind === 'money' && pb.kind === 'money' && pa.currency === pb.currency) {
+    return describeChange(pa.amount, pb.amount, n => `${pa.currency} ${n.toLocaleString('en-US')}`);
+  }
+  if (pa.kind === 'percent' && pb.kind === 'percent') {
+    // Percentage-point change reads better than a relative change for rates
+    const points = Math.round((pb.value - pa.value) * 100) / 100;
+    return {
+      status: points > 0 ? 'increased' : 'decreased',
+      explanation: `${points > 0 ? 'Increased' : 'Decreased'} from ${pa.value}% to ${pb.value}% (${points > 0 ? '+' : ''}${points} pts)`,
+    };
+  }
+  if (pa.kind === 'date' && pb.kind === 'date') {
+    const days = Math.round((Date.parse(pb.iso) - Date.parse(pa.iso)) / 86_400_000);
+    return {
+      status: days > 0 ? 'increased' : 'decreased',
+      explanation: `${days > 0 ? 'Later' : 'Earlier'} by ${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} (${pa.iso} → ${pb.iso})`,
+    };
+  }
+  if (
+    pa.kind === 'composite' && pb.kind === 'composite' &&
+    pa.text === pb.text && pa.currency === pb.currency &&
+    pa.terms.join('/') === pb.terms.join('/') &&
+    pa.amounts.length === pb.amounts.length && pa.percents.length === pb.percents.length
+  ) {
+    // Same structure, only the numbers moved - report the direction if they all agree
+    const deltas = [
+      ...pa.amounts.map((n, i) => pb.amounts[i] - n),
+      ...pa.percents.map((n, i) => pb.percents[i] - n),
+    ].filter(d => d !== 0);
+    const changes = [
+      ...pa.amounts.map((n, i) => n !== pb.amounts[i] ? `${pa.currency} ${n.toLocaleString('en-US')} → ${pb.amounts[i].toLocaleString('en-US')}` : null),
+      ...pa.percents.map((n, i) => n !== pb.percents[i] ? `${n}% → ${pb.percents[i]}%` : null),
+    ].filter(Boolean).join(', ');
+
+    if (deltas.every(d => d > 0)) return { status: 'increased', explanation: `Increased: ${changes}` };
+    if (deltas.every(d => d < 0)) return { status: 'decreased', explanation: `Decreased: ${changes}` };
+    return { status: 'different', explanation: `Mixed changes: ${changes}` };
+  }
+
+  if (pa.kind === 'term' && pb.kind === 'term') {
+    return { status: 'different', explanation: `Changed from ${TERM_MEANINGS[pa.term]} to ${TERM_MEANINGS[pb.term]}` };
+  }
+  if (pa.kind !== pb.kind && pa.kind !== 'text' && pb.kind !== 'text') {
+    const describe = (parsed: ParsedValue, raw: string) => (parsed.kind === 'composite' ? `"${raw}"` : formatParsedValue(parsed));
+    return { status: 'different', explanation: `Changed from ${describe(pa, a)} to ${describe(pb, b)}` };
+  }
+  return { status: 'different', explanation: 'Different values' };
+}
+
+// Weakest-to-strongest difference, for summarising an N-way comparison
+const AGREEMENT_ORDER: ComparisonStatus[] = ['same', 'format-only', 'equivalent'];
+
+/**
+ * Compares values from N documents against the first one. Returns one overall
+ * status, an explanation, and groups of documents that share a value.
+ */
+export function compareDocumentValues(values: Array<string | null>, type?: FieldValueType): ValueComparison & { groups: number[][] } {
+  const groupsByKey = new Map<string, number[]>();
+  values.forEach((value, idx) => {
+    const key = canonicalKey(parseValue(value, type));
+    const group = groupsByKey.get(key);
+    if (group) group.push(idx);
+    else groupsByKey.set(key, [idx]);
+  });
+  const groups = [...groupsByKey.values()];
+
+  if (values.every(v => v === null)) {
+    return { status: 'missing', explanation: 'Not found in any document', groups };
+  }
+  const missing = values.map((v, idx) => (v === null ? idx + 1 : null)).filter((n): n is number => n !== null);
+  if (missing.length > 0) {
+    return { status: 'different', explanation: `Not found in file${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`, groups };
+  }
+
+  if (values.length === 2) {
+    return { ...compareValues(values[0], values[1], type), groups };
+  }
+
+  const pairwise = values.slice(1).map(v => compareValues(values[0], v, type));
+  const statuses = pairwise.map(p => p.status);
+
+  let status: ComparisonStatus;
+  const agreementLevel = Math.max(...statuses.map(s => AGREEMENT_ORDER.indexOf(s)));
+  if (statuses.every(s => AGREEMENT_ORDER.includes(s))) {
+    status = AGREEMENT_ORDER[agreementLevel];
+  } else if (statuses.every(s => s === 'increased' || AGREEMENT_ORDER.includes(s))) {
+    status = 'increased';
+  } else if (statuses.every(s => s === 'decreased' || AGREEMENT_ORDER.includes(s))) {
+    status = 'decreased';
+  } else {
+    status = 'different';
+  }
+
+  const explanation = status === 'same'
+    ? 'Identical values'
+    : pairwise
+        .map((p, idx) => (p.status === 'same' ? null : `File ${idx + 2} vs file 1: ${p.explanation}`))
+        .filter(Boolean)
+        .join('; ');
+
+  return { status, explanation, groups };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { needsRevalidation, tallyVotes, toVote } from "@/lib/voting";
+
+const DEDUCTIBLE: FieldDefinition = { name: 'Deductible', type: 'money', synonyms: [] };
+
+describe('toVote', () => {
+  it('counts missing, empty and "null" answers as null', () => {
+    expect(toVote(undefined)).toBeNull();
+    expect(toVote('  ')).toBeNull();
+    expect(toVote('NULL')).toBeNull();
+    expect(toVote(' QAR 50 ')).toBe('QAR 50');
+    expect(toVote(20)).toBe('20');
+  });
+});
+
+describe('tallyVotes', () => {
+  it('groups votes by meaning and keeps the latest wording', () => {
+    expect(tallyVotes(['QAR 7,500', 'QAR 7500', 'QAR 5,000'], 'money')).toEqual({
+      value: 'QAR 7500',
+      agreement: 0.67,
+      votes: ['QAR 7,500', 'QAR 7500', 'QAR 5,000'],
+    });
+  });
+
+  it('breaks a tie in favour of a found value', () => {
+    expect(tallyVotes(['20%', null]).value).toBe('20%');
+    expect(tallyVotes([null, '20%']).value).toBe('20%');
+  });
+
+  it('breaks a tie between values in favour of the later pass', () => {
+    expect(tallyVotes(['10%', '20%']).value).toBe('20%');
+  });
+
+  it('returns nothing for no votes', () => {
+    expect(tallyVotes([])).toEqual({ value: null, agreement: 0, votes: [] });
+  });
+});
+
+describe('needsRevalidation', () => {
+  it('asks again when passes disagree, nothing was found or the type is wrong', () => {
+    expect(needsRevalidation(DEDUCTIBLE, tallyVotes(['QAR 50', 'QAR 50']))).toBe(false);
+    expect(needsRevalidation(DEDUCTIBLE, tallyVotes(['QAR 50', 'QAR 60']))).toBe(true);
+    expect(needsRevalidation(DEDUCTIBLE, tallyVotes([null, null]))).toBe(true);
+    expect(needsRevalidation(DEDUCTIBLE, tallyVotes(['01/01/2024']))).toBe(true);
+  });
+});
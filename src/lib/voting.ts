@@ -0,0 +1,57 @@
+// Multi-pass voting: each field is read by several independent passes and the
+// value most passes agree on wins. Values are grouped by meaning, so
+// "QAR 7,500" and "QAR 7500" are the same vote.
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { validateFieldValue } from "@/lib/fieldTypes";
+import { canonicalKey, parseValue } from "@/lib/valueComparison";
+
+// 'independent': VOTING_PASSES full extractions; 'single-field': one extraction plus a focused call per field
+export type VotingMode = 'off' | 'independent' | 'single-field';
+
+export interface FieldVote {
+  value: string | null;         // Winning value, as its latest vote wrote it
+  agreement: number;            // Share of votes for the winning value, 0-1
+  votes: Array<string | null>;  // One per pass, in pass order
+}
+
+/**
+ * Model output as a vote: missing and empty answers are a vote for null
+ */
+export function toVote(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text && text.toLowerCase() !== 'null' ? text : null;
+}
+
+/**
+ * The value with the most votes. Ties go to a found value over null, then to
+ * the group with the latest vote - a later pass (single-field, revalidation)
+ * has looked closer than the one before it.
+ */
+export function tallyVotes(votes: Array<string | null>, type?: FieldDefinition['type']): FieldVote {
+  const groups = new Map<string, number[]>();
+  votes.forEach((vote, idx) => {
+    const key = vote === null ? 'null' : canonicalKey(parseValue(vote, type));
+    groups.set(key, [...(groups.get(key) ?? []), idx]);
+  });
+
+  const [winner] = [...groups.values()].sort((a, b) =>
+    b.length - a.length ||
+    Number(votes[b[0]] !== null) - Number(votes[a[0]] !== null) ||
+    b[b.length - 1] - a[a.length - 1]
+  );
+  if (!winner) return { value: null, agreement: 0, votes };
+  return {
+    value: votes[winner[winner.length - 1]],
+    agreement: Math.round((winner.length / votes.length) * 100) / 100,
+    votes,
+  };
+}
+
+/**
+ * Fields worth another look: passes disagree, nothing was found, or the value
+ * is not of the field's type
+ */
+export function needsRevalidation(def: FieldDefinition, vote: FieldVote): boolean {
+  return vote.agreement < 1 || vote.value === null || !validateFieldValue(def, vote.value).valid;
+}
@@ -0,0 +1,126 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FolderOpen, History as HistoryIcon, Search, Trash2 } from "lucide-react";
+import {
+  clearExtractionHistory,
+  deleteExtractionRun,
+  loadExtractionHistory,
+  runIdentifiers,
+  searchExtractionHistory,
+} from "@/lib/extractionHistory";
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const History = () => {
+  const [runs, setRuns] = useState(() => loadExtractionHistory());
+  const [query, setQuery] = useState("");
+  const navigate = useNavigate();
+
+  const visibleRuns = useMemo(() => searchExtractionHistory(runs, query), [runs, query]);
+
+  const handleDelete = (id: string) => {
+    deleteExtractionRun(id);
+    setRuns(loadExtractionHistory());
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(`Delete all ${runs.length} saved runs?`)) return;
+    clearExtractionHistory();
+    setRuns([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-12 max-w-6xl space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" /> Extractor
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold tracking-tight">History</h1>
+          <Button size="sm" variant="outline" className="ml-auto text-destructive" disabled={runs.length === 0} onClick={handleClear}>
+            <Trash2 className="h-4 w-4 mr-2" /> Clear History
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <HistoryIcon className="h-5 w-5 text-primary" /> Past runs ({visibleRuns.length}{query && ` of ${runs.length}`})
+              <div className="ml-auto relative w-full max-w-xs">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search policy number, client, file..."
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="pl-8 h-9"
+                />
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {visibleRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                {runs.length === 0 ? "No extractions yet - results are saved here after every run." : "No runs match your search."}
+              </p>
+            ) : (
+              <div className="rounded-lg border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border">
+                      <TableHead className="font-semibold text-foreground">File</TableHead>
+                      <TableHead className="font-semibold text-foreground">Payer Plan</TableHead>
+                      <TableHead className="font-semibold text-foreground">Policy No</TableHead>
+                      <TableHead className="font-semibold text-foreground">Client</TableHead>
+                      <TableHead className="font-semibold text-foreground">Date</TableHead>
+                      <TableHead className="font-semibold text-foreground">Fields</TableHead>
+                      <TableHead className="font-semibold text-foreground">Duration</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRuns.map((run) => {
+                      const { policyNumber, client } = runIdentifiers(run);
+                      return (
+                        <TableRow key={run.id} className="border-border hover:bg-muted/50">
+                          <TableCell className="font-medium text-foreground">{run.fileName}</TableCell>
+                          <TableCell className="text-muted-foreground">{run.payerPlan}</TableCell>
+                          <TableCell className="text-muted-foreground">{policyNumber ?? "—"}</TableCell>
+                          <TableCell className="text-muted-foreground">{client ?? "—"}</TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {run.fieldsFound}/{run.fieldsTotal}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">
+                            {formatDuration(run.durationMs)}
+                            {run.cached && <Badge variant="outline" className="ml-1">Cached</Badge>}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-right">
+                            <Button size="sm" variant="outline" onClick={() => navigate(`/?run=${run.id}`)}>
+                              <FolderOpen className="h-4 w-4 mr-1" /> Open
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-9 w-9 p-0 ml-1" onClick={() => handleDelete(run.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default History;
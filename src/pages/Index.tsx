@@ -1,14 +1,19 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { FileText, Zap, ArrowRight, Info, Search, Plus, X, Download, Copy } from "lucide-react";
+import { FileText, Zap, ArrowRight, Info, Search, Plus, X, Download, Copy, FileJson, Save, FileCheck, Settings2, RefreshCw, Trash2, History, GitCompare } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { PayerPlanSelector } from "@/components/PayerPlanSelector";
-import { PDFUploader } from "@/components/PDFUploader";
+import { PDFUploader, type UploadMode } from "@/components/PDFUploader";
+import { BatchResultsTable } from "@/components/BatchResultsTable";
+import { RenewalReportView } from "@/components/RenewalReportView";
 import { ExtractedDataTable } from "@/components/ExtractedDataTable";
+import { PDFViewer, type PDFHighlightTarget } from "@/components/PDFViewer";
 import { useToast } from "@/hooks/use-toast";
 import {
   PAYER_PLANS,
@@ -16,23 +21,69 @@ import {
   FIELD_SUGGESTIONS,
   type PayerPlan,
   type ExtractedData,
-  type ComparisonResult,
+  type DocumentComparisonResult,
+  type ExtractionProvenance,
+  type FieldReview,
+  type ReviewStatus,
+  type ExtractionRun,
 } from "@/constants/fields";
-import { extractDataApi, compareDataApi } from "@/services/extractionApi";
+import { extractDataDetailedApi, extractPdfTextApi, compareDocumentsApi, compareExtractedDocuments } from "@/services/extractionApi";
+import { generateRenewalReportApi, type RenewalReport } from "@/services/renewalReport";
+import { createBatchJobs, runBatchExtraction, batchToRows, type BatchJob } from "@/services/batchExtraction";
+import { toCsv, comparisonToRows, type ExportRow } from "@/lib/tableExport";
+import { createFieldReviews, reviewField, saveReviewedRecord, toExpectedResults, expectedFileName } from "@/lib/reviews";
+import { loadPayerPlans } from "@/lib/payerPlans";
+import { hashFile, invalidateExtractionCache } from "@/lib/extractionCache";
+import { examplesFromReview, saveFewShotExamples } from "@/lib/fewShotStore";
+import { findExtractionRun, recordExtractionRun } from "@/lib/extractionHistory";
+import { locatedText } from "@/lib/provenance";
+import { fieldNames, fieldSynonyms } from "@/constants/fieldSchema";
+import { LLM_PROVIDER_OPTIONS, type LLMProviderConfig, type LLMProviderKind } from "@/services/llm";
+
+// When set, extraction runs on this server and users enter an access token instead of an LLM key
+const EXTRACTION_SERVER_URL: string | undefined = import.meta.env.VITE_EXTRACTION_API_URL;
 
 const Index = () => {
+  // Opened from the History page as /?run=<id>
+  const [searchParams] = useSearchParams();
+  const [initialRun] = useState(() => {
+    const runId = searchParams.get("run");
+    return runId ? findExtractionRun(runId) ?? null : null;
+  });
   const [openAiKey, setOpenAiKey] = useState<string>("");
+  const [providerKind, setProviderKind] = useState<LLMProviderKind>("openai");
+  const [localBaseUrl, setLocalBaseUrl] = useState<string>("");
   const [payerPlan, setPayerPlan] = useState<PayerPlan>(PAYER_PLANS.QLM);
-  const [uploadMode, setUploadMode] = useState<"single" | "compare">("single");
+  const [savedPlans] = useState(() => loadPayerPlans());
+  const [savedPlanId, setSavedPlanId] = useState<string | null>(null);
+  const [uploadMode, setUploadMode] = useState<UploadMode>("single");
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
-  const [comparisonResults, setComparisonResults] = useState<ComparisonResult[] | null>(null);
+  const [extractedData, setExtractedData] = useState<ExtractedData | null>(initialRun?.data ?? null);
+  const [provenance, setProvenance] = useState<ExtractionProvenance | null>(initialRun?.provenance ?? null);
+  // Run whose result is shown - kept so it can be compared with a new file
+  const [currentRun, setCurrentRun] = useState<ExtractionRun | null>(initialRun);
+  const [fromCache, setFromCache] = useState(false);
+  const [comparisonResults, setComparisonResults] = useState<DocumentComparisonResult[] | null>(null);
+  // Set when comparing a saved run, whose file isn't among the uploaded files
+  const [comparisonNames, setComparisonNames] = useState<string[] | null>(null);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[] | null>(null);
+  const [renewalReport, setRenewalReport] = useState<RenewalReport | null>(null);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<Record<string, FieldReview> | null>(() => (initialRun ? createFieldReviews(initialRun.data) : null));
+  const [reviewMeta, setReviewMeta] = useState<{ id: string; createdAt: string } | null>(() =>
+    initialRun ? { id: crypto.randomUUID(), createdAt: new Date().toISOString() } : null
+  );
+  const compareInput = useRef<HTMLInputElement>(null);
+  const [reviewer, setReviewer] = useState<string>(() => localStorage.getItem("reviewerName") || "");
   const [customPlanName, setCustomPlanName] = useState<string>("");
   const [customFields, setCustomFields] = useState<string[]>([""]);
 console.log('files', files)
   const { toast } = useToast();
   const resolvedCustomFields = customFields.filter((f) => f.trim() !== "");
+  const activePlan = savedPlans.find((plan) => plan.id === savedPlanId) ?? null;
+  const isCustom = !activePlan && payerPlan === PAYER_PLANS.CUSTOM;
+  const planName = activePlan?.name ?? (isCustom ? customPlanName || payerPlan : payerPlan);
 
   const addCustomField = () => setCustomFields([...customFields, ""]);
   const removeCustomField = (index: number) =>
@@ -43,37 +94,143 @@ console.log('files', files)
     setCustomFields(newFields);
   };
 
-  const handleExtract = async () => {
+  const buildPlanRequest = (): ExtractionRun["request"] =>
+    activePlan
+      ? { schema: activePlan.fields, payerPlan: activePlan.basePlan, payerPlanName: activePlan.name }
+      : {
+          fields: isCustom ? resolvedCustomFields : undefined,
+          payerPlan: !isCustom ? payerPlan : undefined,
+          payerPlanName: isCustom ? customPlanName : undefined,
+        };
+
+  const buildRequestParams = (plan = buildPlanRequest()) => {
+    if (EXTRACTION_SERVER_URL) {
+      return { ...plan, apiKey: "", server: { url: EXTRACTION_SERVER_URL, token: openAiKey } };
+    }
+    const provider: LLMProviderConfig = {
+      kind: providerKind,
+      baseUrl: providerKind === "local" && localBaseUrl ? localBaseUrl : undefined,
+    };
+    return { ...plan, apiKey: openAiKey, provider };
+  };
+
+  const runBatch = async (jobs: BatchJob[]) => {
+    setBatchJobs(jobs);
+    const results = await runBatchExtraction(jobs, buildRequestParams(), {
+      onUpdate: (job) => setBatchJobs((prev) => prev?.map((j) => (j.id === job.id ? job : j)) ?? null),
+    });
+    setBatchJobs(results);
+
+    // Jobs finished in this run (a retry skips the ones already done)
+    const plan = buildPlanRequest();
+    results
+      .filter((job, idx) => job.status === "done" && job.data && jobs[idx].status !== "done")
+      .forEach((job) =>
+        recordExtractionRun({
+          fileName: job.file.name,
+          payerPlan: planName,
+          request: plan,
+          durationMs: (job.finishedAt ?? Date.now()) - (job.startedAt ?? Date.now()),
+          cached: job.cached,
+          data: job.data!,
+          promptVersions: job.promptVersions,
+        })
+      );
+
+    const failed = results.filter((job) => job.status === "failed").length;
+    toast({
+      title: failed ? `Batch finished with ${failed} failed file(s)` : "Batch finished",
+      description: `${results.length - failed}/${results.length} files extracted`,
+      variant: failed ? "destructive" : "default",
+    });
+  };
+
+  const retryFailedBatch = async () => {
+    if (!batchJobs) return;
+    setIsProcessing(true);
+    try {
+      await runBatch(batchJobs);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const keyMissing = !openAiKey && (EXTRACTION_SERVER_URL || providerKind !== "local");
+  const keyMissingToast = () =>
+    toast({ title: EXTRACTION_SERVER_URL ? "Enter your access token" : "Enter Rapid-Secret key", variant: "destructive" });
+
+  // refresh skips cached results and extracts again
+  const handleExtract = async (refresh = false) => {
     if (!files.length) return toast({ title: "No files selected", variant: "destructive" });
-    if (!openAiKey) return toast({ title: "Enter Rapid-Secret key", variant: "destructive" });
+    if (keyMissing) return keyMissingToast();
     if (uploadMode === "compare" && files.length < 2)
-      return toast({ title: "Upload two files for comparison", variant: "destructive" });
+      return toast({ title: "Upload at least two files for comparison", variant: "destructive" });
+    if (uploadMode === "renewal" && files.length !== 2)
+      return toast({ title: "Upload last year's and this year's schedule", variant: "destructive" });
 console.log('++++++++++++++++++++++++++++++')
     setIsProcessing(true);
-    const isCustom = payerPlan === PAYER_PLANS.CUSTOM;
+    setSelectedField(null);
+    const params = { ...buildRequestParams(), refresh };
+    setRenewalReport(null);
+    setFromCache(false);
+    setCurrentRun(null);
+    setComparisonNames(null);
 
     try {
-      if (uploadMode === "single") {
-        const data = await extractDataApi({
+      if (uploadMode === "renewal") {
+        const report = await generateRenewalReportApi({
+          previousFile: files[0],
+          currentFile: files[1],
+          ...params,
+        });
+        setRenewalReport(report);
+        setExtractedData(null);
+        setProvenance(null);
+        setReviews(null);
+        setComparisonResults(null);
+        setBatchJobs(null);
+      } else if (uploadMode === "batch") {
+        setExtractedData(null);
+        setProvenance(null);
+        setReviews(null);
+        setComparisonResults(null);
+        await runBatch(createBatchJobs(files));
+      } else if (uploadMode === "single") {
+        const startedAt = Date.now();
+        const { data, provenance: fieldProvenance, cached, promptVersions } = await extractDataDetailedApi({
           file: files[0],
-          apiKey: openAiKey,
-          fields: isCustom ? resolvedCustomFields : undefined,
-          payerPlan: !isCustom ? payerPlan : undefined,
-          payerPlanName: isCustom ? customPlanName : undefined,
+          ...params,
         });
+        setCurrentRun(
+          recordExtractionRun({
+            fileName: files[0].name,
+            payerPlan: planName,
+            request: buildPlanRequest(),
+            durationMs: Date.now() - startedAt,
+            cached,
+            data,
+            provenance: fieldProvenance,
+            promptVersions,
+          })
+        );
         setExtractedData(data);
+        setProvenance(fieldProvenance);
+        setFromCache(Boolean(cached));
+        setReviews(createFieldReviews(data));
+        setReviewMeta({ id: crypto.randomUUID(), createdAt: new Date().toISOString() });
         setComparisonResults(null);
+        setBatchJobs(null);
       } else {
-        const results = await compareDataApi({
-          file1: files[0],
-          file2: files[1],
-          apiKey: openAiKey,
-          fields: isCustom ? resolvedCustomFields : undefined,
-          payerPlan: !isCustom ? payerPlan : undefined,
-          payerPlanName: isCustom ? customPlanName : undefined,
+        const results = await compareDocumentsApi({
+          files,
+          ...params,
         });
         setComparisonResults(results);
+        setComparisonNames(files.map((file) => file.name));
         setExtractedData(null);
+        setProvenance(null);
+        setReviews(null);
+        setBatchJobs(null);
       }
     } catch (err) {
       console.error(err);
@@ -83,41 +240,109 @@ console.log('++++++++++++++++++++++++++++++')
     }
   };
 
-  const canProcess = files.length > 0 && (uploadMode === "single" || files.length === 2);
+  /**
+   * Extracts a new file with the shown run's plan and fields, and compares the two
+   */
+  const compareWithNewFile = async (file: File | undefined) => {
+    if (compareInput.current) compareInput.current.value = "";
+    if (!file || !currentRun || !extractedData) return;
+    if (keyMissing) return keyMissingToast();
 
-  const presetFields = FIELD_MAPPINGS[payerPlan] || [];
-  const presetSuggestions = FIELD_SUGGESTIONS[payerPlan] || [];
+    setIsProcessing(true);
+    setSelectedField(null);
+    try {
+      // Stored runs lose undefined keys - spell them out so the selector's plan can't leak in
+      const { fields, schema, payerPlan: runPlan, payerPlanName } = currentRun.request;
+      const request = { fields, schema, payerPlan: runPlan, payerPlanName };
+      const startedAt = Date.now();
+      const { data, provenance: fieldProvenance, cached, promptVersions } = await extractDataDetailedApi({ file, ...buildRequestParams(request) });
+      recordExtractionRun({
+        fileName: file.name,
+        payerPlan: currentRun.payerPlan,
+        request,
+        durationMs: Date.now() - startedAt,
+        cached,
+        data,
+        provenance: fieldProvenance,
+        promptVersions,
+      });
+
+      setComparisonResults(compareExtractedDocuments([extractedData, data], request));
+      setComparisonNames([currentRun.fileName, file.name]);
+      setExtractedData(null);
+      setProvenance(null);
+      setReviews(null);
+      setFromCache(false);
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Extraction failed", description: err instanceof Error ? err.message : "Error", variant: "destructive" });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Where the selected field's value came from, for the side-by-side viewer
+  const selectedProvenance = selectedField ? provenance?.[selectedField] : undefined;
+  const fieldsFromTables = provenance ? Object.values(provenance).filter((source) => source.pass === "table").length : 0;
+  // Search for the text the page was located by - the raw model output when the value was normalized.
+  // Memoized so the viewer only re-scrolls when the target changes.
+  const highlightPage = selectedProvenance?.page;
+  const highlightText = selectedProvenance ? locatedText(selectedProvenance) : null;
+  const highlightTarget = useMemo<PDFHighlightTarget | null>(
+    () => (selectedField && highlightPage ? { field: selectedField, page: highlightPage, text: highlightText ?? null } : null),
+    [selectedField, highlightPage, highlightText]
+  );
+
+  const canProcess = files.length > 0 && (uploadMode !== "compare" || files.length >= 2) && (uploadMode !== "renewal" || files.length === 2);
+  const hasResults = Boolean(extractedData || comparisonResults || batchJobs || renewalReport);
+
+  const presetFields = activePlan ? fieldNames(activePlan.fields) : FIELD_MAPPINGS[payerPlan] || [];
+  const presetSuggestions = activePlan ? fieldSynonyms(activePlan.fields) : FIELD_SUGGESTIONS[payerPlan] || [];
+  // Names of the compared documents - not the uploads, which may have changed since
+  const comparisonFileNames = comparisonNames ?? [];
+  const resultFileName = currentRun?.fileName ?? files[0]?.name;
+  // The PDF the shown result was extracted from - not shown when it is no longer uploaded
+  const resultFile = currentRun ? files.find((f) => f.name === currentRun.fileName) : undefined;
+  // A run restored from history keeps its own plan, whatever the selector shows
+  const resultPlanName = currentRun?.payerPlan ?? planName;
+  const batchFields = isCustom ? resolvedCustomFields : presetFields;
 
   const downloadData = () => {
-    let dataToExport: any[] = [];
+    let dataToExport: ExportRow[] = [];
     if (extractedData) {
-      dataToExport = Object.entries(extractedData).map(([key, value]) => ({ Field: key, Value: value }));
+      dataToExport = Object.entries(extractedData).map(([key, value]) => {
+        const source = provenance?.[key];
+        const review = reviews?.[key];
+        return {
+          Field: key,
+          Value: review ? review.value : value,
+          Review: review?.status ?? null,
+          "Raw Value": source?.rawValue ?? null,
+          Page: source?.page ?? null,
+          Source: source?.source ?? null,
+          Snippet: source?.snippet ?? null,
+          Confidence: source ? source.confidence : null,
+          Pass: source?.pass ?? null,
+        };
+      });
     } else if (comparisonResults) {
-      dataToExport = comparisonResults.map((result, index) => ({
-        Comparison: `File ${index + 1}`,
-        ...result,
+      dataToExport = comparisonToRows(comparisonResults, comparisonFileNames);
+    } else if (batchJobs) {
+      dataToExport = batchToRows(batchJobs, batchFields);
+    } else if (renewalReport) {
+      dataToExport = renewalReport.changes.map((change) => ({
+        Benefit: change.field,
+        Previous: change.previous,
+        Renewal: change.current,
+        Impact: change.impact,
+        Change: change.label,
+        Explanation: change.explanation,
       }));
     }
 
     if (dataToExport.length === 0) return;
 
-    // Helper function to properly escape CSV values
-    const escapeCsvValue = (value: any): string => {
-      if (value === null || value === undefined) return '';
-      const stringValue = String(value);
-      // If the value contains comma, newline, or quotes, wrap it in quotes and escape internal quotes
-      if (stringValue.includes(',') || stringValue.includes('\n') || stringValue.includes('"')) {
-        return `"${stringValue.replace(/"/g, '""')}"`;
-      }
-      return stringValue;
-    };
-
-    const csv = [
-      Object.keys(dataToExport[0]).join(","),
-      ...dataToExport.map((row) => 
-        Object.values(row).map(escapeCsvValue).join(",")
-      ),
-    ].join("\n");
+    const csv = toCsv(dataToExport);
     const blob = new Blob([csv], { type: "text/csv" });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -127,6 +352,32 @@ console.log('++++++++++++++++++++++++++++++')
     window.URL.revokeObjectURL(url);
   };
 
+  const downloadJson = () => {
+    const payload = extractedData
+      ? {
+          fileName: resultFileName,
+          payerPlan: resultPlanName,
+          extractedAt: new Date().toISOString(),
+          fields: Object.keys(extractedData).map((field) => ({
+            field,
+            ...(provenance?.[field] ?? { value: extractedData[field] }),
+          })),
+        }
+      : comparisonResults ??
+        batchJobs?.map((job) => ({ fileName: job.file.name, status: job.status, error: job.error ?? null, data: job.data ?? null })) ??
+        renewalReport;
+
+    if (!payload) return;
+
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `extracted_data_${new Date().toISOString().split("T")[0]}.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   const copyToClipboard = () => {
     let textToCopy = "";
     if (extractedData) {
@@ -135,8 +386,19 @@ console.log('++++++++++++++++++++++++++++++')
         .join("\n");
     } else if (comparisonResults) {
       textToCopy = comparisonResults
-        .map((result, index) => `File ${index + 1}:\n${Object.entries(result).map(([k, v]) => `${k}: ${v}`).join("\n")}`)
+        .map((result) => `${result.field} (${result.status}${result.status !== "same" ? ` - ${result.explanation}` : ""}):\n${result.values.map((v, idx) => `  ${comparisonFileNames[idx]}: ${v}`).join("\n")}`)
         .join("\n\n");
+    } else if (batchJobs) {
+      // Tab-separated so it pastes straight into a spreadsheet
+      const rows = batchToRows(batchJobs, batchFields);
+      textToCopy = [Object.keys(rows[0] ?? {}), ...rows.map((row) => Object.values(row).map((v) => v ?? ""))]
+        .map((cells) => cells.join("\t"))
+        .join("\n");
+    } else if (renewalReport) {
+      textToCopy = renewalReport.changes
+        .filter((change) => change.impact !== "unchanged")
+        .map((change) => `${change.field}: ${change.label} (${change.previous ?? "not found"} → ${change.current ?? "not found"})`)
+        .join("\n");
     }
 
     if (textToCopy) {
@@ -146,15 +408,93 @@ console.log('++++++++++++++++++++++++++++++')
       );
     }
   };
+  const handleReview = (field: string, status: Exclude<ReviewStatus, "pending">, value?: string | null) => {
+    if (!reviews) return;
+    if (!reviewer.trim()) return toast({ title: "Enter your name before reviewing", variant: "destructive" });
+    setReviews(reviewField(reviews, field, { status, value, reviewer: reviewer.trim() }));
+  };
+
+  const buildReviewedRecord = () => {
+    if (!reviews || !reviewMeta) return null;
+    if (!reviewer.trim()) {
+      toast({ title: "Enter your name before saving the review", variant: "destructive" });
+      return null;
+    }
+    return {
+      id: reviewMeta.id,
+      pdfName: resultFileName ?? "document.pdf",
+      payerPlan: resultPlanName,
+      reviewer: reviewer.trim(),
+      createdAt: reviewMeta.createdAt,
+      updatedAt: new Date().toISOString(),
+      fields: reviews,
+    };
+  };
+
+  const saveReview = async () => {
+    const record = buildReviewedRecord();
+    if (!record) return;
+    try {
+      saveReviewedRecord(record);
+      // Verified values become few-shot examples; a run reopened from history has no file to read
+      const file = files.find((f) => f.name === record.pdfName);
+      if (file && provenance) {
+        const [fileHash, pdfText] = await Promise.all([hashFile(file), extractPdfTextApi(file)]);
+        saveFewShotExamples(examplesFromReview(record, provenance, fileHash, pdfText));
+      }
+      toast({ title: "Review saved", description: `${record.pdfName} reviewed by ${record.reviewer}` });
+    } catch (err) {
+      // e.g. localStorage quota exceeded
+      console.error(err);
+      toast({ title: "Saving the review failed", description: err instanceof Error ? err.message : "Error", variant: "destructive" });
+    }
+  };
+
+  const downloadExpected = () => {
+    const record = buildReviewedRecord();
+    if (!record || !currentRun) return;
+    const expected = toExpectedResults(record, currentRun.request);
+    if (Object.keys(expected.expectedFields).length === 0) {
+      return toast({ title: "Accept or correct at least one field first", variant: "destructive" });
+    }
+
+    const blob = new Blob([JSON.stringify(expected, null, 2)], { type: "application/json" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = expectedFileName(record.pdfName);
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const clearCache = async () => {
+    try {
+      await invalidateExtractionCache();
+      setFromCache(false);
+      toast({ title: "Extraction cache cleared", description: "The next extraction re-reads every file" });
+    } catch (err) {
+      toast({ title: "Could not clear the cache", description: err instanceof Error ? err.message : "Error", variant: "destructive" });
+    }
+  };
+
   // Reset 
-  const handlePayerPlanChange = (value) => {
+  const handlePayerPlanChange = (value: string) => {
+    // Saved plans are listed as "saved:<id>"
+    const saved = savedPlans.find((plan) => `saved:${plan.id}` === value);
+    setSavedPlanId(saved?.id ?? null);
+    if (saved) return setPayerPlan(saved.basePlan ?? PAYER_PLANS.CUSTOM);
+
     if (value === PAYER_PLANS.CUSTOM) {
       setExtractedData(null);
+      setProvenance(null);
+      setReviews(null);
       setComparisonResults(null);
+      setBatchJobs(null);
+      setRenewalReport(null);
       setCustomFields([""]);
       setCustomPlanName("");
     }
-    setPayerPlan(value);
+    setPayerPlan(value as PayerPlan);
   };
 
   return (
@@ -190,30 +530,62 @@ console.log('++++++++++++++++++++++++++++++')
                 <CardContent className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="openai-key" className="text-sm font-medium text-foreground">
-                    Rapid-Secret Key
+                    {EXTRACTION_SERVER_URL ? "Access Token" : "Rapid-Secret Key"}
                   </Label>
                   <Input
                     id="openai-key"
                     type="password"
-                    placeholder="Enter your Rapid-Secret key"
+                    placeholder={EXTRACTION_SERVER_URL ? "Enter the access token you were given" : "Enter your Rapid-Secret key"}
                     value={openAiKey}
                     onChange={(e) => setOpenAiKey(e.target.value)}
                     className="w-full bg-card border-border shadow-sm"
                   />
                 </div>
+                  {/* The extraction server picks the provider itself */}
+                  {!EXTRACTION_SERVER_URL && (
+                    <PayerPlanSelector
+                      label="LLM Provider"
+                      value={providerKind}
+                      onValueChange={(value) => setProviderKind(value as LLMProviderKind)}
+                      options={LLM_PROVIDER_OPTIONS}
+                    />
+                  )}
+
+                  {!EXTRACTION_SERVER_URL && providerKind === "local" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="local-base-url">Local server URL</Label>
+                      <Input
+                        id="local-base-url"
+                        placeholder="http://localhost:11434/v1"
+                        value={localBaseUrl}
+                        onChange={(e) => setLocalBaseUrl(e.target.value)}
+                      />
+                    </div>
+                  )}
                   <Separator />
 
                   <PayerPlanSelector
-                    value={payerPlan}
+                    value={activePlan ? `saved:${activePlan.id}` : payerPlan}
                     onValueChange={handlePayerPlanChange}
                     options={[
                       { value: PAYER_PLANS.QLM, label: "QLM" },
                       { value: PAYER_PLANS.ALKOOT, label: "ALKOOT" },
+                      ...savedPlans.map((plan) => ({ value: `saved:${plan.id}`, label: `${plan.name} (v${plan.version})` })),
                       { value: PAYER_PLANS.CUSTOM, label: "Custom Input" },
                     ]}
                   />
+                  <Button variant="link" size="sm" className="h-auto p-0" asChild>
+                    <Link to="/payer-plans">
+                      <Settings2 className="h-4 w-4 mr-1" /> Manage payer plans
+                    </Link>
+                  </Button>
+                  <Button variant="link" size="sm" className="h-auto p-0 ml-4" asChild>
+                    <Link to="/history">
+                      <History className="h-4 w-4 mr-1" /> Past extractions
+                    </Link>
+                  </Button>
 
-                  {payerPlan === PAYER_PLANS.CUSTOM && (
+                  {isCustom && (
                     <div className="space-y-4">
                       <div>
                         <Label htmlFor="custom-plan-name">Payer Plan Name</Label>
@@ -231,28 +603,43 @@ console.log('++++++++++++++++++++++++++++++')
 
                   <PDFUploader mode={uploadMode} onModeChange={setUploadMode} files={files} onFilesChange={setFiles} isLoading={isProcessing} />
 
-                  <Button onClick={handleExtract} disabled={!canProcess || isProcessing} className="w-full mt-2">
-                    {isProcessing ? "Processing..." : uploadMode === "single" ? "Extract Data" : "Compare Files"}
+                  <Button onClick={() => handleExtract()} disabled={!canProcess || isProcessing} className="w-full mt-2">
+                    {isProcessing
+                      ? "Processing..."
+                      : uploadMode === "single"
+                        ? "Extract Data"
+                        : uploadMode === "batch"
+                          ? `Extract ${files.length} File${files.length === 1 ? "" : "s"}`
+                          : uploadMode === "renewal"
+                            ? "Build Renewal Report"
+                            : "Compare Files"}
                   </Button>
+                  {!EXTRACTION_SERVER_URL && (
+                    <Button variant="ghost" size="sm" onClick={clearCache} disabled={isProcessing} className="w-full text-muted-foreground">
+                      <Trash2 className="h-4 w-4 mr-2" /> Clear extraction cache
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
+
+              {extractedData && resultFile && <PDFViewer file={resultFile} target={highlightTarget} />}
             </div>
 
             {/* Right Panel */}
             <div className="space-y-6">
-              {!extractedData && !comparisonResults && (
+              {!hasResults && (
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Search className="h-5 w-5 text-primary" />
-                      {payerPlan === PAYER_PLANS.CUSTOM
+                      {isCustom
                         ? `Custom Extraction (${resolvedCustomFields.length})`
                         : `Expected Fields (${presetFields.length})`}
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="max-h-96 overflow-y-auto space-y-4">
                     <TooltipProvider>
-                      {payerPlan === PAYER_PLANS.CUSTOM ? (
+                      {isCustom ? (
                         <div className="space-y-4">
                           <div>
                             <div className="flex items-center justify-between mb-3">
@@ -346,25 +733,84 @@ console.log('++++++++++++++++++++++++++++++')
                 </Card>
               )}
 
-              {(extractedData || comparisonResults) && (
+              {hasResults && (
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <FileText className="h-5 w-5 text-primary" /> Extracted Data
+                      {fromCache && extractedData && (
+                        <Badge variant="outline" title="Reused an earlier extraction of this file - no LLM calls made">Cached</Badge>
+                      )}
+                      {extractedData && fieldsFromTables > 0 && (
+                        <Badge variant="outline" title="Read directly from tables in the PDF, without a model call">
+                          {fieldsFromTables} from tables
+                        </Badge>
+                      )}
                       <div className="ml-auto flex gap-2">
-                        <Button size="sm" onClick={downloadData} disabled={!extractedData && !comparisonResults}>
+                        {currentRun && extractedData && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => compareInput.current?.click()} disabled={isProcessing}>
+                              <GitCompare className="h-4 w-4 mr-2" /> Compare with new file
+                            </Button>
+                            <input
+                              ref={compareInput}
+                              type="file"
+                              accept="application/pdf,.pdf"
+                              className="hidden"
+                              onChange={(e) => compareWithNewFile(e.target.files?.[0])}
+                            />
+                          </>
+                        )}
+                        {fromCache && extractedData && files.length > 0 && (
+                          <Button size="sm" variant="outline" onClick={() => handleExtract(true)} disabled={isProcessing}>
+                            <RefreshCw className="h-4 w-4 mr-2" /> Re-extract
+                          </Button>
+                        )}
+                        <Button size="sm" onClick={downloadData} disabled={!hasResults}>
                           <Download className="h-4 w-4 mr-2" /> Download
                         </Button>
-                        <Button size="sm" onClick={copyToClipboard} disabled={!extractedData && !comparisonResults}>
+                        <Button size="sm" onClick={downloadJson} disabled={!hasResults}>
+                          <FileJson className="h-4 w-4 mr-2" /> JSON
+                        </Button>
+                        <Button size="sm" onClick={copyToClipboard} disabled={!hasResults}>
                           <Copy className="h-4 w-4 mr-2" /> Copy
                         </Button>
+                        {reviews && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={saveReview}>
+                              <Save className="h-4 w-4 mr-2" /> Save Review
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={downloadExpected}>
+                              <FileCheck className="h-4 w-4 mr-2" /> Expected JSON
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    {extractedData && <ExtractedDataTable mode="single" data={extractedData} fileName={files[0]?.name} payerPlan={payerPlan} />}
+                    {reviews && (
+                      <div className="mb-4 flex items-center gap-2">
+                        <Label htmlFor="reviewer-name" className="whitespace-nowrap text-sm">Reviewer</Label>
+                        <Input
+                          id="reviewer-name"
+                          placeholder="Your name"
+                          value={reviewer}
+                          onChange={(e) => {
+                            setReviewer(e.target.value);
+                            localStorage.setItem("reviewerName", e.target.value);
+                          }}
+                          className="h-8 max-w-xs"
+                        />
+                      </div>
+                    )}
+                    {extractedData && <ExtractedDataTable mode="single" data={extractedData} provenance={provenance ?? undefined} fileName={resultFileName} payerPlan={payerPlan} selectedField={selectedField} onFieldSelect={setSelectedField} reviews={reviews ?? undefined} onReview={handleReview} />}
                     {comparisonResults && (
-                      <ExtractedDataTable mode="compare" comparisonData={comparisonResults} fileNames={[files[0]?.name, files[1]?.name]} payerPlan={payerPlan} />
+                      <ExtractedDataTable mode="compare" comparisonData={comparisonResults} fileNames={comparisonFileNames} payerPlan={payerPlan} />
+                    )}
+                    {renewalReport && <RenewalReportView report={renewalReport} />}
+                    {batchJobs && (
+                      <BatchResultsTable jobs={batchJobs} fields={batchFields} isRunning={isProcessing} onRetryFailed={retryFailedBatch} />
                     )}
                   </CardContent>
                 </Card>
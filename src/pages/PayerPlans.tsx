@@ -0,0 +1,211 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Download, History, Layers, Plus, RotateCcw, Upload } from "lucide-react";
+import { PayerPlanEditor } from "@/components/PayerPlanEditor";
+import { useToast } from "@/hooks/use-toast";
+import type { SavedPayerPlan } from "@/constants/fields";
+import {
+  builtInPayerPlans,
+  clonePayerPlan,
+  deletePayerPlan,
+  exportPayerPlans,
+  importPayerPlans,
+  isBuiltInPlan,
+  loadPayerPlans,
+  restorePayerPlanVersion,
+  savePayerPlan,
+  type PayerPlanDraft,
+} from "@/lib/payerPlans";
+import { cn } from "@/lib/utils";
+
+const downloadJsonFile = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const fileSlug = (name: string) => name.replace(/[^\w-]+/g, "_");
+
+const PayerPlans = () => {
+  const [savedPlans, setSavedPlans] = useState<SavedPayerPlan[]>(() => loadPayerPlans());
+  // null = creating a new plan
+  const [selectedId, setSelectedId] = useState<string | null>(() => builtInPayerPlans()[0]?.id ?? null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const plans = [...builtInPayerPlans(), ...savedPlans];
+  const selected = plans.find((plan) => plan.id === selectedId) ?? null;
+
+  const refresh = (selectId?: string | null) => {
+    setSavedPlans(loadPayerPlans());
+    if (selectId !== undefined) setSelectedId(selectId);
+  };
+
+  // Storage helpers throw on invalid input - show the reason instead of failing silently
+  const attempt = (action: () => void) => {
+    try {
+      action();
+    } catch (err) {
+      toast({ title: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const handleSave = (draft: PayerPlanDraft) =>
+    attempt(() => {
+      const saved = savePayerPlan(draft);
+      refresh(saved.id);
+      toast({ title: `Saved ${saved.name}`, description: `Version ${saved.version}` });
+    });
+
+  const handleClone = (plan: SavedPayerPlan) =>
+    attempt(() => {
+      const copy = clonePayerPlan(plan);
+      refresh(copy.id);
+      toast({ title: `Created ${copy.name}` });
+    });
+
+  const handleDelete = (plan: SavedPayerPlan) => {
+    if (!window.confirm(`Delete "${plan.name}" and its version history?`)) return;
+    deletePayerPlan(plan.id);
+    refresh(builtInPayerPlans()[0]?.id ?? null);
+  };
+
+  const handleRestore = (plan: SavedPayerPlan, version: number) =>
+    attempt(() => {
+      const restored = restorePayerPlanVersion(plan.id, version);
+      refresh(restored.id);
+      toast({ title: `Restored v${version}`, description: `Saved as v${restored.version}` });
+    });
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = importPayerPlans(JSON.parse(await file.text()));
+      refresh(imported[0]?.id);
+      toast({ title: `Imported ${imported.length} plan${imported.length === 1 ? "" : "s"}` });
+    } catch (err) {
+      toast({ title: "Import failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    } finally {
+      if (importInput.current) importInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-12 max-w-6xl space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" /> Extractor
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold tracking-tight">Payer Plans</h1>
+          <div className="ml-auto flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setSelectedId(null)}>
+              <Plus className="h-4 w-4 mr-2" /> New Plan
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => importInput.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" /> Import
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={savedPlans.length === 0}
+              onClick={() => downloadJsonFile(`payer_plans_${new Date().toISOString().split("T")[0]}.json`, exportPayerPlans(savedPlans))}
+            >
+              <Download className="h-4 w-4 mr-2" /> Export All
+            </Button>
+            <input
+              ref={importInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Layers className="h-5 w-5 text-primary" /> Plans ({plans.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {plans.map((plan) => (
+                  <button
+                    key={plan.id}
+                    onClick={() => setSelectedId(plan.id)}
+                    className={cn(
+                      "w-full flex items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-muted/50",
+                      plan.id === selectedId && "bg-muted"
+                    )}
+                  >
+                    <span className="font-medium text-foreground truncate">{plan.name}</span>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+                      {plan.fields.length} fields
+                      {isBuiltInPlan(plan.id) ? <Badge variant="outline">Built-in</Badge> : <Badge variant="secondary">v{plan.version}</Badge>}
+                    </span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {selected && !isBuiltInPlan(selected.id) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <History className="h-5 w-5 text-primary" /> Versions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {[selected, ...[...selected.history].reverse()].map((version) => (
+                    <div key={version.version} className="flex items-start justify-between gap-2 text-sm border-b border-border pb-2 last:border-0">
+                      <div>
+                        <div className="font-medium text-foreground">
+                          v{version.version} · {version.fields.length} fields
+                          {version === selected && <span className="ml-1 text-xs text-muted-foreground">(current)</span>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{new Date(version.savedAt).toLocaleString()}</div>
+                        {version.note && <div className="text-xs text-muted-foreground">{version.note}</div>}
+                      </div>
+                      {version !== selected && (
+                        <Button size="sm" variant="ghost" onClick={() => handleRestore(selected, version.version)}>
+                          <RotateCcw className="h-4 w-4 mr-1" /> Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="lg:col-span-2">
+            <PayerPlanEditor
+              // Remount when switching plans or after a save so the form shows the stored version
+              key={selected ? `${selected.id}-${selected.version}` : "new"}
+              plan={selected}
+              readOnly={selected ? isBuiltInPlan(selected.id) : false}
+              onSave={handleSave}
+              onClone={selected ? () => handleClone(selected) : undefined}
+              onDelete={selected ? () => handleDelete(selected) : undefined}
+              onExport={selected ? () => downloadJsonFile(`payer_plan_${fileSlug(selected.name)}.json`, exportPayerPlans([selected])) : undefined}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayerPlans;
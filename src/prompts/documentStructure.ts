@@ -0,0 +1,25 @@
+// Map of a document's sections and tables, from its first few thousand characters
+import type { PromptTemplate } from "./types";
+
+export const DOCUMENT_STRUCTURE_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'document-structure',
+    version: 1,
+    description: 'JSON list of sections, table locations and likely section per field',
+    system: 'You are a document structure analyzer. Return only valid JSON.',
+    template: `Analyze this insurance policy document and extract its structure.
+
+Return a JSON object with:
+{
+  "sections": ["section names in order"],
+  "tableLocations": ["where tables appear"],
+  "fieldHints": {"fieldName": "likely section where it appears"}
+}
+
+Document:
+
+{{document}}... [truncated for structure analysis]
+
+Return ONLY valid JSON.`,
+  },
+];
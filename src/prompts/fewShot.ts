@@ -0,0 +1,52 @@
+// Worked examples for the {{fewShot}} slots: verified examples from the few-shot
+// store (src/lib/fewShotStore.ts), or the hand-written defaults of the markdown prompt
+import type { FewShotExample } from "../constants/fields";
+
+export const DEFAULT_FEW_SHOT_EXAMPLES = `EXAMPLE 1 - Table Extraction:
+If markdown contains:
+| Benefit | Coverage |
+|---------|----------|
+| Dental Benefit | QAR 500 per year |
+| Optical Benefit | Not covered |
+
+Then extract:
+| Field Name | Value |
+|------------|-------|
+| Dental Benefit | QAR 500 per year |
+| Optical Benefit | Not covered |
+
+EXAMPLE 2 - Provider-Specific Table:
+If markdown contains a table titled "Provider Specific Co-insurance":
+| Provider | Co-insurance |
+|----------|--------------|
+| Al Ahli Hospital | 10% |
+| Other providers | 20% |
+
+Then for "Al Ahli Hospital" field, extract: 10%
+
+EXAMPLE 3 - Field Name Variations:
+If searching for "Psychiatric treatment and Psychotherapy" and document has:
+| Benefit | Coverage |
+|---------|----------|
+| Psychiatric treatment & Psychotherapy | QAR 1000 |
+
+Then extract: QAR 1000 (even though "&" vs "and" differs)
+
+EXAMPLE 4 - Missing Field:
+If searching for "Dental Coverage" and it's truly not in any table or text:
+| Field Name | Value |
+|------------|-------|
+| Dental Coverage | null |`;
+
+/**
+ * Verified examples as a prompt section ending in a blank line; empty without examples
+ */
+export function renderFewShotExamples(examples: FewShotExample[]): string {
+  if (examples.length === 0) return '';
+  const blocks = examples.map((example, idx) =>
+    `EXAMPLE ${idx + 1} - "${example.field}" in another ${example.payerPlan} document:\n` +
+    `${example.snippet}\n` +
+    `Correct value: ${JSON.stringify(example.value)}`
+  );
+  return `VERIFIED EXAMPLES (values reviewers confirmed in other documents - follow how they were read, never copy them):\n\n${blocks.join('\n\n')}\n\n`;
+}
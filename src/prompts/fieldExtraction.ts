@@ -0,0 +1,75 @@
+// Field extraction from the layout-aware PDF text - the prompt behind every model
+// call of the pipeline (whole text, chunks and retrieved passages)
+import type { PromptTemplate } from "./types";
+
+export const FIELD_EXTRACTION_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'field-extraction',
+    version: 1,
+    description: 'JSON values per field with page, source and confidence in _sources',
+    template: `You are an expert at extracting data from insurance policy documents.
+
+DOCUMENT CONTEXT:
+- Payer Plan: {{payerPlan}}
+- This is an insurance benefits document that contains policy details and coverage information.
+- Tables in the document text are reconstructed from the PDF layout as markdown tables: each row is one benefit, and its value is in the same row.
+{{excerptNote}}{{ocrNote}}
+FIELDS TO EXTRACT (expected value type in brackets):
+{{fields}}
+
+EXTRACTION RULES:
+1. Extract ONLY the actual coverage/benefit values, NOT descriptions, conditions, or age restrictions
+2. For percentages, return just the number with % (e.g., "20%")
+3. For currency amounts, include currency and amount (e.g., "QAR 7,500", "QAR 100")
+4. For coverage limits, use exact wording (e.g., "Unlimited", "Not covered", "QAR 50,000", "Covered")
+5. For multiple values (like co-insurance per hospital), list them clearly separated by commas
+6. For dates, use format: DD/MM/YYYY
+7. For "Not Found" or missing fields, return "Nil"
+8. Be precise - extract exactly what's in the document, no interpretation
+
+IMPORTANT:
+- Look for values in tables, headers, and body text
+- Check both page 1 (header/policy info) and subsequent pages (benefits tables)
+- For fields like Policy Number, Category, Effective Date - check the header section
+- For benefits like co-insurance, deductibles, coverage - check benefits tables
+
+CRITICAL - VALUE vs DESCRIPTION:
+- In tables, the VALUE is typically in the coverage/benefit column (often the rightmost column)
+- Age restrictions, conditions, or regulatory notes are NOT the value - they are descriptions
+- Example: If a table shows "Vaccination of children | Covered | Up to age 6 years per MoH regulations"
+  → Extract "Covered" (the value), NOT "Up to age 6 years per MoH regulations" (the description)
+- Example: If it shows "Dental | QAR 500 | Annual limit"
+  → Extract "QAR 500" (the value), NOT "Annual limit" (the description)
+- If the table structure shows: Field Name | Coverage Status | Additional Notes
+  → Extract from the Coverage Status column, not the Additional Notes column
+
+SPECIAL FIELD INSTRUCTIONS:
+{{fieldInstructions}}- Benefits with amounts: Extract the QAR amount or percentage, not the conditions
+- Coverage fields: Extract "Covered", "Not covered", "Nil", or specific amounts only
+
+IMPORTANT - Default Values:
+{{defaultValues}}- For other fields: If null or not found, send as "Nil"
+
+{{fewShot}}DOCUMENT TEXT:
+{{document}}
+
+OUTPUT:
+Return a JSON object where each key is a field name and the value is the extracted data (or null if not found).
+Also include a "_sources" key that maps every found field to where you read it:
+the page number from the "=== PAGE n ===" markers and the table/section and row,
+plus your confidence (0-1) that this is the right value for the field.
+Example:
+{
+  "Policy Number": "123456",
+  "Category": "Premium",
+  "Co-insurance": "20%",
+  "Dental Benefit": "QAR 7,500, 20% co-insurance",
+  "_sources": {
+    "Policy Number": { "page": 1, "source": "Policy schedule header", "confidence": 0.95 },
+    "Dental Benefit": { "page": 3, "source": "Table of benefits, Dental row", "confidence": 0.9 }
+  }
+}
+
+Extract the fields now:`,
+  },
+];
@@ -0,0 +1,80 @@
+// Payer-specific search notes for fields that are easy to miss. Rendered into
+// the {{fieldNotes}} slot of the markdown prompts, only for the fields requested.
+
+export interface FieldNote {
+  fields: string[];             // Field names the note applies to, as requested
+  searchTerms: string[];
+  notes: string[];
+}
+
+export const FIELD_NOTES: FieldNote[] = [
+  {
+    fields: ['Al Ahli Hospital', 'Provider-specific co-insurance at Al Ahli Hospital'],
+    searchTerms: [
+      'Al Ahli Hospital',
+      'Al-Ahli Hospital',
+      'Al Ahli',
+      'Provider-specific co-insurance at Al Ahli Hospital',
+      'Provider Specific Co-insurance',
+      'Additional co-insurance',
+      'Additional deductible',
+    ],
+    notes: [
+      'Often in a SEPARATE table titled "Provider Specific Co-insurance/deductible" or similar',
+      'The table may say: "Additional co-insurance/deductible will apply on all services in below mentioned providers"',
+      'Find the row where "Al Ahli Hospital" or "Al-Ahli Hospital" is mentioned and extract the value in the NEXT column of that row',
+      'The value might be a percentage (e.g., "10%"), an amount (e.g., "QAR 100"), or "Not applicable"',
+      'DO NOT confuse with general co-insurance - this must be SPECIFIC to Al Ahli Hospital',
+      "If the special table doesn't exist, return 'Not applicable'",
+    ],
+  },
+  {
+    fields: ['Psychiatric treatment and Psychotherapy'],
+    searchTerms: [
+      'Psychiatric treatment and Psychotherapy',
+      'Psychiatric treatment & Psychotherapy',
+      'Psychiatric Treatment',
+      'Psychotherapy',
+      'Mental Health',
+      'Psychiatric care',
+      'Psychological treatment',
+    ],
+    notes: [
+      'Try BOTH "and" and "&" variations',
+      'Search in multiple sections: main benefits table, exclusions, limitations, mental health',
+      'Look for: coverage amounts, limits, exclusions, or "Not Covered" statements',
+    ],
+  },
+  {
+    fields: ['Dental Benefit'],
+    searchTerms: ['Dental Benefit', 'Dental Coverage', 'Dental Plan', 'Dental', 'Oral Care'],
+    notes: ['Look for a dedicated dental section or benefits table. Check for annual maximums, coverage percentages, or specific procedures covered.'],
+  },
+  {
+    fields: ['Optical Benefit'],
+    searchTerms: ['Optical Benefit', 'Vision Coverage', 'Eye Care', 'Glasses', 'Contact Lenses', 'Vision', 'Eye'],
+    notes: ['Search for vision/optical sections. Look for coverage amounts for frames, lenses, or eye exams. Check for frequency limits (e.g., annual coverage).'],
+  },
+  {
+    fields: ['Deductible on consultation'],
+    searchTerms: ['Deductible on consultations', 'Consultation Deductible', 'OPD Deductible', 'Outpatient Deductible'],
+    notes: ['Check the deductible section, especially for outpatient or consultation services. Look for per-visit or annual deductibles.'],
+  },
+];
+
+/**
+ * Notes for the requested fields, one block per field; empty when none apply
+ */
+export function renderFieldNotes(fields: string[]): string {
+  return fields
+    .flatMap((field) => {
+      const note = FIELD_NOTES.find((entry) => entry.fields.includes(field));
+      if (!note) return [];
+      return [[
+        `=== ${field.toUpperCase()} ===`,
+        `- Search for: ${note.searchTerms.join(', ')}`,
+        ...note.notes.map((line) => `- ${line}`),
+      ].join('\n')];
+    })
+    .join('\n\n');
+}
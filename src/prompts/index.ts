@@ -0,0 +1,65 @@
+// Prompt template registry - every prompt the pipeline sends, versioned, with
+// {{name}} slots for fields, synonyms, payer notes and few-shot examples
+import type { PromptId, PromptTemplate, PromptVariables, PromptVersions, RenderedPrompt } from "./types";
+import { FIELD_EXTRACTION_PROMPTS } from "./fieldExtraction";
+import { MARKDOWN_CONVERSION_PROMPTS } from "./markdownConversion";
+import { MARKDOWN_EXTRACTION_PROMPTS } from "./markdownExtraction";
+import { REVALIDATION_PROMPTS } from "./revalidation";
+import { SINGLE_FIELD_PROMPTS } from "./singleField";
+import { DOCUMENT_STRUCTURE_PROMPTS } from "./documentStructure";
+import { TABLE_EXTRACTION_PROMPTS } from "./tableExtraction";
+
+export type { PromptId, PromptTemplate, PromptVariables, PromptVersions, RenderedPrompt } from "./types";
+export { renderFieldNotes } from "./fieldNotes";
+export { DEFAULT_FEW_SHOT_EXAMPLES, renderFewShotExamples } from "./fewShot";
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  ...FIELD_EXTRACTION_PROMPTS,
+  ...MARKDOWN_CONVERSION_PROMPTS,
+  ...MARKDOWN_EXTRACTION_PROMPTS,
+  ...REVALIDATION_PROMPTS,
+  ...SINGLE_FIELD_PROMPTS,
+  ...DOCUMENT_STRUCTURE_PROMPTS,
+  ...TABLE_EXTRACTION_PROMPTS,
+];
+
+const SLOT = /\{\{(\w+)\}\}/g;
+
+export const promptStamp = (template: Pick<PromptTemplate, 'id' | 'version'>) => `${template.id}@${template.version}`;
+
+export function listPromptVersions(id: PromptId): number[] {
+  return PROMPT_TEMPLATES.filter((template) => template.id === id).map((template) => template.version).sort((a, b) => a - b);
+}
+
+/**
+ * A prompt by id - the given version, or the latest one
+ */
+export function getPrompt(id: PromptId, version?: number): PromptTemplate {
+  const versions = listPromptVersions(id);
+  if (versions.length === 0) throw new Error(`Unknown prompt: ${id}`);
+  const wanted = version ?? versions[versions.length - 1];
+  const template = PROMPT_TEMPLATES.find((entry) => entry.id === id && entry.version === wanted);
+  if (!template) throw new Error(`Unknown version ${wanted} of prompt ${id} (available: ${versions.join(', ')})`);
+  return template;
+}
+
+/**
+ * Fills the template's slots. A slot without a variable is an error rather
+ * than an empty string, so a renamed variable can't silently drop a section.
+ * Values are inserted as-is - document text containing "{{" stays untouched.
+ */
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): RenderedPrompt {
+  const fill = (text: string) =>
+    text.replace(SLOT, (_, name: string) => {
+      if (!(name in variables)) throw new Error(`Prompt ${promptStamp(template)} needs variable "${name}"`);
+      return variables[name];
+    });
+  return {
+    stamp: promptStamp(template),
+    ...(template.system && { system: fill(template.system) }),
+    user: fill(template.template),
+  };
+}
+
+export const formatPromptVersions = (versions: PromptVersions) =>
+  Object.entries(versions).map(([id, version]) => `${id}@${version}`).join(', ');
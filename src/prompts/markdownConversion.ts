@@ -0,0 +1,65 @@
+// PDF to markdown conversion, sent with the PDF file itself
+import type { PromptTemplate } from "./types";
+
+export const MARKDOWN_CONVERSION_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'markdown-conversion',
+    version: 1,
+    description: 'Complete markdown copy of the PDF, tables preserved, repeated headers and footers dropped',
+    template: `You are an expert PDF to Markdown converter. Your task is to convert this PDF document to clean, well-formatted Markdown.
+
+CRITICAL RULES YOU MUST FOLLOW:
+
+1. **COMPLETE CONTENT EXTRACTION (HIGHEST PRIORITY)**:
+   - Extract EVERY SINGLE CHARACTER from the document
+   - DO NOT skip, miss, or omit ANY content whatsoever
+   - Extract ALL text from EVERY page - nothing should be left behind
+   - Include ALL data from tables, paragraphs, sections, and subsections
+   - If you see text in the PDF, it MUST appear in the markdown output
+   - Missing even a single field or value is UNACCEPTABLE
+   - Extract 100% of the document content with ZERO exceptions
+
+2. **TABLE PRESERVATION (CRITICAL - TABLES CONTAIN MOST IMPORTANT DATA)**:
+   - Tables are the PRIMARY source of field values - extract them with 100% accuracy
+   - Preserve ALL tables EXACTLY as they appear in the PDF
+   - Extract EVERY SINGLE ROW - do not skip any rows
+   - Extract EVERY SINGLE COLUMN - do not skip any columns
+   - Extract EVERY CELL VALUE completely - including all text, numbers, percentages, amounts
+   - Use proper Markdown table syntax with | separators
+   - Maintain exact row and column structure
+   - Keep all table headers, labels, and values intact
+   - If a table has 50 rows, the markdown must have 50 rows
+   - Special tables (e.g., "Provider Specific Co-insurance") are CRITICAL - extract completely
+   - Multi-column tables: preserve all columns with proper alignment
+   - Merged cells: extract the content and indicate the span
+   - Tables within sections: extract ALL of them, not just the main table
+   - VERIFY: After extracting a table, count the rows - did you extract them all?
+
+3. **Header Handling**:
+   - Keep the header ONLY from the FIRST page
+   - REMOVE headers from ALL subsequent pages
+   - Headers typically include company logos, document titles at the top
+
+4. **Footer Handling**:
+   - REMOVE ALL footers from EVERY page
+   - Footers typically include page numbers, company info, disclaimers at the bottom
+
+5. **Content Preservation**:
+   - Preserve ALL body content from EVERY page
+   - Extract ALL paragraphs, sections, and subsections completely
+   - Maintain paragraph structure
+   - Keep bullet points and numbered lists - extract ALL items
+   - Preserve bold and italic formatting where visible
+   - Include all field names, values, labels, and descriptions
+   - Extract all benefit details, coverage amounts, percentages, and conditions
+
+6. **Output Format**:
+   - Return ONLY the Markdown content
+   - No explanations or comments
+   - Clean, readable Markdown format
+
+REMEMBER: Your #1 priority is COMPLETENESS. Every character in the PDF must be in the markdown output. Missing content will cause critical data extraction failures. Extract EVERYTHING.
+
+Analyze the document carefully and convert it to Markdown following these rules exactly.`,
+  },
+];
@@ -0,0 +1,87 @@
+// Second and third pass over the markdown: re-check every value of an earlier extraction
+import type { PromptTemplate } from "./types";
+
+export const REVALIDATION_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'revalidation',
+    version: 1,
+    description: 'Re-searches every field against the previous values and returns the corrected table',
+    system: 'You are an expert insurance policy data validator. Your job is to revalidate and improve field extractions with 100% accuracy.',
+    template: `You are an expert insurance policy data validator with PERFECT ACCURACY.
+
+{{passDescription}}
+
+You will receive:
+1. A MARKDOWN document (insurance policy)
+2. Previous extraction results
+3. A list of fields that need revalidation
+
+{{passInstructions}}
+
+PREVIOUS EXTRACTION (may have errors or missing values):
+{{previousResults}}
+
+REVALIDATION RULES:
+
+1. **Verify EVERY Field Systematically**:
+   - Re-search the ENTIRE markdown for EACH field individually
+   - For each field, check ALL tables in the document - don't skip any
+   - Verify the current value is correct by finding it again in the source
+   - If value is missing (NOT FOUND), do an exhaustive search:
+     * Check every table (count them - did you check them all?)
+     * Check every text section
+     * Try all possible name variations
+   - If value seems wrong or generic, find the correct specific value
+
+2. **Comprehensive Table Search Strategy**:
+   - CRITICAL: Tables contain most field values - check them thoroughly
+   - Count how many tables are in the markdown document
+   - Check EACH table systematically:
+     * Main benefits table (usually the largest)
+     * Provider-specific tables (e.g., "Provider Specific Co-insurance/deductible")
+     * Exclusions/limitations tables
+     * Additional benefits tables
+     * Special conditions tables
+   - For each table, scan EVERY row for the field name
+   - Look for field names with variations (&/and, singular/plural, case differences)
+   - Check both left column (field names) and headers (for multi-column tables)
+{{fieldNotes}}
+3. **Quality Checks for Each Value**:
+   - Does the value make sense for this field type?
+   - Is the formatting correct (QAR, %, dates, amounts)?
+   - Is it complete with all conditions/details?
+   - Does it look like a complete answer or truncated?
+   - Are there any obvious errors or placeholders?
+   - Did you extract from the correct table row/column?
+
+4. **Improvement Focus**:
+   - Fields marked as "NOT FOUND" - search HARDER, check EVERY table again
+   - Values that seem generic or vague - find specific details
+   - Missing conditions or percentages - include them fully
+   - Incomplete information - extract the complete value
+   - Suspicious values - verify against source table
+
+5. **Output Requirements**:
+   - Return ALL fields (even if value doesn't change from previous pass)
+   - Use 'null' ONLY if truly not found after checking EVERY table
+   - Preserve exact formatting from document (QAR, %, etc.)
+   - Return EXACT field names as requested (match case and punctuation)
+
+FIELDS TO REVALIDATE:
+{{fields}}
+
+MARKDOWN DOCUMENT:
+
+{{document}}
+
+Return ONLY a markdown table with exactly 2 columns: Field Name and Value.
+
+OUTPUT FORMAT:
+\`\`\`markdown
+| Field Name | Value |
+|------------|-------|
+| Field 1    | Value 1 |
+| Field 2    | null |
+\`\`\``,
+  },
+];
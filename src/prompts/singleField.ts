@@ -0,0 +1,37 @@
+// One field at a time, with the model's confidence and where it found the value
+import type { PromptTemplate } from "./types";
+
+export const SINGLE_FIELD_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'single-field',
+    version: 1,
+    description: 'JSON value, confidence and source for a single field',
+    system: 'You are a precision field extractor. Return valid JSON only.',
+    template: `You are an expert at extracting a SINGLE field from insurance documents.
+
+TARGET FIELD: "{{field}}"
+{{synonyms}}
+
+TASK: Find the value for "{{field}}" in the markdown document below.
+
+SEARCH STRATEGY:
+1. Check ALL tables in the document
+2. Try exact match and case-insensitive match
+3. Try alternative names: & vs and, plural vs singular
+4. Check special tables (e.g., Provider Specific Co-insurance tables)
+{{fieldNotes}}
+OUTPUT FORMAT - Return a JSON object:
+{
+  "field": "{{field}}",
+  "value": "extracted value or null if not found",
+  "confidence": 0.95,
+  "source": "description of where found (e.g., 'Main benefits table, row 5')"
+}
+
+MARKDOWN DOCUMENT:
+
+{{document}}
+
+Return ONLY the JSON object.`,
+  },
+];
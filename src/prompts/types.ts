@@ -0,0 +1,34 @@
+// Shared types for the prompt template registry
+
+export type PromptId =
+  | 'field-extraction'
+  | 'markdown-conversion'
+  | 'markdown-extraction'
+  | 'revalidation'
+  | 'single-field'
+  | 'document-structure'
+  | 'table-extraction';
+
+/**
+ * One version of a prompt. `{{name}}` slots in the template (and system
+ * prompt) are filled by renderPrompt; a published version is never edited -
+ * changed wording is a new version, so results and cache entries stay comparable.
+ */
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  description: string;
+  system?: string;
+  template: string;
+}
+
+export interface RenderedPrompt {
+  stamp: string;                // "id@version"
+  system?: string;
+  user: string;
+}
+
+// Template version per prompt - the ones a run should use, or the ones a result was produced with
+export type PromptVersions = Partial<Record<PromptId, number>>;
+
+export type PromptVariables = Record<string, string>;
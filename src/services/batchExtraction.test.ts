@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { batchToRows, createBatchJobs, runBatchExtraction, type BatchJob } from "@/services/batchExtraction";
+import type { ExtractedData, ExtractionResult } from "@/constants/fields";
+import { extractDataDetailedApi } from "@/services/extractionApi";
+
+vi.mock("@/services/extractionApi", () => ({ extractDataDetailedApi: vi.fn() }));
+
+const extract = vi.mocked(extractDataDetailedApi);
+const pdf = (name: string) => new File(['%PDF'], name, { type: 'application/pdf' });
+const params = { apiKey: 'test-key', payerPlan: 'QLM' as const };
+const result = (data: ExtractedData, overrides: Partial<ExtractionResult> = {}): ExtractionResult => ({ data, provenance: {}, ...overrides });
+
+beforeEach(() => {
+  extract.mockReset();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('runBatchExtraction', () => {
+  it('retries a failing file and keeps the rest of the batch going', async () => {
+    extract.mockImplementation(async ({ file }) => {
+      if (file.name === 'bad.pdf') throw new Error('timeout');
+      return result({ Dental: file.name }, { cached: false, rulesFired: [], warnings: [] });
+    });
+    const jobs = await runBatchExtraction(createBatchJobs([pdf('a.pdf'), pdf('bad.pdf'), pdf('b.pdf')]), params, { maxRetries: 1, retryDelayMs: 0 });
+    expect(jobs.map((job) => [job.status, job.attempts])).toEqual([['done', 1], ['failed', 2], ['done', 1]]);
+    expect(jobs[1].error).toBe('timeout');
+    expect(jobs[0]).toMatchObject({ data: { Dental: 'a.pdf' }, cached: false, rulesFired: [], warnings: [] });
+  });
+
+  it('never runs more files at once than the concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    extract.mockImplementation(async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return result({});
+    });
+    await runBatchExtraction(createBatchJobs(['1', '2', '3', '4', '5'].map((n) => pdf(`${n}.pdf`))), params, { concurrency: 2 });
+    expect(extract).toHaveBeenCalledTimes(5);
+    expect(peak).toBe(2);
+  });
+
+  it('skips finished jobs and reports every status change', async () => {
+    extract.mockResolvedValue(result({}));
+    const [done, queued] = createBatchJobs([pdf('done.pdf'), pdf('new.pdf')]);
+    const updates: string[] = [];
+    await runBatchExtraction([{ ...done, status: 'done' }, queued], params, { onUpdate: (job) => updates.push(`${job.file.name}:${job.status}`) });
+    expect(extract).toHaveBeenCalledTimes(1);
+    expect(updates).toEqual(['new.pdf:queued', 'new.pdf:running', 'new.pdf:done']);
+  });
+});
+
+describe('batchToRows', () => {
+  it('puts one file per row, with the error of a failed file', () => {
+    const [ok, failed]: BatchJob[] = createBatchJobs([pdf('a.pdf'), pdf('b.pdf')]);
+    const rows = batchToRows([{ ...ok, status: 'done', data: { Dental: 'QAR 500', Optical: null } }, { ...failed, status: 'failed', error: 'timeout' }]);
+    expect(rows).toEqual([
+      { File: 'a.pdf', Status: 'done', Error: null, Dental: 'QAR 500', Optical: null },
+      { File: 'b.pdf', Status: 'failed', Error: 'timeout', Dental: null, Optical: null },
+    ]);
+  });
+});
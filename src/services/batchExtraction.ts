@@ -0,0 +1,127 @@
+// Batch extraction - queues many PDFs and runs them with bounded concurrency and retries
+import type { ConsistencyWarning, ExtractedData, RuleFiring } from "@/constants/fields";
+import type { PromptVersions } from "@/prompts";
+import { extractDataDetailedApi, type ExtractDataApiParams } from "./extractionApi";
+
+export type BatchJobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchJobStatus;
+  attempts: number;
+  data?: ExtractedData;
+  cached?: boolean;
+  fieldsFromTables?: number;
+  promptVersions?: PromptVersions;
+  rulesFired?: RuleFiring[];
+  warnings?: ConsistencyWarning[];
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  /** Called with a fresh copy of the job every time its status changes */
+  onUpdate?: (job: BatchJob) => void;
+  signal?: AbortSignal;
+}
+
+const BATCH_DEFAULTS = {
+  concurrency: 3,
+  maxRetries: 2,
+  retryDelayMs: 2000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createBatchJobs(files: File[]): BatchJob[] {
+  return files.map((file, idx) => ({
+    id: `${idx}-${file.name}`,
+    file,
+    status: 'queued',
+    attempts: 0,
+  }));
+}
+
+/**
+ * Runs every job that is not already done. Each job is retried with
+ * exponential backoff; a job that still fails is marked 'failed' and the
+ * rest of the batch continues.
+ */
+export async function runBatchExtraction(
+  jobs: BatchJob[],
+  params: Omit<ExtractDataApiParams, 'file'>,
+  options: BatchOptions = {}
+): Promise<BatchJob[]> {
+  const { concurrency, maxRetries, retryDelayMs } = { ...BATCH_DEFAULTS, ...options };
+  const results = jobs.map((job) => ({ ...job }));
+  const pending = results.filter((job) => job.status !== 'done');
+
+  const update = (job: BatchJob, changes: Partial<BatchJob>) => {
+    Object.assign(job, changes);
+    options.onUpdate?.({ ...job });
+  };
+
+  pending.forEach((job) => update(job, { status: 'queued', error: undefined }));
+
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length && !options.signal?.aborted) {
+      const job = pending[next++];
+      update(job, { status: 'running', startedAt: Date.now() });
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        try {
+          const { data, cached, fieldsFromTables, promptVersions, rulesFired, warnings } = await extractDataDetailedApi({ ...params, file: job.file });
+          update(job, { status: 'done', data, cached, fieldsFromTables, promptVersions, rulesFired, warnings, attempts: job.attempts + 1, finishedAt: Date.now() });
+          break;
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          const attempts = job.attempts + 1;
+          console.error(`[Batch] ${job.file.name} failed (attempt ${attempt + 1}/${maxRetries + 1}):`, error);
+
+          if (attempt === maxRetries || options.signal?.aborted) {
+            update(job, { status: 'failed', error, attempts, finishedAt: Date.now() });
+            break;
+          }
+          update(job, { status: 'retrying', error, attempts });
+          await sleep(retryDelayMs * 2 ** attempt);
+        }
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, pending.length));
+  console.log(`[Batch] Extracting ${pending.length} file(s) with ${workerCount} worker(s)`);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/**
+ * Field columns for the combined table - the requested fields if known,
+ * otherwise every field seen in any file, in first-seen order
+ */
+export function batchFieldColumns(jobs: BatchJob[], fields?: string[]): string[] {
+  if (fields && fields.length > 0) return fields;
+  const seen = new Set<string>();
+  jobs.forEach((job) => Object.keys(job.data ?? {}).forEach((field) => seen.add(field)));
+  return [...seen];
+}
+
+/**
+ * One row per file, one column per field - ready for the CSV export
+ */
+export function batchToRows(jobs: BatchJob[], fields?: string[]): Array<Record<string, string | null>> {
+  const columns = batchFieldColumns(jobs, fields);
+  return jobs.map((job) => ({
+    File: job.file.name,
+    Status: job.status,
+    Error: job.status === 'failed' ? job.error ?? null : null,
+    ...Object.fromEntries(columns.map((field) => [field, job.data?.[field] ?? null])),
+  }));
+}
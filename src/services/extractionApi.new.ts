@@ -48,6 +48,9 @@
 import { FIELD_MAPPINGS, PAYER_PLANS, type PayerPlan, type ExtractedData, type ComparisonResult } from "@/constants/fields";
 import { FIELD_SUGGESTIONS } from "@/constants/fields";
 import { logExtraction } from "@/utils/logging";
+import { FIELD_SCHEMAS } from "@/constants/fieldSchema";
+import { MARKDOWN_RULES, PAYER_RULES } from "@/constants/payerRules";
+import { applyPayerRules, rulesForPlan } from "@/lib/ruleEngine";
 // @ts-ignore - pdf-parse has type issues with ESM
 import pdfParse from 'pdf-parse';
 
@@ -1220,42 +1223,12 @@ Return ONLY the markdown table with exactly 2 columns: Field Name and Value.`;
   // Post-extraction validation: Convert descriptions to proper values
   let validatedData = await validateAndCleanExtractedValues(extractedData, apiKey);
   
-  // Apply ALKOOT-specific rule: Co-insurance and Deductible on consultation share the same value
-  validatedData = applyAlkootSpecificRules(validatedData);
+  // ALKOOT rules: Co-insurance and Deductible on consultation share the same value
+  validatedData = applyPayerRules(validatedData, PAYER_RULES.ALKOOT).data;
   
   return validatedData;
 }
 
-/**
- * Apply ALKOOT-specific extraction rules
- * For ALKOOT plans, co-insurance and deductible on consultation are in the same cell
- */
-function applyAlkootSpecificRules(data: Record<string, any>): Record<string, any> {
-  const coInsurance = data['Co-insurance'];
-  const deductible = data['Deductible on consultation'];
-  
-  // If co-insurance has a value but deductible doesn't, copy co-insurance to deductible
-  if (coInsurance && (!deductible || deductible === 'null' || deductible === null)) {
-    console.log(`[ALKOOT Rule] Copying Co-insurance value "${coInsurance}" to Deductible on consultation`);
-    data['Deductible on consultation'] = coInsurance;
-  }
-  // If deductible has a value but co-insurance doesn't, copy deductible to co-insurance
-  else if (deductible && (!coInsurance || coInsurance === 'null' || coInsurance === null)) {
-    console.log(`[ALKOOT Rule] Copying Deductible on consultation value "${deductible}" to Co-insurance`);
-    data['Co-insurance'] = deductible;
-  }
-  // If both have values but they're different, log a warning
-  else if (coInsurance && deductible && coInsurance !== deductible) {
-    console.warn(`[ALKOOT Rule] ⚠️  Co-insurance (${coInsurance}) and Deductible (${deductible}) have different values. They should be the same!`);
-    // Use co-insurance value as the authoritative one
-    console.log(`[ALKOOT Rule] Using Co-insurance value for both fields`);
-    data['Deductible on consultation'] = coInsurance;
-  }
-  // If both are missing, that's fine (will be null)
-  
-  return data;
-}
-
 /**
  * Post-extraction validation: Check if extracted values are descriptions
  * and convert them to proper values (Covered/Not Covered/amounts)
@@ -1539,8 +1512,8 @@ OUTPUT FORMAT:
   // Parse the revalidated data
   let revalidatedData = parseMarkdownTable(content);
   
-  // Apply ALKOOT rule to ensure co-insurance and deductible match
-  revalidatedData = applyAlkootSpecificRules(revalidatedData);
+  // Apply ALKOOT rules to ensure co-insurance and deductible match
+  revalidatedData = applyPayerRules(revalidatedData, PAYER_RULES.ALKOOT).data;
   
   // Log changes
   console.log(`\n=== REVALIDATION RESULTS (Pass ${passNumber}) ===`);
@@ -1884,38 +1857,7 @@ function parseMarkdownOutput(resp: any): Record<string, any> {
  * Post-process the extracted data to fix common issues
  */
 function postProcessData(data: Record<string, any>): Record<string, any> {
-  const result = { ...data };
-  
-  // Post-process special fields to detect and fix common errors
-  const ahliField = 'Provider-specific co-insurance at Al Ahli Hospital';
-  const generalCoInsurance = 'Co-insurance';
-  const inpatientCoInsurance = 'Co-insurance on all inpatient treatment';
-  
-  // Check if Al Ahli specific field has a value that doesn't explicitly mention Al Ahli
-  if (result[ahliField]) {
-    const value = result[ahliField];
-    if (typeof value === 'string') {
-      const lowerValue = value.toLowerCase();
-      const mentionsAlAhli = lowerValue.includes('al ahli') || lowerValue.includes('ahli hospital');
-      
-      // Any percentage value that doesn't explicitly mention Al Ahli Hospital is considered invalid
-      if (/\d+%/.test(value) && !mentionsAlAhli) {
-        const oldValue = value;
-        result[ahliField] = 'Not applicable';
-        console.warn(`[VALIDATION] Forced correction for ${ahliField}: was '${oldValue}', set to 'Not applicable' because it doesn't mention Al Ahli explicitly`);
-      }
-    }
-  }
-  
-  // Extra validation for duplicate values
-  if (result[ahliField] && (result[ahliField] === result[generalCoInsurance] || 
-      result[ahliField] === result[inpatientCoInsurance])) {
-    const oldValue = result[ahliField];
-    result[ahliField] = 'Not applicable';
-    console.warn(`[VALIDATION] Corrected identical value for ${ahliField}: was '${oldValue}', set to 'Not applicable' due to duplicate values`);
-  }
-  
-  return result;
+  return applyPayerRules(data, MARKDOWN_RULES).data;
 }
 
 /**
@@ -2090,101 +2032,6 @@ function normalizeLabel(label: string): string {
   return label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
 }
 
-// Format QLM specific fields
-function formatQLMFields(normalized: ExtractedData): ExtractedData {
-  const result = { ...normalized };
-  
-  // Preserve exact value for Vaccination field
-  const vaccinationField = "Vaccination of children";
-  if (result[vaccinationField]) {
-    let value = result[vaccinationField] as string;
-    
-    // Handle common cases
-    const lowerValue = value.toLowerCase().trim();
-    if (lowerValue === 'covered') {
-      result[vaccinationField] = 'Covered';
-    } else if (lowerValue === 'not covered') {
-      result[vaccinationField] = 'Not covered';
-    } else if (lowerValue === 'nil') {
-      result[vaccinationField] = 'Nil';
-    } else {
-      // Handle numeric values with currency formatting
-      const numberMatch = value.match(/(\d[\d,\.]*)/); 
-      if (numberMatch && !lowerValue.includes('qar')) {
-        // Add QAR formatting if it has a number but no QAR
-        result[vaccinationField] = `QAR ${numberMatch[1]}/PPPY`;
-      } else if (numberMatch && lowerValue.includes('qar')) {
-        // Ensure consistent formatting for QAR values
-        const formattedNumber = numberMatch[1].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-        if (!lowerValue.includes('/pppy')) {
-          result[vaccinationField] = `QAR ${formattedNumber}/PPPY`;
-        }
-      }
-    }
-  }
-  
-
-  // Standardize "For Eligible Medical Expenses at Al Ahli Hospital" to percentage format
-  const ahliField = "For Eligible Medical Expenses at Al Ahli Hospital";
-  if (result[ahliField]) {
-    const value = result[ahliField] as string;
-    const lowerValue = value.toLowerCase().trim();
-    
-    // Look for percentage patterns
-    const percentMatch = value.match(/(\d{1,3})\s*%/);
-    if (percentMatch) {
-      // Format as percentage with coverage
-      result[ahliField] = `${percentMatch[1]}% covered`;
-    } else if (lowerValue === 'covered' || 
-               lowerValue.includes('100') || 
-               lowerValue.includes('full') || 
-               lowerValue.includes('fully') || 
-               lowerValue.includes('all')) {
-      // Full coverage indicators
-      result[ahliField] = "100% covered";
-    } else if (lowerValue === 'not covered') {
-      result[ahliField] = "Not covered";
-    } else if (lowerValue.includes('co-insurance') || lowerValue.includes('coinsurance')) {
-      // Try to extract coinsurance percentage
-      const coinsuranceMatch = value.match(/(\d{1,2})\s*%\s*(?:co-?insurance|co-?pay)/i);
-      if (coinsuranceMatch) {
-        const percentage = 100 - parseInt(coinsuranceMatch[1], 10);
-        result[ahliField] = `${percentage}% covered`;
-      }
-    }
-  }
-  
-  // Add handling for deductibles and copayments
-  const copaymentFields = ["Dental Copayment", "Maternity Copayment", "Optical Copayment"];
-  copaymentFields.forEach(field => {
-    if (result[field]) {
-      const value = result[field] as string;
-      const lowerValue = value.toLowerCase().trim();
-      
-      // Standardize percentage formatting
-      const percentMatch = value.match(/(\d{1,3})\s*%/);
-      if (percentMatch) {
-        result[field] = `${percentMatch[1]}%`;
-      }
-      // Standardize QAR formatting
-      else if (lowerValue.includes('qar') || /\d+/.test(lowerValue)) {
-        const amountMatch = value.match(/(\d[\d,\.]*)/); 
-        if (amountMatch) {
-          const amount = amountMatch[1].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-          if (!lowerValue.includes('qar')) {
-            result[field] = `QAR ${amount}`;
-          } else {
-            // Ensure consistent spacing for QAR
-            result[field] = value.replace(/QAR\s*(\d)/, 'QAR $1');
-          }
-        }
-      }
-    }
-  });
-  
-  return result;
-}
-
 export async function extractDataApi({
   file,
   apiKey,
@@ -2438,7 +2285,7 @@ export async function extractDataApi({
 
     // Plan-specific post-processing logic
     if (payerPlan === PAYER_PLANS.QLM) {
-      normalized = formatQLMFields(normalized);
+      normalized = applyPayerRules(normalized, PAYER_RULES.QLM, FIELD_SCHEMAS.QLM).data;
       console.log('Applied QLM-specific formatting');
     }
 
@@ -2476,17 +2323,8 @@ export async function extractDataApi({
       missingFieldsList.forEach(f => console.log(`  - ${f}`));
     }
 
-    // Extra validation - force fix for Al Ahli Hospital issue
-    // This is a last resort fix for the specific issue with Al Ahli field and inpatient co-insurance
-    const ahliField = 'Provider-specific co-insurance at Al Ahli Hospital';
-    const inpatientField = 'Co-insurance on all inpatient treatment';
-    if (normalized[ahliField] && normalized[inpatientField] && 
-        normalized[ahliField] === normalized[inpatientField] && 
-        /^\d+%$/.test(normalized[ahliField] as string)) {
-      console.log(`[CRITICAL FIX] Detected identical values for ${ahliField} (${normalized[ahliField]}) ` +
-                  `and ${inpatientField} (${normalized[inpatientField]}) - fixing to 'Not applicable'`);
-      normalized[ahliField] = 'Not applicable';
-    }
+    // Payer rules for every plan (the Al Ahli duplicate-value fix)
+    normalized = applyPayerRules(normalized, rulesForPlan()).data;
     
     console.log(`Final extracted data:`, normalized);
     console.log(`=== END EXTRACTION ===
@@ -14,10 +14,10 @@
  *    - Shows correct extraction patterns
  *    - Demonstrates edge cases (& vs and, missing fields)
  * 
- * 3. TRIPLE-PASS VALIDATION
- *    - Pass 1: Initial extraction
- *    - Pass 2: Revalidation and improvement
- *    - Pass 3: Final cross-check
+ * 3. MULTI-PASS VOTING (Optional, VOTING_MODE)
+ *    - Independent extractions (or one plus a single-field pass) vote per field
+ *    - Only disagreeing, missing or invalid fields are revalidated
+ *    - Agreement becomes the field's confidence
  * 
  * 4. FIELD-BY-FIELD EXTRACTION (Optional)
  *    - Individual extraction for missing critical fields
@@ -43,16 +43,30 @@
  *    - Model fallback strategy
  */
 
-//  OpenAI extraction service - SIMPLIFIED VERSION
-// Using pdfjs-dist for text extraction + direct OpenAI API calls
-import { FIELD_MAPPINGS, PAYER_PLANS, type PayerPlan, type ExtractedData, type ComparisonResult } from "@/constants/fields";
+//  LLM extraction service - SIMPLIFIED VERSION
+// Using pdfjs-dist for text extraction + pluggable LLM provider calls (see services/llm)
+import { FIELD_MAPPINGS, type PayerPlan, type ExtractedData, type ComparisonResult, type ConsistencyWarning, type DocumentComparisonResult, type ExtractionProvenance, type ExtractionPass, type ExtractionResult, type FewShotExample, type FieldPassage } from "@/constants/fields";
 import { FIELD_SUGGESTIONS } from "@/constants/fields";
 import { logExtraction } from "@/utils/logging";
-// @ts-ignore - pdfjs-dist has type issues with ESM
-import * as pdfjsLib from 'pdfjs-dist';
-
-// Set worker path for pdfjs
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+import { buildFieldProvenance } from "@/lib/provenance";
+import { compareDocumentValues } from "@/lib/valueComparison";
+import { applyFieldSchema, describeFieldForPrompt, resolveFieldSchema } from "@/lib/fieldTypes";
+import { fieldNames, type FieldDefinition } from "@/constants/fieldSchema";
+import { resolveLLMProvider, type LLMProvider, type LLMProviderConfig, type LLMResponse } from "@/services/llm";
+import { pdfjsLib } from "@/lib/pdfjs";
+import { layoutPage, renderLayoutText, toLayoutItems, type PageLayout } from "@/lib/pdfLayout";
+import { canRasterize, createTesseractEngine, hasTextLayer, ocrPage, type OcrEngine } from "@/lib/ocr";
+import { resolveFieldsFromTables } from "@/lib/tableSearch";
+import { buildPassages, queryText, renderPassages, retrievePassages, type Passage, type RetrievedPassage } from "@/lib/retrieval";
+import { chunkDocumentText, mapWithConcurrency, reduceChunkCandidates, valueInTable, type ChunkCandidate, type TextChunk } from "@/lib/chunking";
+import { extractOnServer, type ExtractionServerConfig } from "@/services/serverExtraction";
+import { cacheKeys, defaultExtractionCache, hashFile, readCache, writeCache, type ExtractionCacheStore } from "@/lib/extractionCache";
+import { candidateExamples, loadFewShotExamples, selectFewShotExamples } from "@/lib/fewShotStore";
+import { needsRevalidation, tallyVotes, toVote, type FieldVote, type VotingMode } from "@/lib/voting";
+import { MARKDOWN_RULES } from "@/constants/payerRules";
+import { applyPayerRules, rulesForPlan } from "@/lib/ruleEngine";
+import { checkConsistency } from "@/lib/consistency";
+import { DEFAULT_FEW_SHOT_EXAMPLES, getPrompt, promptStamp, renderFewShotExamples, renderFieldNotes, renderPrompt, type PromptId, type PromptTemplate, type PromptVersions } from "@/prompts";
 
 declare global {
   interface Window {
@@ -75,10 +89,6 @@ function trackExtractionEvent(
   }
 }
 
-const OPENAI_BASE = "https://api.openai.com/v1";
-const OPENAI_RESPONSES_ENDPOINT = `${OPENAI_BASE}/responses`;
-const OPENAI_CHAT_ENDPOINT = `${OPENAI_BASE}/chat/completions`;
-
 // Model configuration - data science approach: use best model for reasoning
 const EXTRACTION_CONFIG = {
   // gpt-5 has better reasoning for complex document analysis
@@ -91,582 +101,82 @@ const EXTRACTION_CONFIG = {
   CONFIDENCE_THRESHOLD: 0.7,       // Minimum confidence for accepting a value
   
   // ADVANCED METHODS (Clever techniques for large PDFs)
-  USE_CHUNKED_EXTRACTION: true,    // Process large PDFs in overlapping chunks
-  CHUNK_SIZE: 8000,                 // Characters per chunk (with overlap)
-  CHUNK_OVERLAP: 1000,              // Overlap between chunks to not miss boundaries
-  USE_TABLE_FIRST_EXTRACTION: true, // Extract and parse tables separately first
-  USE_SEMANTIC_SEARCH: false,       // Use embeddings to find relevant sections (requires embeddings API)
+  USE_CHUNKED_EXTRACTION: true,    // Map-reduce over overlapping chunks when the text is longer than CHUNK_SIZE
+  CHUNK_SIZE: 60000,                // Characters per chunk (~15k tokens, with overlap)
+  CHUNK_OVERLAP: 2000,              // Overlap between chunks to not miss boundaries
+  MAX_PARALLEL_CHUNKS: 4,           // Chunk calls in flight at once
+  MAX_PARALLEL_DOCUMENTS: 2,        // Documents extracted at once when comparing
+  USE_TABLE_FIRST_EXTRACTION: true, // Read fields from parsed tables first; only the rest go to the LLM
+  USE_RETRIEVAL: true,              // Long documents: each field gets only its top passages (BM25) instead of the whole text
+  USE_SEMANTIC_SEARCH: false,       // Also rank passages by embeddings (needs a provider with an embeddings API)
+  RETRIEVAL_TOP_K: 4,               // Passages per field
+  USE_FEW_SHOT: true,               // Show verified values of the same fields in other documents (src/lib/fewShotStore.ts)
+  FEW_SHOT_PER_FIELD: 2,            // Most similar examples per field
+  // Read model fields more than once and vote (src/lib/voting.ts); 'off' reads once. 'independent' repeats
+  // the same prompt and model, so its passes mostly agree - 'single-field' is the different second opinion.
+  VOTING_MODE: 'off' as VotingMode,
+  VOTING_PASSES: 2,                 // Full extractions per document in 'independent' mode
+  USE_SELECTIVE_REVALIDATION: true, // Revalidate only fields whose passes disagree, that are null or fail validation
   USE_REGEX_VALIDATION: true,       // Validate extracted values with regex patterns
-  USE_CROSS_VALIDATION: true,       // Cross-check values for logical consistency
-  EXTRACT_DOCUMENT_STRUCTURE: true  // First map document structure, then extract
-};
+  USE_CROSS_VALIDATION: true,       // Warn about values that contradict each other (src/lib/consistency.ts) - never changes them
+  EXTRACT_DOCUMENT_STRUCTURE: true, // First map document structure, then extract
 
-function assertKey(apiKey?: string) {
-  if (!apiKey) throw new Error("Missing OpenAI API key");
-}
+  // Part of the result cache key with the template versions - bump when post-processing changes so cached results are redone.
+  // Prompt wording is versioned in src/prompts.
+  PROMPT_VERSION: 12,
+  TEXT_VERSION: 4                  // PDF text format (2: layout-aware, tables as markdown; 3: OCR pages; 4: failed OCR not cached)
+};
 
 /**
- * Helper function to call GPT-5 using the /v1/responses endpoint
- * Falls back to chat/completions if responses endpoint is not available
+ * Helper function to call the configured LLM provider (GPT-5 by default)
+ * OpenAI tries the Responses API first and falls back to chat/completions
  */
 async function callGPT5Responses(params: {
-  apiKey: string;
+  llm: LLMProvider;
   userPrompt: string;
   systemPrompt?: string;
   responseFormat?: 'text' | 'json_object';
-}): Promise<any> {
-  const { apiKey, userPrompt, systemPrompt, responseFormat = 'text' } = params;
-
-  // Try Responses API first
-  try {
-    // Combine system and user prompts
-    const combinedPrompt = systemPrompt 
-      ? `${systemPrompt}\n\n${userPrompt}`
-      : userPrompt;
-
-    // Build request body for Responses API
-    const body: any = {
-      model: "gpt-5",
-      input: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text: combinedPrompt
-            }
-          ]
-        }
-      ]
-    };
-
-    // Set response format if needed
-    if (responseFormat === 'json_object') {
-      body.text = {
-        format: {
-          type: "json_object"
-        }
-      };
-    }
-
-    console.log('[GPT-5 Responses API] Trying Responses API endpoint:', OPENAI_RESPONSES_ENDPOINT);
-
-    const response = await fetch(OPENAI_RESPONSES_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn('[GPT-5 Responses API] Responses API failed, will try Chat Completions fallback:', response.status, errorText);
-      throw new Error(`Responses API not available: ${response.status}`);
-    }
-
-    const data = await response.json();
-    console.log('[GPT-5 Responses API] Success! Response received');
-    
-    // Try multiple paths to extract content from response
-    let content = null;
-    
-    // Try Responses API format - look for message type output with text
-    if (data.output && Array.isArray(data.output)) {
-      // Find the message type output (not reasoning)
-      const messageOutput = data.output.find((item: any) => item.type === 'message');
-      if (messageOutput?.content?.[0]?.text) {
-        content = messageOutput.content[0].text;
-        console.log('[GPT-5 Responses API] Extracted from message output');
-      }
-    }
-    
-    // Fallback: Try other formats
-    if (!content && data.choices?.[0]?.message?.content) {
-      content = data.choices[0].message.content;
-      console.log('[GPT-5 Responses API] Extracted from choices format');
-    }
-    
-    if (!content && data.text) {
-      content = data.text;
-      console.log('[GPT-5 Responses API] Extracted from text field');
-    }
-    
-    if (!content) {
-      console.error('[GPT-5 Responses API] Could not extract content from response:', data);
-      throw new Error('No content found in GPT-5 Responses API response');
-    }
-    
-    // Ensure content is a string
-    if (typeof content !== 'string') {
-      console.warn('[GPT-5 Responses API] Content is not a string, converting...', typeof content);
-      content = String(content);
-    }
-    
-    console.log('[GPT-5 Responses API] Successfully extracted content, type:', typeof content, 'length:', content.length);
-    
-    return {
-      content,
-      raw: data
-    };
-    
-  } catch (responsesApiError) {
-    // Fallback to standard Chat Completions API
-    console.warn('[GPT-5] Responses API failed, falling back to Chat Completions API');
-    console.log('[GPT-5] Fallback error was:', responsesApiError);
-    
-    const messages: any[] = [];
-    if (systemPrompt) {
-      messages.push({
-        role: "system",
-        content: systemPrompt
-      });
-    }
-    messages.push({
-      role: "user",
-      content: userPrompt
-    });
-
-    const body: any = {
-      model: "gpt-5",
-      messages: messages
-    };
-
-    // Add response format for JSON if needed
-    if (responseFormat === 'json_object') {
-      body.response_format = { type: "json_object" };
-    }
-
-    console.log('[GPT-5 Chat Completions] Calling endpoint:', OPENAI_CHAT_ENDPOINT);
-
-    const response = await fetch(OPENAI_CHAT_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[GPT-5 Chat Completions] Error response:', errorText);
-      throw new Error(`GPT-5 Chat Completions API error: ${response.status} ${errorText}`);
-    }
+  model?: string;
+}): Promise<LLMResponse> {
+  const { llm, userPrompt, systemPrompt, responseFormat = 'text', model } = params;
+  const request = { userPrompt, systemPrompt, model };
 
-    const data = await response.json();
-    console.log('[GPT-5 Chat Completions] Response received');
-    
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      console.error('[GPT-5 Chat Completions] Could not extract content from response:', data);
-      throw new Error('No content found in GPT-5 Chat Completions API response');
-    }
-    
-    // Ensure content is a string
-    if (typeof content !== 'string') {
-      console.warn('[GPT-5 Chat Completions] Content is not a string, converting...', typeof content);
-      return {
-        content: String(content),
-        raw: data
-      };
-    }
-    
-    console.log('[GPT-5 Chat Completions] Successfully extracted content, length:', content.length);
-    
-    return {
-      content,
-      raw: data
-    };
-  }
+  return responseFormat === 'json_object'
+    ? llm.completeJSON(request)
+    : llm.completeText(request);
 }
+
 function buildPrompt(
   fields: string[],
-  fieldHints?: Record<string, string[]>,
-  payerPlan?: PayerPlan
+  template: PromptTemplate = getPrompt('table-extraction')
 ): string {
   const safeFields = Array.isArray(fields) ? fields : [];
-  const fieldList = safeFields.map((f) => `- ${f}`).join("\n");
-
-  let hintsSection = "";
-  if (fieldHints && typeof fieldHints === "object" && safeFields.length) {
-    hintsSection =
-      "\nFIELD SYNONYMS (search only; output keys must match exactly):\n" +
-      safeFields
-        .map((f) => {
-          const hints = fieldHints[f];
-          if (!hints || !Array.isArray(hints) || hints.length === 0) return "";
-          return `- ${f}: ${hints.join(", ")}`;
-        })
-        .filter(Boolean)
-        .join("\n") +
-      "\n";
-  }
-
-  // Field-specific extraction instructions
-  const fieldSpecificInstructions = {
-    'Psychiatric treatment and Psychotherapy': {
-      searchTerms: [
-        'Psychiatric treatment and Psychotherapy',
-        'Psychiatric treatment & Psychotherapy',
-        'Psychiatric Treatment',
-        'Psychotherapy',
-        'Mental Health',
-        'Psychiatric care',
-        'Psychological treatment'
-      ],
-      instructions: 'This field is CRITICAL and often missed. Search EVERYWHERE in the document. Look in: 1) Main benefits table, 2) Exclusions/limitations section, 3) Special conditions, 4) Mental health section. Try both "and" and "&" variations. Check for coverage limits, exclusions, or "Not Covered" statements. This field MUST be found - search multiple times if needed.'
-    },
-    'Al Ahli Hospital': {
-      searchTerms: [
-        'Al Ahli Hospital',
-        'Al-Ahli Hospital',
-        'Al Ahli',
-        'Provider-specific co-insurance at Al Ahli Hospital',
-        'Provider Specific Co-insurance',
-        'Additional co-insurance',
-        'Additional deductible'
-      ],
-      instructions: 'This field is CRITICAL and often in a special table. Look for: 1) A table titled "Provider Specific Co-insurance/deductible" or "Additional co-insurance/deductible will apply", 2) Find the row where "Al Ahli Hospital" or "Al-Ahli Hospital" appears, 3) Extract the value in the cell NEXT to "Al Ahli Hospital" (same row, next column), 4) Check for co-insurance percentages or deductible amounts, 5) If not found in special table, check main benefits section. DO NOT confuse with general co-insurance - this must be specifically for Al Ahli Hospital.'
-    },
-    'Dental Benefit': {
-      searchTerms: ['Dental Benefit', 'Dental Coverage', 'Dental Plan', 'Dental', 'Oral Care'],
-      instructions: 'Look for a dedicated dental section or benefits table. Check for annual maximums, coverage percentages, or specific procedures covered.'
-    },
-    'Optical Benefit': {
-      searchTerms: ['Optical Benefit', 'Vision Coverage', 'Eye Care', 'Glasses', 'Contact Lenses', 'Vision', 'Eye'],
-      instructions: 'Search for vision/optical sections. Look for coverage amounts for frames, lenses, or eye exams. Check for frequency limits (e.g., annual coverage).'
-    },
-    'Deductible on consultation': {
-      searchTerms: ['Deductible on consultations', 'Consultation Deductible', 'OPD Deductible', 'Outpatient Deductible'],
-      instructions: 'Check the deductible section, especially for outpatient or consultation services. Look for per-visit or annual deductibles.'
-    }
-  };
-
-  // Generate field-specific instructions
-  const fieldInstructions = Object.entries(fieldSpecificInstructions)
-    .filter(([field]) => safeFields.includes(field))
-    .map(([field, {searchTerms, instructions}]) => {
-      return `\n=== ${field.toUpperCase()} ===\n` +
-      `1. Search for these exact terms: ${searchTerms.join(', ')}\n` +
-      `2. ${instructions}\n` +
-      `3. If not found, check these alternative locations:\n` +
-      `   - Benefits Summary section\n` +
-      `   - Coverage Details\n` +
-      `   - Policy Schedule\n` +
-      `4. If still not found, use 'null'`;
-    }).join('\n\n');
-
-  // General extraction instructions
-  const generalInstructions = "\n=== GENERAL EXTRACTION RULES ===\n" +
-  "1. Search for field names THOROUGHLY throughout the ENTIRE document\n" +
-  "2. Use CASE-INSENSITIVE matching (e.g., 'Psychiatric' = 'psychiatric')\n" +
-  "3. Try MULTIPLE variations of field names (&/and, singular/plural)\n" +
-  "4. For tables, look for field names in the left column and values in the right column\n" +
-  "5. Check MULTIPLE sections: main benefits, exclusions, limitations, special tables\n" +
-  "6. Preserve all original formatting (QAR, %, dates, etc.)\n" +
-  "7. If a field is not found after THOROUGH searching, use 'null' (without quotes)\n" +
-  "8. For boolean fields, use 'true' or 'false' (without quotes)\n" +
-  "9. CRITICAL: Some fields appear in special tables (e.g., 'Provider Specific Co-insurance') - check these too";
-
-  const specificInstructions = generalInstructions;
-
-  return (
-    "You are an excellent insurance policy data extraction expert for Al-Ahli hospital with PERFECT ACCURACY. Your sole purpose is to extract data from insurance PDFs with 100% precision. You analyze documents in detail and extract ONLY what is explicitly present. Never infer or hallucinate values that aren't clearly stated. Your output must be clean, consistent, and exactly match the document's content. Return NULL for any field you cannot find with certainty.\n\n" +
-    "Extract the following fields from the insurance document with MAXIMUM ACCURACY.\n\n" +
-    "=== EXTRACTION RULES ===\n" +
-    "1. Search in this order: tables (left column = field, right column = value) → text sections\n" +
-    "2. Extract COMPLETE values including conditions, percentages, and amounts\n" +
-    "3. Preserve original formatting (QAR, %, dates, etc.) exactly as shown\n" +
-    "4. If field not found, use 'null' (without quotes)\n\n" +
-    "=== OUTPUT FORMAT (MUST FOLLOW EXACTLY) ===\n" +
-    "```markdown\n" +
-    "| Field Name | Value |\n" +
-    "|------------|-------|\n" +
-    "| Field 1    |  Value 1 |\n" +
-    "| Field 2    | null |\n" +
-    "```\n\n" +
-    "=== IMPORTANT ===\n" +
-    "- Return ONLY the markdown table, no other text\n" +
-    "- Use 'null' for missing fields\n" +
-    "- Keep all original formatting\n" +
-    "- DO NOT include explanations or notes\n\n" +
-    specificInstructions +
-    "\n\n=== FIELDS TO EXTRACT (exact names) ===\n" +
-    fieldList +
-    "\n\n Use your best judgement for extracting the right values" +
-    "\nReturn ONLY the markdown table with exactly 2 columns, no other text."
-  );
-}
-
-async function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
-        const base64 = reader.result.split(',')[1];
-        resolve(base64);
-      } else {
-        reject(new Error('Failed to read file as base64'));
-      }
-    }; reader.onerror = () => reject(reader.error);
-    reader.readAsDataURL(file);
-  });
-}
-
-/**
- * CLEVER METHOD 1: Extract all tables from markdown into structured format
- * This allows us to search tables systematically without re-parsing
- */
-function extractAllTables(markdown: string): Array<{
-  title: string;
-  headers: string[];
-  rows: string[][];
-  rawText: string;
-  startIndex: number;
-}> {
-  const tables = [];
-  const lines = markdown.split('\n');
-  let i = 0;
-  
-  while (i < lines.length) {
-    const line = lines[i];
-    
-    // Check if this is a table line (starts with |)
-    if (line.trim().startsWith('|')) {
-      // Look back for table title (usually just before table)
-      let title = '';
-      if (i > 0 && !lines[i-1].trim().startsWith('|') && lines[i-1].trim().length > 0) {
-        title = lines[i-1].trim();
-      }
-      
-      // Extract table
-      const tableStart = i;
-      const tableLines = [];
-      
-      while (i < lines.length && lines[i].trim().startsWith('|')) {
-        tableLines.push(lines[i]);
-        i++;
-      }
-      
-      if (tableLines.length >= 2) {
-        // Parse table
-        const headers = tableLines[0]
-          .split('|')
-          .map(h => h.trim())
-          .filter(h => h.length > 0 && !h.match(/^-+$/));
-        
-        // Skip separator line (usually line 1)
-        const rows = [];
-        for (let j = 1; j < tableLines.length; j++) {
-          const cells = tableLines[j]
-            .split('|')
-            .map(c => c.trim())
-            .filter((c, idx) => idx > 0 && idx <= headers.length);
-          
-          // Skip separator lines
-          if (!cells.every(c => c.match(/^-*$/))) {
-            rows.push(cells);
-          }
-        }
-        
-        tables.push({
-          title,
-          headers,
-          rows,
-          rawText: tableLines.join('\n'),
-          startIndex: tableStart
-        });
-        
-        console.log(`[Table Extraction] Found table "${title}" with ${rows.length} rows and ${headers.length} columns`);
-      }
-    }
-    
-    i++;
-  }
-  
-  console.log(`[Table Extraction] Total tables found: ${tables.length}`);
-  return tables;
-}
+  const fieldNotes = renderFieldNotes(safeFields);
 
-/**
- * CLEVER METHOD 2: Search for field in structured tables
- * Much faster and more accurate than searching raw markdown
- */
-function searchFieldInTables(
-  fieldName: string,
-  fieldVariations: string[],
-  tables: Array<{title: string; headers: string[]; rows: string[][]}>
-): { value: any; source: string; confidence: number } | null {
-  
-  const allFieldNames = [fieldName, ...fieldVariations];
-  
-  // Normalize field names for comparison
-  const normalizeField = (f: string) => f.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const normalizedTargets = allFieldNames.map(normalizeField);
-  
-  for (let tableIdx = 0; tableIdx < tables.length; tableIdx++) {
-    const table = tables[tableIdx];
-    
-    // Search in each row
-    for (let rowIdx = 0; rowIdx < table.rows.length; rowIdx++) {
-      const row = table.rows[rowIdx];
-      
-      // Typically, field name is in first column, value in second
-      if (row.length >= 2) {
-        const cellName = row[0];
-        const cellValue = row[1];
-        const normalizedCellName = normalizeField(cellName);
-        
-        // Check if this row matches our field
-        for (const normalizedTarget of normalizedTargets) {
-          if (normalizedCellName === normalizedTarget || 
-              normalizedCellName.includes(normalizedTarget) ||
-              normalizedTarget.includes(normalizedCellName)) {
-            
-            console.log(`[Table Search] Found "${fieldName}" in table "${table.title}", row ${rowIdx}: ${cellValue}`);
-            
-            return {
-              value: cellValue,
-              source: `Table "${table.title}", row ${rowIdx + 1}`,
-              confidence: 0.95  // High confidence for exact table match
-            };
-          }
-        }
-      }
-      
-      // Also check if field name appears in any other column (for multi-column tables)
-      for (let colIdx = 0; colIdx < row.length - 1; colIdx++) {
-        const cellName = row[colIdx];
-        const normalizedCellName = normalizeField(cellName);
-        
-        for (const normalizedTarget of normalizedTargets) {
-          if (normalizedCellName === normalizedTarget) {
-            const cellValue = row[colIdx + 1];
-            console.log(`[Table Search] Found "${fieldName}" in table "${table.title}", row ${rowIdx}, col ${colIdx}: ${cellValue}`);
-            
-            return {
-              value: cellValue,
-              source: `Table "${table.title}", row ${rowIdx + 1}, col ${colIdx + 1}`,
-              confidence: 0.90
-            };
-          }
-        }
-      }
-    }
-  }
-  
-  return null;
-}
-
-/**
- * CLEVER METHOD 3: Chunk large documents with overlap
- * Prevents missing fields at chunk boundaries
- */
-function chunkMarkdown(markdown: string, chunkSize: number, overlap: number): string[] {
-  if (markdown.length <= chunkSize) {
-    return [markdown];
-  }
-  
-  const chunks = [];
-  let start = 0;
-  
-  while (start < markdown.length) {
-    const end = Math.min(start + chunkSize, markdown.length);
-    const chunk = markdown.substring(start, end);
-    chunks.push(chunk);
-    
-    // Move start forward, but with overlap
-    start = end - overlap;
-    
-    // If we're at the end, break
-    if (end === markdown.length) break;
-  }
-  
-  console.log(`[Chunking] Split document into ${chunks.length} chunks (size: ${chunkSize}, overlap: ${overlap})`);
-  return chunks;
-}
-
-/**
- * CLEVER METHOD 4: Regex validation for common field patterns
- */
-function validateExtractedValueWithRegex(fieldName: string, value: string): { valid: boolean; suggestion?: string } {
-  if (!value || value === 'null') return { valid: true };
-  
-  const patterns: Record<string, { regex: RegExp; description: string }> = {
-    // QAR amounts
-    amount: { regex: /QAR\s*[\d,]+(?:\s*(?:per|\/)\s*\w+)?/i, description: 'QAR amount' },
-    // Percentages
-    percentage: { regex: /\d+\s*%/, description: 'percentage' },
-    // Dates
-    date: { regex: /\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4}/, description: 'date' },
-    // Policy numbers
-    policyNumber: { regex: /[A-Z0-9\-]{5,}/, description: 'policy number' },
-    // Coverage terms
-    coverage: { regex: /(?:covered|not covered|nil|yes|no)/i, description: 'coverage term' }
-  };
-  
-  // Field-specific validation
-  const lowerField = fieldName.toLowerCase();
-  
-  if (lowerField.includes('date')) {
-    if (!patterns.date.regex.test(value)) {
-      return { valid: false, suggestion: 'Expected date format (DD/MM/YYYY or similar)' };
-    }
-  }
-  
-  if (lowerField.includes('policy') && lowerField.includes('number')) {
-    if (!patterns.policyNumber.regex.test(value)) {
-      return { valid: false, suggestion: 'Expected policy number format' };
-    }
-  }
-  
-  if (lowerField.includes('co-insurance') || lowerField.includes('coinsurance')) {
-    if (!patterns.percentage.regex.test(value) && !patterns.coverage.regex.test(value)) {
-      return { valid: false, suggestion: 'Expected percentage or coverage term' };
-    }
-  }
-  
-  // Check if value looks like a valid extraction (not just punctuation or very short)
-  if (value.length < 2 && !patterns.percentage.regex.test(value)) {
-    return { valid: false, suggestion: 'Value too short' };
-  }
-  
-  return { valid: true };
+  return renderPrompt(template, {
+    fieldNotes: fieldNotes ? `\n${fieldNotes}\n` : '',
+    fields: safeFields.map((f) => `- ${f}`).join("\n"),
+  }).user;
 }
 
 /**
  * CLEVER METHOD 5: Document structure extraction
  * Map the document structure first to understand where fields might be
  */
-async function extractDocumentStructure(markdown: string, apiKey: string): Promise<{
+async function extractDocumentStructure(markdown: string, llm: LLMProvider): Promise<{
   sections: string[];
   tableLocations: string[];
   fieldHints: Record<string, string>;
 }> {
-  const prompt = `Analyze this insurance policy document and extract its structure.
-
-Return a JSON object with:
-{
-  "sections": ["section names in order"],
-  "tableLocations": ["where tables appear"],
-  "fieldHints": {"fieldName": "likely section where it appears"}
-}
-
-Document:
-
-${markdown.substring(0, 4000)}... [truncated for structure analysis]
-
-Return ONLY valid JSON.`;
+  const { user: prompt, system } = renderPrompt(getPrompt('document-structure'), {
+    document: markdown.substring(0, 4000),
+  });
 
   try {
     const result = await callGPT5Responses({
-      apiKey,
+      llm,
       userPrompt: prompt,
-      systemPrompt: "You are a document structure analyzer. Return only valid JSON.",
+      systemPrompt: system,
       responseFormat: 'json_object'
     });
 
@@ -689,44 +199,26 @@ async function extractSingleField(
   markdown: string,
   fieldName: string,
   fieldHints: string[],
-  apiKey: string
-): Promise<{ value: any; confidence: number }> {
+  llm: LLMProvider,
+  template: PromptTemplate = getPrompt('single-field')
+): Promise<{ value: any; confidence: number; source: string | null }> {
   const hintsText = fieldHints.length > 0 
     ? `\nAlternative names to search for: ${fieldHints.join(", ")}`
     : "";
   
-  const prompt = `You are an expert at extracting a SINGLE field from insurance documents.
-
-TARGET FIELD: "${fieldName}"
-${hintsText}
-
-TASK: Find the value for "${fieldName}" in the markdown document below.
-
-SEARCH STRATEGY:
-1. Check ALL tables in the document
-2. Try exact match and case-insensitive match
-3. Try alternative names: & vs and, plural vs singular
-4. Check special tables (e.g., Provider Specific Co-insurance for Al Ahli Hospital)
-
-OUTPUT FORMAT - Return a JSON object:
-{
-  "field": "${fieldName}",
-  "value": "extracted value or null if not found",
-  "confidence": 0.95,
-  "source": "description of where found (e.g., 'Main benefits table, row 5')"
-}
-
-MARKDOWN DOCUMENT:
-
-${markdown}
-
-Return ONLY the JSON object.`;
+  const fieldNotes = renderFieldNotes([fieldName]);
+  const { user: prompt, system } = renderPrompt(template, {
+    field: fieldName,
+    synonyms: hintsText,
+    fieldNotes: fieldNotes ? `${fieldNotes}\n` : '',
+    document: markdown,
+  });
 
   try {
     const result = await callGPT5Responses({
-      apiKey,
+      llm,
       userPrompt: prompt,
-      systemPrompt: "You are a precision field extractor. Return valid JSON only.",
+      systemPrompt: system,
       responseFormat: 'json_object'
     });
 
@@ -735,14 +227,15 @@ Return ONLY the JSON object.`;
       console.log(`[Single Field] ${fieldName}: ${parsed.value} (confidence: ${parsed.confidence}, source: ${parsed.source})`);
       return {
         value: parsed.value === "null" ? null : parsed.value,
-        confidence: parsed.confidence || 0.5
+        confidence: parsed.confidence || 0.5,
+        source: parsed.source || null
       };
     }
   } catch (error) {
     console.warn(`Single field extraction failed for ${fieldName}:`, error);
   }
   
-  return { value: null, confidence: 0 };
+  return { value: null, confidence: 0, source: null };
 }
 
 /**
@@ -751,7 +244,7 @@ Return ONLY the JSON object.`;
 async function extractFieldsFromMarkdown(
   markdown: string,
   fields: string[],
-  apiKey: string,
+  llm: LLMProvider,
   payerPlan?: PayerPlan
 ): Promise<Record<string, any>> {
   const fieldList = fields.map((f) => `- ${f}`).join("\n");
@@ -812,143 +305,14 @@ async function extractFieldsFromMarkdown(
     }
   }
 
-  // Few-shot examples to guide the model (data science approach)
-  const fewShotExamples = `
-EXAMPLE 1 - Table Extraction:
-If markdown contains:
-| Benefit | Coverage |
-|---------|----------|
-| Dental Benefit | QAR 500 per year |
-| Optical Benefit | Not covered |
-
-Then extract:
-| Field Name | Value |
-|------------|-------|
-| Dental Benefit | QAR 500 per year |
-| Optical Benefit | Not covered |
-
-EXAMPLE 2 - Provider-Specific Table:
-If markdown contains a table titled "Provider Specific Co-insurance":
-| Provider | Co-insurance |
-|----------|--------------|
-| Al Ahli Hospital | 10% |
-| Other providers | 20% |
-
-Then for "Al Ahli Hospital" field, extract: 10%
-
-EXAMPLE 3 - Field Name Variations:
-If searching for "Psychiatric treatment and Psychotherapy" and document has:
-| Benefit | Coverage |
-|---------|----------|
-| Psychiatric treatment & Psychotherapy | QAR 1000 |
-
-Then extract: QAR 1000 (even though "&" vs "and" differs)
-
-EXAMPLE 4 - Missing Field:
-If searching for "Dental Coverage" and it's truly not in any table or text:
-| Field Name | Value |
-|------------|-------|
-| Dental Coverage | null |
-`;
-
-  const prompt = `You are an expert insurance policy data extraction assistant with PERFECT ACCURACY.
-
-You will be given a MARKDOWN document (converted from a PDF insurance policy). Your task is to extract specific fields from this markdown with 100% precision.
-
-${fewShotExamples}
-
-CRITICAL EXTRACTION RULES:
-
-1. **Search Strategy - CHECK ALL TABLES FIRST**:
-   - STEP 1: Count how many tables exist in the markdown document
-   - STEP 2: Search EACH table systematically for the field:
-     * Main benefits table (usually the first/largest table)
-     * Provider-specific tables (e.g., "Provider Specific Co-insurance/deductible")
-     * Exclusions or limitations tables
-     * Any other tables in the document
-   - STEP 3: For each table, scan EVERY row looking for the field name
-   - STEP 4: Check synonyms and alternative field names (see field synonyms below)
-   - STEP 5: Look in text sections if not found in any table
-   - IMPORTANT: When searching for field names, also check for "&" vs "and" variations
-     Example: "Vaccination & Immunization" might appear as "Vaccination and Immunization"
-   - Be case-insensitive: "Psychiatric" = "psychiatric", "Childbirth" = "childbirth"
-
-2. **Accuracy Requirements**:
-   - Extract ONLY what is explicitly present in the document
-   - NEVER infer or hallucinate values
-   - If a field is not found with certainty, use 'null'
-   - Preserve exact formatting (QAR, %, dates, etc.)
-
-3. **Table Parsing (CRITICAL - Most Data is in Tables)**:
-   - VERIFY: Count how many tables exist in the markdown - check ALL of them
-   - Tables use | separators in markdown
-   - Field names are typically in the left column (first column)
-   - Values are in the right column (second column or adjacent column)
-   - Multi-column tables: scan all columns to find field names
-   - Check EVERY row in EVERY table - don't skip any rows
-   - Extract complete values including conditions, percentages, amounts
-   - Special tables (e.g., "Provider Specific Co-insurance") contain critical fields
-   - If you don't find a field in the main table, check OTHER tables
-
-4. **Value Extraction**:
-   - Include all details (amounts, percentages, conditions)
-   - Keep original formatting exactly as shown
-   - For multi-part values, include the complete text
-
-5. **Field Name Matching**:
-   - Be flexible with "&" and "and" - treat them as equivalent
-   - Be flexible with capitalization (e.g., "Childbirth" vs "childbirth")
-   - Example matches:
-     • "Vaccinations & Immunizations" = "Vaccinations and Immunizations"
-     • "Pregnancy & Childbirth" = "Pregnancy and childbirth"
-     • "Psychiatric treatment and Psychotherapy" = "Psychiatric treatment and Psychotherapy"
-   - Always return the EXACT field name as requested (with exact capitalization and & if specified)
-
-6. **CRITICAL FIELDS - FREQUENTLY MISSED**:
-   
-   A. **Al Ahli Hospital** (if requested):
-      - This field is FREQUENTLY MISSED - pay extra attention
-      - Look for a table titled "Provider Specific Co-insurance/deductible" or similar
-      - Table may say: "Additional co-insurance/deductible will apply on all services in below mentioned providers"
-      - Find the row where "Al Ahli Hospital" or "Al-Ahli Hospital" is mentioned
-      - Extract the value in the cell BESIDE/NEXT TO "Al Ahli Hospital" (same row, next column)
-      - The value might be: a percentage (e.g., "10%"), an amount (e.g., "QAR 100"), or "Not applicable"
-      - DO NOT confuse with general co-insurance - this must be SPECIFIC to Al Ahli Hospital
-      - If the special table doesn't exist, return 'Not applicable'
-   
-   B. **Psychiatric treatment and Psychotherapy** (if requested):
-      - This field is FREQUENTLY MISSED - search thoroughly
-      - Try BOTH variations: "Psychiatric treatment and Psychotherapy" AND "Psychiatric treatment & Psychotherapy"
-      - Search in multiple sections: main benefits table, exclusions, limitations, mental health
-      - May appear as: "Psychiatric Treatment", "Psychotherapy", "Mental Health Coverage"
-      - Look for: coverage amounts, limits, exclusions, or "Not Covered" statements
-      - Be case-insensitive when searching (e.g., "childbirth" vs "Childbirth")
-      - Search the ENTIRE document - check every table and text section
-
-OUTPUT FORMAT (MUST FOLLOW EXACTLY):
-\`\`\`markdown
-| Field Name | Value |
-|------------|-------|
-| Field 1    | Value 1 |
-| Field 2    | null |
-\`\`\`
-
-IMPORTANT:
-- Return ONLY the markdown table, no other text or explanations
-- Use 'null' for missing fields (without quotes)
-- Keep all original formatting from the document
-- Match field names EXACTLY as provided below
-
-${hintsSection}
-
-FIELDS TO EXTRACT (exact names):
-${fieldList}
-
-MARKDOWN DOCUMENT TO ANALYZE:
-
-${markdown}
-
-Return ONLY the markdown table with exactly 2 columns: Field Name and Value.`;
+  const fieldNotes = renderFieldNotes(fields);
+  const { user: prompt, system } = renderPrompt(getPrompt('markdown-extraction'), {
+    fewShot: DEFAULT_FEW_SHOT_EXAMPLES,
+    fieldNotes: fieldNotes ? `\n6. **FIELD-SPECIFIC NOTES - FREQUENTLY MISSED**:\n\n${fieldNotes}\n` : '',
+    synonyms: hintsSection,
+    fields: fieldList,
+    document: markdown,
+  });
 
   // Data science approach: Use gpt-5 Responses API for better reasoning
   let content;
@@ -957,7 +321,7 @@ Return ONLY the markdown table with exactly 2 columns: Field Name and Value.`;
   try {
     // Try gpt-5 first using Responses API
     const result = await callGPT5Responses({
-      apiKey,
+      llm,
       userPrompt: prompt,
       responseFormat: 'text'
     });
@@ -973,9 +337,9 @@ Return ONLY the markdown table with exactly 2 columns: Field Name and Value.`;
     modelUsed = EXTRACTION_CONFIG.FALLBACK_MODEL;
     
     const result = await callGPT5Responses({
-      apiKey,
+      llm,
       userPrompt: prompt,
-      systemPrompt: "You are a medical insurance policy data extraction expert with PERFECT ACCURACY. Extract data from markdown documents with 100% precision.",
+      systemPrompt: system,
       responseFormat: 'text'
     });
     
@@ -1008,8 +372,9 @@ async function revalidateExtractedFields(
   markdown: string,
   initialExtraction: Record<string, any>,
   fields: string[],
-  apiKey: string,
-  passNumber: number = 1
+  llm: LLMProvider,
+  passNumber: number = 1,
+  template: PromptTemplate = getPrompt('revalidation')
 ): Promise<Record<string, any>> {
   console.log(`Starting field revalidation (Pass ${passNumber})...`);
   
@@ -1028,94 +393,23 @@ async function revalidateExtractedFields(
     ? "Your task: REVALIDATE and IMPROVE the extraction with 100% accuracy."
     : "Your task: FINAL CROSS-CHECK - verify EVERY field one more time with MAXIMUM scrutiny. This is the last chance to catch any errors or missing values.";
   
-  const prompt = `You are an expert insurance policy data validator with PERFECT ACCURACY.
-
-${passDescription}
-
-You will receive:
-1. A MARKDOWN document (insurance policy)
-2. Previous extraction results
-3. A list of fields that need revalidation
-
-${passInstructions}
-
-PREVIOUS EXTRACTION (may have errors or missing values):
-${initialResults}
-
-REVALIDATION RULES:
-
-1. **Verify EVERY Field Systematically**:
-   - Re-search the ENTIRE markdown for EACH field individually
-   - For each field, check ALL tables in the document - don't skip any
-   - Verify the current value is correct by finding it again in the source
-   - If value is missing (NOT FOUND), do an exhaustive search:
-     * Check every table (count them - did you check them all?)
-     * Check every text section
-     * Try all possible name variations
-   - If value seems wrong or generic, find the correct specific value
-
-2. **Comprehensive Table Search Strategy**:
-   - CRITICAL: Tables contain most field values - check them thoroughly
-   - Count how many tables are in the markdown document
-   - Check EACH table systematically:
-     * Main benefits table (usually the largest)
-     * Provider-specific tables (e.g., "Provider Specific Co-insurance/deductible")
-     * Exclusions/limitations tables
-     * Additional benefits tables
-     * Special conditions tables
-   - For each table, scan EVERY row for the field name
-   - Look for field names with variations (&/and, singular/plural, case differences)
-   - Check both left column (field names) and headers (for multi-column tables)
-   
-   **CRITICAL FIELDS (frequently missed - double check these):**
-   - "Al Ahli Hospital": This is often in a SEPARATE table titled "Provider Specific Co-insurance/deductible". Find the row with "Al Ahli Hospital" and extract value from NEXT column. If no special table exists, return 'Not applicable'.
-   - "Psychiatric treatment and Psychotherapy": Try both "and" and "&". Search ALL tables. Check: benefits table, exclusions table, mental health sections. Look for variations: "Psychiatric Treatment", "Psychotherapy", "Mental Health".
-
-3. **Quality Checks for Each Value**:
-   - Does the value make sense for this field type?
-   - Is the formatting correct (QAR, %, dates, amounts)?
-   - Is it complete with all conditions/details?
-   - Does it look like a complete answer or truncated?
-   - Are there any obvious errors or placeholders?
-   - Did you extract from the correct table row/column?
-
-4. **Improvement Focus**:
-   - Fields marked as "NOT FOUND" - search HARDER, check EVERY table again
-   - Values that seem generic or vague - find specific details
-   - Missing conditions or percentages - include them fully
-   - Incomplete information - extract the complete value
-   - Suspicious values - verify against source table
-
-5. **Output Requirements**:
-   - Return ALL fields (even if value doesn't change from previous pass)
-   - Use 'null' ONLY if truly not found after checking EVERY table
-   - Preserve exact formatting from document (QAR, %, etc.)
-   - Return EXACT field names as requested (match case and punctuation)
-
-FIELDS TO REVALIDATE:
-${fieldList}
-
-MARKDOWN DOCUMENT:
-
-${markdown}
-
-Return ONLY a markdown table with exactly 2 columns: Field Name and Value.
-
-OUTPUT FORMAT:
-\`\`\`markdown
-| Field Name | Value |
-|------------|-------|
-| Field 1    | Value 1 |
-| Field 2    | null |
-\`\`\``;
+  const fieldNotes = renderFieldNotes(fields);
+  const { user: prompt, system } = renderPrompt(template, {
+    passDescription,
+    passInstructions,
+    previousResults: initialResults,
+    fieldNotes: fieldNotes ? `\n   **CRITICAL FIELDS (frequently missed - double check these):**\n${fieldNotes}\n` : '',
+    fields: fieldList,
+    document: markdown,
+  });
 
   let content;
   
   try {
     const result = await callGPT5Responses({
-      apiKey,
+      llm,
       userPrompt: prompt,
-      systemPrompt: "You are an expert insurance policy data validator. Your job is to revalidate and improve field extractions with 100% accuracy.",
+      systemPrompt: system,
       responseFormat: 'text'
     });
     
@@ -1159,10 +453,18 @@ OUTPUT FORMAT:
   return revalidatedData;
 }
 
+interface PdfText {
+  text: string;
+  ocrPages: Record<number, number>;  // Pages read by OCR -> mean OCR confidence (0-1)
+  unreadPages: number[];             // Scanned pages OCR failed on or wasn't available for
+}
+
 /**
- * Extract text from PDF using pdfjs-dist (browser-compatible)
+ * Extract text from PDF using pdfjs-dist (browser-compatible). Lines and table
+ * cells are rebuilt from item positions, so tables reach the model as markdown.
+ * Pages without a text layer (scans) go through OCR when an engine is available.
  */
-async function extractTextFromPDF(file: File): Promise<string> {
+async function extractTextFromPDF(file: File, ocr: OcrEngine | null): Promise<PdfText> {
   console.log('[PDF Parser] Starting text extraction...');
   
   const arrayBuffer = await file.arrayBuffer();
@@ -1170,412 +472,310 @@ async function extractTextFromPDF(file: File): Promise<string> {
   
   console.log(`[PDF Parser] Total pages: ${pdf.numPages}`);
   
-  let fullText = '';
-  
-  // Extract text from each page
+  const pages: PageLayout[] = [];
+  const ocrPages: Record<number, number> = {};
+  const unreadPages: number[] = [];
   for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
     const page = await pdf.getPage(pageNum);
     const textContent = await page.getTextContent();
-    
-    // Combine all text items
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-    
-    fullText += `\n\n=== PAGE ${pageNum} ===\n\n${pageText}`;
+    let items = toLayoutItems(textContent.items);
+
+    if (!hasTextLayer(items)) {
+      if (!ocr) {
+        console.warn(`[PDF Parser] Page ${pageNum} has no text layer and OCR is not available here`);
+        unreadPages.push(pageNum);
+      } else {
+        try {
+          console.log(`[OCR] Page ${pageNum} has no text layer - running OCR...`);
+          const result = await ocrPage(page, ocr);
+          items = result.items;
+          ocrPages[pageNum] = result.confidence;
+          console.log(`[OCR] Page ${pageNum}: ${items.length} words, ${Math.round(result.confidence * 100)}% confidence`);
+        } catch (error) {
+          console.error(`[OCR] Page ${pageNum} failed:`, error);
+          unreadPages.push(pageNum);
+        }
+      }
+    }
+    pages.push(layoutPage(pageNum, items));
   }
   
-  console.log(`[PDF Parser] Extracted ${fullText.length} characters`);
-  return fullText;
+  const fullText = renderLayoutText(pages);
+  console.log(`[PDF Parser] Extracted ${fullText.length} characters, ${pages.reduce((n, p) => n + p.tables.length, 0)} tables`);
+  return { text: fullText, ocrPages, unreadPages };
 }
 
 /**
- * Extract fields directly from PDF text using OpenAI (SIMPLIFIED APPROACH)
+ * Extract fields directly from PDF text using the LLM provider (SIMPLIFIED APPROACH)
  */
 async function extractFieldsDirectly(
   pdfText: string,
-  fieldsToExtract: string[],
-  apiKey: string,
+  schema: FieldDefinition[],
+  llm: LLMProvider,
   payerPlan?: PayerPlan,
-  payerPlanName?: string
+  payerPlanName?: string,
+  ocrPages: number[] = [],
+  template: PromptTemplate = getPrompt('field-extraction'),
+  examples: Record<string, FewShotExample[]> = {}, // Few-shot examples by field
+  excerpt?: string                 // What part of the document pdfText is, when it is not all of it
 ): Promise<Record<string, any>> {
-  console.log('[OpenAI] Extracting fields directly from PDF text...');
-  
-  const prompt = `You are an expert at extracting data from insurance policy documents.
-
-DOCUMENT CONTEXT:
-- Payer Plan: ${payerPlanName || payerPlan || 'Insurance Policy'}
-- This is an insurance benefits document that contains policy details and coverage information.
-
-FIELDS TO EXTRACT:
-${fieldsToExtract.map((field, idx) => `${idx + 1}. ${field}`).join('\n')}
-
-EXTRACTION RULES:
-1. Extract ONLY the actual coverage/benefit values, NOT descriptions, conditions, or age restrictions
-2. For percentages, return just the number with % (e.g., "20%")
-3. For currency amounts, include currency and amount (e.g., "QAR 7,500", "QAR 100")
-4. For coverage limits, use exact wording (e.g., "Unlimited", "Not covered", "QAR 50,000", "Covered")
-5. For multiple values (like co-insurance per hospital), list them clearly separated by commas
-6. For dates, use format: DD/MM/YYYY
-7. For "Not Found" or missing fields, return "Nil"
-8. Be precise - extract exactly what's in the document, no interpretation
-
-IMPORTANT:
-- Look for values in tables, headers, and body text
-- Check both page 1 (header/policy info) and subsequent pages (benefits tables)
-- For fields like Policy Number, Category, Effective Date - check the header section
-- For benefits like co-insurance, deductibles, coverage - check benefits tables
-
-CRITICAL - VALUE vs DESCRIPTION:
-- In tables, the VALUE is typically in the coverage/benefit column (often the rightmost column)
-- Age restrictions, conditions, or regulatory notes are NOT the value - they are descriptions
-- Example: If a table shows "Vaccination of children | Covered | Up to age 6 years per MoH regulations"
-  → Extract "Covered" (the value), NOT "Up to age 6 years per MoH regulations" (the description)
-- Example: If it shows "Dental | QAR 500 | Annual limit"
-  → Extract "QAR 500" (the value), NOT "Annual limit" (the description)
-- If the table structure shows: Field Name | Coverage Status | Additional Notes
-  → Extract from the Coverage Status column, not the Additional Notes column
-
-SPECIAL FIELD INSTRUCTIONS:
-- "Vaccination of children": 
-  * First priority: Look for exact coverage value (QAR amount, percentage, or "Covered"/"Not covered")
-  * Extract from the coverage/benefit column, NOT from description/conditions columns
-  * Ignore age limits, regulations, or Ministry of Health references - these are conditions, not values
-  * If you find description text only (like "Up to age 6" or "Based on MoH regulations"), return "Covered" as default
-  * Only return "Nil" or "Not covered" if explicitly stated
-- Benefits with amounts: Extract the QAR amount or percentage, not the conditions
-- Coverage fields: Extract "Covered", "Not covered", "Nil", or specific amounts only
-
-IMPORTANT - Default Values:
-- For "Vaccination of children": If unclear or only description found, default to "Covered"
-- For other fields: If null or not found, send as "Nil"
-  
-DOCUMENT TEXT:
-${pdfText}
-
-OUTPUT:
-Return a JSON object where each key is a field name and the value is the extracted data (or null if not found).
-Example:
-{
-  "Policy Number": "123456",
-  "Category": "Premium",
-  "Co-insurance": "20%",
-  "Dental Benefit": "QAR 7,500, 20% co-insurance"
-}
-
-Extract the fields now:`;
+  console.log(`[${llm.kind}] Extracting fields directly from PDF text (${promptStamp(template)})...`);
+
+  // Per-field guidance comes from the field schema
+  const specialInstructions = schema
+    .filter(def => def.instructions)
+    .map(def => `- "${def.name}": ${def.instructions}\n`)
+    .join('');
+  const defaultValues = schema
+    .filter(def => def.defaultValue)
+    .map(def => `- For "${def.name}": If unclear or only description found, default to "${def.defaultValue}"\n`)
+    .join('');
+  
+  const { user: prompt, system } = renderPrompt(template, {
+    payerPlan: payerPlanName || payerPlan || 'Insurance Policy',
+    excerptNote: excerpt ? `- The document text below is ${excerpt}. Return null for fields it does not answer - do not guess or use "Nil" for them; the rest of the document is read separately.\n` : '',
+    ocrNote: ocrPages.length ? `- Page(s) ${ocrPages.join(', ')} are scans read by OCR: expect recognition errors (O/0, l/1, S/5, broken words) and correct obvious ones in the values you return.\n` : '',
+    fields: schema.map((def, idx) => `${idx + 1}. ${describeFieldForPrompt(def)}`).join('\n'),
+    fieldInstructions: specialInstructions,
+    defaultValues,
+    fewShot: renderFewShotExamples(schema.flatMap(def => examples[def.name] ?? [])),
+    document: pdfText,
+  });
 console.log('prompt', prompt)
 console.log('EXTRACTION_CONFIG.PRIMARY_MODEL', EXTRACTION_CONFIG.PRIMARY_MODEL)
-  const response = await fetch(OPENAI_CHAT_ENDPOINT, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: EXTRACTION_CONFIG.PRIMARY_MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" }
-    }),
+  // EXTRACTION_CONFIG models are OpenAI model names; other vendors use their own default
+  const result = await callGPT5Responses({
+    llm,
+    userPrompt: prompt,
+    systemPrompt: system,
+    responseFormat: 'json_object',
+    model: llm.kind === 'openai' ? EXTRACTION_CONFIG.PRIMARY_MODEL : undefined
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0].message.content;
+  const content = result.content;
   
-  console.log('[OpenAI] Extraction response received');
-  console.log('[OpenAI] Raw response:', content);
+  console.log(`[${llm.kind}] Extraction response received`);
+  console.log(`[${llm.kind}] Raw response:`, content);
   
   return JSON.parse(content);
 }
 
 /**
- * Converts a PDF to Markdown format with specific rules (DEPRECATED)
- * Now using extractTextFromPDF instead for simplicity
+ * Map-reduce variant of extractFieldsDirectly for documents longer than one
+ * prompt: every chunk is extracted in parallel (bounded), then each field's
+ * candidates are reconciled by confidence and table provenance. Same output
+ * shape as extractFieldsDirectly, with the reducer's confidence in _sources.
  */
-async function convertPDFToMarkdown(file: File, apiKey: string): Promise<string> {
-  console.log('Converting PDF to Markdown...');
-  
-  // Upload the PDF file to OpenAI
-  const fileId = await uploadFileToOpenAI(file, apiKey);
-  
-  const prompt = `You are an expert PDF to Markdown converter. Your task is to convert this PDF document to clean, well-formatted Markdown.
-
-CRITICAL RULES YOU MUST FOLLOW:
-
-1. **COMPLETE CONTENT EXTRACTION (HIGHEST PRIORITY)**:
-   - Extract EVERY SINGLE CHARACTER from the document
-   - DO NOT skip, miss, or omit ANY content whatsoever
-   - Extract ALL text from EVERY page - nothing should be left behind
-   - Include ALL data from tables, paragraphs, sections, and subsections
-   - If you see text in the PDF, it MUST appear in the markdown output
-   - Missing even a single field or value is UNACCEPTABLE
-   - Extract 100% of the document content with ZERO exceptions
-
-2. **TABLE PRESERVATION (CRITICAL - TABLES CONTAIN MOST IMPORTANT DATA)**: 
-   - Tables are the PRIMARY source of field values - extract them with 100% accuracy
-   - Preserve ALL tables EXACTLY as they appear in the PDF
-   - Extract EVERY SINGLE ROW - do not skip any rows
-   - Extract EVERY SINGLE COLUMN - do not skip any columns
-   - Extract EVERY CELL VALUE completely - including all text, numbers, percentages, amounts
-   - Use proper Markdown table syntax with | separators
-   - Maintain exact row and column structure
-   - Keep all table headers, labels, and values intact
-   - If a table has 50 rows, the markdown must have 50 rows
-   - Special tables (e.g., "Provider Specific Co-insurance") are CRITICAL - extract completely
-   - Multi-column tables: preserve all columns with proper alignment
-   - Merged cells: extract the content and indicate the span
-   - Tables within sections: extract ALL of them, not just the main table
-   - VERIFY: After extracting a table, count the rows - did you extract them all?
-
-3. **Header Handling**:
-   - Keep the header ONLY from the FIRST page
-   - REMOVE headers from ALL subsequent pages
-   - Headers typically include company logos, document titles at the top
-
-4. **Footer Handling**:
-   - REMOVE ALL footers from EVERY page
-   - Footers typically include page numbers, company info, disclaimers at the bottom
-
-5. **Content Preservation**:
-   - Preserve ALL body content from EVERY page
-   - Extract ALL paragraphs, sections, and subsections completely
-   - Maintain paragraph structure
-   - Keep bullet points and numbered lists - extract ALL items
-   - Preserve bold and italic formatting where visible
-   - Include all field names, values, labels, and descriptions
-   - Extract all benefit details, coverage amounts, percentages, and conditions
-
-6. **Output Format**:
-   - Return ONLY the Markdown content
-   - No explanations or comments
-   - Clean, readable Markdown format
-
-REMEMBER: Your #1 priority is COMPLETENESS. Every character in the PDF must be in the markdown output. Missing content will cause critical data extraction failures. Extract EVERYTHING.
-
-Analyze the document carefully and convert it to Markdown following these rules exactly.`;
-
-  // Use Assistants API with file_search to process the PDF
-  const response = await createAssistantAndRun({ 
-    apiKey, 
-    fileId, 
-    prompt,
-    model: "gpt-4o"
-  });
+async function extractFieldsChunked(
+  pdfText: string,
+  schema: FieldDefinition[],
+  llm: LLMProvider,
+  payerPlan?: PayerPlan,
+  payerPlanName?: string,
+  ocrPages: number[] = [],
+  template: PromptTemplate = getPrompt('field-extraction'),
+  examples: Record<string, FewShotExample[]> = {}
+): Promise<Record<string, unknown>> {
+  const chunks = chunkDocumentText(pdfText, EXTRACTION_CONFIG.CHUNK_SIZE, EXTRACTION_CONFIG.CHUNK_OVERLAP);
+
+  const extractChunk = async (chunk: TextChunk) => {
+    const chunkOcrPages = ocrPages.filter(page => page >= chunk.pages[0] && page <= chunk.pages[1]);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await extractFieldsDirectly(
+          chunk.text, schema, llm, payerPlan, payerPlanName, chunkOcrPages, template, examples,
+          `part ${chunk.index + 1} of ${chunks.length} of a long document (pages ${chunk.pages[0]}-${chunk.pages[1]})`
+        );
+        console.log(`[Chunking] Chunk ${chunk.index + 1}/${chunks.length} (pages ${chunk.pages[0]}-${chunk.pages[1]}) done`);
+        return result;
+      } catch (error) {
+        if (attempt >= EXTRACTION_CONFIG.MAX_RETRIES) throw error;
+        console.warn(`[Chunking] Chunk ${chunk.index + 1}/${chunks.length} failed (attempt ${attempt + 1}), retrying:`, error);
+      }
+    }
+  };
+  const results = await mapWithConcurrency(chunks, EXTRACTION_CONFIG.MAX_PARALLEL_CHUNKS, extractChunk);
+
+  const values: Record<string, string | null> = {};
+  const sources: Record<string, { page: number | null; source: string | null; confidence: number }> = {};
+  for (const def of schema) {
+    const candidates: ChunkCandidate[] = results.flatMap(({ _sources = {}, ...json }, idx) => {
+      const value = json[def.name];
+      if (value === null || value === undefined || String(value).trim() === '') return [];
+      const source = _sources[def.name] || {};
+      return [{
+        value: String(value),
+        chunk: idx,
+        page: typeof source.page === 'number' ? source.page : null,
+        source: typeof source.source === 'string' ? source.source : null,
+        confidence: typeof source.confidence === 'number' ? source.confidence : null,
+        fromTable: valueInTable(chunks[idx].text, String(value)),
+      }];
+    });
 
-  // Extract markdown content from response
-  let markdown = '';
-  if (response.data?.[0]?.content?.[0]?.text?.value) {
-    markdown = response.data[0].content[0].text.value;
-  } else {
-    throw new Error('No markdown content returned from PDF conversion');
+    const reduced = reduceChunkCandidates(candidates);
+    values[def.name] = reduced?.value ?? null;
+    if (reduced) {
+      sources[def.name] = { page: reduced.page, source: reduced.source, confidence: reduced.confidence };
+      if (reduced.rivals.length > 0) {
+        console.log(`[Chunking] "${def.name}": chose "${reduced.value}" over ${reduced.rivals.map(v => `"${v}"`).join(', ')} (confidence ${reduced.confidence})`);
+      }
+    }
   }
 
-  console.log('PDF to Markdown conversion completed');
-  console.log('Markdown length:', markdown.length);
-  
-  return markdown;
+  return { ...values, _sources: sources };
 }
 
-async function uploadFileToOpenAI(file: File, apiKey: string): Promise<string> {
-  const form = new FormData();
-  form.append("purpose", "assistants");
-  form.append("file", file, file.name);
-
-  const res = await fetch(`${OPENAI_BASE}/files`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: form,
-  });
+// Where the model says it read each field
+type ModelSources = Record<string, { page?: unknown; source?: unknown; confidence?: unknown; passages?: FieldPassage[] }>;
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`OpenAI file upload failed: ${res.status} ${text}`);
+/**
+ * Retrieval variant for long documents: every field is sent only with its top
+ * passages. Fields are batched so each prompt's passages stay within
+ * CHUNK_SIZE. Fields no passage matched are returned in `unmatched` for a
+ * full-text pass. Sources also list the passages each field was asked with.
+ */
+async function extractFieldsRetrieved(
+  pdfText: string,
+  schema: FieldDefinition[],
+  llm: LLMProvider,
+  payerPlan?: PayerPlan,
+  payerPlanName?: string,
+  ocrPages: number[] = [],
+  template: PromptTemplate = getPrompt('field-extraction'),
+  examples: Record<string, FewShotExample[]> = {}
+): Promise<{ values: Record<string, unknown>; sources: ModelSources; unmatched: FieldDefinition[] }> {
+  const passages = buildPassages(pdfText);
+  const queries = schema.map(def => ({ name: def.name, synonyms: def.synonyms }));
+
+  let embeddings: { passages: number[][]; queries: number[][] } | undefined;
+  if (EXTRACTION_CONFIG.USE_SEMANTIC_SEARCH && llm.embed) {
+    try {
+      const vectors = await llm.embed({
+        texts: [...passages.map(p => `${p.section}\n${p.text}`), ...queries.map(queryText)],
+      });
+      embeddings = { passages: vectors.slice(0, passages.length), queries: vectors.slice(passages.length) };
+    } catch (error) {
+      console.warn('[Retrieval] Embeddings failed, ranking with BM25 only:', error);
+    }
   }
-
-  const data = await res.json();
-  return data.id as string;
-}
-
-async function callChatCompletion(params: {
-  apiKey: string;
-  prompt: string;
-  model?: string;
-}): Promise<any> {
-  const { apiKey, prompt, model = "gpt-5" } = params;
-
-  // Use GPT-5 Responses API
-  const result = await callGPT5Responses({
-    apiKey,
-    userPrompt: prompt,
-    systemPrompt: "You are a medical insurance policy data extraction expert with PERFECT ACCURACY. Your sole purpose is to extract data from insurance PDFs with 100% precision. You analyze documents in detail and extract ONLY what is explicitly present. Never infer or hallucinate values that aren't clearly stated. Your output must be clean, consistent, and exactly match the document's content. Return NULL for any field you cannot find with certainty.",
-    responseFormat: 'text'
-  });
-
-  console.log('GPT-5 Responses API response:', result.content);
-  return result.content;
-}
-
-async function createAssistantAndRun(params: {
-  apiKey: string;
-  fileId: string;
-  prompt: string;
-  model?: string;
-}): Promise<any> {
-  const { apiKey, fileId, prompt, model = "gpt-5" } = params;
-
-  // Create assistant with file search capability and enhanced instructions
-  const assistantRes = await fetch(`${OPENAI_BASE}/assistants`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "OpenAI-Beta": "assistants=v2",
-    },
-    body: JSON.stringify({
-      model,
-      name: "Medical Insurance Extractor",
-      description: "Specialized assistant for extracting medical insurance policy data with high precision",
-      instructions: "You are a medical insurance policy data extraction expert with PERFECT ACCURACY. Your PRIMARY GOAL is to extract EVERY SINGLE CHARACTER from the PDF document - DO NOT miss any content. Extract 100% of all text, tables, fields, and values from the document. Missing content is UNACCEPTABLE. After complete extraction, your secondary goal is precision - extract ONLY what is explicitly present, never infer or hallucinate values. Your output must be clean, consistent, and exactly match the document's content. Extract ALL tables completely with every row and column. Return NULL only for fields that truly don't exist after extracting all content.",
-      tools: [{ type: "file_search" }],
-      tool_resources: {
-        file_search: {
-          vector_store_ids: []
-        }
-      },
-    }),
-  });
-
-  if (!assistantRes.ok) {
-    const errTxt = await assistantRes.text();
-    throw new Error(`Assistant creation error: ${assistantRes.status} ${errTxt}`);
+  const retrieved = retrievePassages(passages, queries, EXTRACTION_CONFIG.RETRIEVAL_TOP_K, embeddings);
+
+  // Fields that share passages land in the same prompt where they fit
+  const batches: Array<{ fields: FieldDefinition[]; passages: Map<number, Passage> }> = [];
+  const unmatched: FieldDefinition[] = [];
+  for (const def of schema) {
+    const hits = retrieved[def.name];
+    if (hits.length === 0) {
+      unmatched.push(def);
+      continue;
+    }
+    const size = (set: Map<number, Passage>) => [...set.values()].reduce((sum, p) => sum + p.text.length, 0);
+    let batch = batches[batches.length - 1];
+    const merged = new Map(batch?.passages);
+    hits.forEach(({ passage }) => merged.set(passage.id, passage));
+    if (!batch || size(merged) > EXTRACTION_CONFIG.CHUNK_SIZE) {
+      batch = { fields: [], passages: new Map() };
+      batches.push(batch);
+    }
+    batch.fields.push(def);
+    hits.forEach(({ passage }) => batch.passages.set(passage.id, passage));
   }
-
-  const assistant = await assistantRes.json();
-
-  // Create thread
-  const threadRes = await fetch(`${OPENAI_BASE}/threads`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "OpenAI-Beta": "assistants=v2",
-    },
-    body: JSON.stringify({}),
+  const sentChars = batches.reduce((sum, batch) => sum + [...batch.passages.values()].reduce((n, p) => n + p.text.length, 0), 0);
+  console.log(`[Retrieval] ${passages.length} passages${embeddings ? ' (BM25 + embeddings)' : ' (BM25)'}; ${batches.length} prompt(s) with ${sentChars} of ${pdfText.length} characters; ${unmatched.length} field(s) without a match`);
+
+  const results = await mapWithConcurrency(batches, EXTRACTION_CONFIG.MAX_PARALLEL_CHUNKS, batch => {
+    const batchPassages = [...batch.passages.values()];
+    const pages = new Set(batchPassages.map(p => p.page));
+    return extractFieldsDirectly(
+      renderPassages(batchPassages), batch.fields, llm, payerPlan, payerPlanName,
+      ocrPages.filter(page => pages.has(page)), template, examples,
+      'a selection of passages from a long document, picked for these fields'
+    );
   });
 
-  if (!threadRes.ok) {
-    const errTxt = await threadRes.text();
-    throw new Error(`Thread creation error: ${threadRes.status} ${errTxt}`);
-  }
-
-  const thread = await threadRes.json();
-
-  // Add message with file attachment
-  const messageRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/messages`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "OpenAI-Beta": "assistants=v2",
-    },
-    body: JSON.stringify({
-      role: "user",
-      content: prompt,
-      attachments: [
-        {
-          file_id: fileId,
-          tools: [{ type: "file_search" }]
-        }
-      ]
-    }),
+  const describe = ({ passage, score }: RetrievedPassage) => ({ page: passage.page, section: passage.section, score: Math.round(score * 1000) / 1000 });
+  const values: Record<string, unknown> = {};
+  const sources: ModelSources = {};
+  results.forEach(({ _sources = {}, ...json }, idx) => {
+    for (const def of batches[idx].fields) {
+      values[def.name] = json[def.name] ?? null;
+      sources[def.name] = { ..._sources[def.name], passages: retrieved[def.name].map(describe) };
+    }
   });
+  return { values, sources, unmatched };
+}
 
-  if (!messageRes.ok) {
-    const errTxt = await messageRes.text();
-    throw new Error(`Message creation error: ${messageRes.status} ${errTxt}`);
+/**
+ * Text for a follow-up pass over some fields: the whole document when it fits
+ * one prompt, else the top passages of those fields up to CHUNK_SIZE
+ */
+function fieldContext(pdfText: string, schema: FieldDefinition[]): string {
+  if (pdfText.length <= EXTRACTION_CONFIG.CHUNK_SIZE) return pdfText;
+  const retrieved = retrievePassages(
+    buildPassages(pdfText),
+    schema.map(def => ({ name: def.name, synonyms: def.synonyms })),
+    EXTRACTION_CONFIG.RETRIEVAL_TOP_K
+  );
+  const picked = new Map<number, Passage>();
+  let size = 0;
+  for (const { passage } of Object.values(retrieved).flat().sort((a, b) => b.score - a.score)) {
+    if (picked.has(passage.id) || size + passage.text.length > EXTRACTION_CONFIG.CHUNK_SIZE) continue;
+    picked.set(passage.id, passage);
+    size += passage.text.length;
   }
+  return picked.size > 0 ? renderPassages([...picked.values()]) : pdfText.slice(0, EXTRACTION_CONFIG.CHUNK_SIZE);
+}
 
-  // Create and poll run
-  const runRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/runs`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "OpenAI-Beta": "assistants=v2",
-    },
-    body: JSON.stringify({
-      assistant_id: assistant.id,
-    }),
+/**
+ * One focused call per field - the second opinion in 'single-field' voting
+ */
+async function extractFieldsOneByOne(
+  pdfText: string,
+  schema: FieldDefinition[],
+  llm: LLMProvider,
+  template: PromptTemplate = getPrompt('single-field')
+): Promise<{ values: Record<string, unknown>; sources: ModelSources }> {
+  const results = await mapWithConcurrency(schema, EXTRACTION_CONFIG.MAX_PARALLEL_CHUNKS, def =>
+    extractSingleField(fieldContext(pdfText, [def]), def.name, def.synonyms, llm, template)
+  );
+  const values: Record<string, unknown> = {};
+  const sources: ModelSources = {};
+  results.forEach(({ value, confidence, source }, idx) => {
+    values[schema[idx].name] = value;
+    sources[schema[idx].name] = { source, confidence };
   });
+  return { values, sources };
+}
 
-  if (!runRes.ok) {
-    const errTxt = await runRes.text();
-    throw new Error(`Run creation error: ${runRes.status} ${errTxt}`);
-  }
-
-  const run = await runRes.json();
-
-  // Poll for completion
-  let runStatus = run;
-  while (runStatus.status === "queued" || runStatus.status === "in_progress") {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const statusRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/runs/${run.id}`, {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "OpenAI-Beta": "assistants=v2",
-      },
-    });
-
-    if (!statusRes.ok) {
-      const errTxt = await statusRes.text();
-      throw new Error(`Run status check error: ${statusRes.status} ${errTxt}`);
-    }
-
-    runStatus = await statusRes.json();
-  }
+/**
+ * Converts a PDF to Markdown format with specific rules (DEPRECATED)
+ * Now using extractTextFromPDF instead for simplicity
+ */
+async function convertPDFToMarkdown(
+  file: File,
+  llm: LLMProvider,
+  template: PromptTemplate = getPrompt('markdown-conversion')
+): Promise<string> {
+  console.log(`Converting PDF to Markdown (${promptStamp(template)})...`);
 
-  if (runStatus.status !== "completed") {
-    throw new Error(`Run failed with status: ${runStatus.status}`);
-  }
+  const { user: prompt } = renderPrompt(template, {});
 
-  // Get messages
-  const messagesRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/messages`, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "OpenAI-Beta": "assistants=v2",
-    },
+  // Send the PDF to the provider (OpenAI: file upload + Assistants file_search)
+  const response = await llm.extractFromFile({
+    file,
+    prompt,
+    model: llm.kind === 'openai' ? "gpt-4o" : undefined
   });
 
-  if (!messagesRes.ok) {
-    const errTxt = await messagesRes.text();
-    throw new Error(`Messages retrieval error: ${messagesRes.status} ${errTxt}`);
+  const markdown = response.content;
+  if (!markdown) {
+    throw new Error('No markdown content returned from PDF conversion');
   }
 
-  const messages = await messagesRes.json();
+  console.log('PDF to Markdown conversion completed');
+  console.log('Markdown length:', markdown.length);
   
-  // Clean up
-  await fetch(`${OPENAI_BASE}/assistants/${assistant.id}`, {
-    method: "DELETE",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "OpenAI-Beta": "assistants=v2",
-    },
-  });
-
-  return messages;
+  return markdown;
 }
 
 function parseMarkdownOutput(resp: any): Record<string, any> {
@@ -1600,41 +800,10 @@ function parseMarkdownOutput(resp: any): Record<string, any> {
 }
 
 /**
- * Post-process the extracted data to fix common issues
+ * Post-process the extracted data to fix common issues (src/constants/payerRules.ts MARKDOWN_RULES)
  */
 function postProcessData(data: Record<string, any>): Record<string, any> {
-  const result = { ...data };
-  
-  // Post-process special fields to detect and fix common errors
-  const ahliField = 'Provider-specific co-insurance at Al Ahli Hospital';
-  const generalCoInsurance = 'Co-insurance';
-  const inpatientCoInsurance = 'Co-insurance on all inpatient treatment';
-  
-  // Check if Al Ahli specific field has a value that doesn't explicitly mention Al Ahli
-  if (result[ahliField]) {
-    const value = result[ahliField];
-    if (typeof value === 'string') {
-      const lowerValue = value.toLowerCase();
-      const mentionsAlAhli = lowerValue.includes('al ahli') || lowerValue.includes('ahli hospital');
-      
-      // Any percentage value that doesn't explicitly mention Al Ahli Hospital is considered invalid
-      if (/\d+%/.test(value) && !mentionsAlAhli) {
-        const oldValue = value;
-        result[ahliField] = 'Not applicable';
-        console.warn(`[VALIDATION] Forced correction for ${ahliField}: was '${oldValue}', set to 'Not applicable' because it doesn't mention Al Ahli explicitly`);
-      }
-    }
-  }
-  
-  // Extra validation for duplicate values
-  if (result[ahliField] && (result[ahliField] === result[generalCoInsurance] || 
-      result[ahliField] === result[inpatientCoInsurance])) {
-    const oldValue = result[ahliField];
-    result[ahliField] = 'Not applicable';
-    console.warn(`[VALIDATION] Corrected identical value for ${ahliField}: was '${oldValue}', set to 'Not applicable' due to duplicate values`);
-  }
-  
-  return result;
+  return applyPayerRules(data, MARKDOWN_RULES).data;
 }
 
 /**
@@ -1737,141 +906,88 @@ function normalizeLabel(label: string): string {
   return label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
 }
 
-// Format QLM specific fields
-function formatQLMFields(normalized: ExtractedData): ExtractedData {
-  const result = { ...normalized };
-  
-  // Preserve exact value for Vaccination field
-  const vaccinationField = "Vaccination of children";
-  if (result[vaccinationField]) {
-    let value = result[vaccinationField] as string;
-    
-    // Handle common cases
-    const lowerValue = value.toLowerCase().trim();
-    
-    // Priority 0: Check for specific QLM pattern "Up to the school age (age of 6 years)" - return "Covered"
-    if (lowerValue.includes('up to') && lowerValue.includes('school age') && lowerValue.includes('6 years')) {
-      console.log(`[QLM Format] Vaccination field contains "Up to the school age (age of 6 years)" - converting to "Covered"`);
-      result[vaccinationField] = 'Covered';
-    }
-    // Priority 1: Check for explicit "Not covered" - this is the only case we don't default to "Covered"
-    else if (lowerValue === 'not covered' || lowerValue.includes('not covered')) {
-      result[vaccinationField] = 'Not covered';
-    }
-    // Priority 2: Check for "covered" anywhere in the text
-    else if (lowerValue.includes('covered')) {
-      result[vaccinationField] = 'Covered';
-    }
-    // Priority 3: Check for exact QAR amounts or numbers at start
-    else if (/^qar\s*\d/i.test(lowerValue) || (/^\d/.test(lowerValue) && !lowerValue.includes('age') && !lowerValue.includes('year'))) {
-      const numberMatch = value.match(/(\d[\d,\.]*)/);
-      if (numberMatch) {
-        if (!lowerValue.includes('qar')) {
-          // Add QAR formatting if it has a number but no QAR
-          result[vaccinationField] = `QAR ${numberMatch[1]}/PPPY`;
-        } else if (lowerValue.includes('qar')) {
-          // Ensure consistent formatting for QAR values
-          const formattedNumber = numberMatch[1].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-          if (!lowerValue.includes('/pppy')) {
-            result[vaccinationField] = `QAR ${formattedNumber}/PPPY`;
-          } else {
-            // Already has /PPPY, keep as is
-            result[vaccinationField] = value;
-          }
-        }
-      }
-    }
-    // Priority 4: Check for "Nil" - default to "Covered"
-    else if (lowerValue === 'nil' || lowerValue === 'null' || lowerValue === 'n/a') {
-      console.warn(`[QLM Format] Vaccination field is "${value}" - defaulting to "Covered" (QLM policy: vaccination is covered unless explicitly stated otherwise)`);
-      result[vaccinationField] = 'Covered';
+// Templates extractDataDetailedApi renders: extraction, then single-field voting and revalidation
+const MODEL_STEP_PROMPTS: PromptId[] = ['field-extraction', 'single-field', 'revalidation'];
+
+/**
+ * PDF text (layout-aware, OCR for scanned pages), from the text cache when present
+ */
+async function readPdfText(file: File, fileHash: string, cache: ExtractionCacheStore | null, ocr: OcrEngine | null | undefined): Promise<PdfText> {
+  const textKey = cacheKeys.text(fileHash, EXTRACTION_CONFIG.TEXT_VERSION);
+  let parsed = await readCache<PdfText>(cache, textKey);
+  if (parsed === undefined) {
+    // The default engine is ours to shut down; a caller's engine may be shared across files
+    const ocrEngine = ocr === undefined ? (canRasterize() ? createTesseractEngine() : null) : ocr;
+    try {
+      parsed = await extractTextFromPDF(file, ocrEngine);
+    } finally {
+      if (ocr === undefined) await ocrEngine?.terminate();
     }
-    // Priority 5: Keep the actual extracted value as-is (don't convert other description text)
-    else {
-      result[vaccinationField] = value;
+    // Text missing unread pages is not cached, so the next run gets another go at them
+    if (parsed.unreadPages.length === 0) {
+      await writeCache(cache, textKey, parsed);
+    } else {
+      console.warn(`[Cache] Not caching text of ${file.name} - pages ${parsed.unreadPages.join(', ')} could not be read`);
     }
-  } else {
-    // If field is completely missing or null, default to "Covered" for QLM
-    console.warn(`[QLM Format] Vaccination field is null/missing - defaulting to "Covered" (QLM policy: vaccination is covered unless explicitly stated otherwise)`);
-    result[vaccinationField] = 'Covered';
   }
-  
+  return parsed;
+}
 
-  // Standardize "For Eligible Medical Expenses at Al Ahli Hospital" to percentage format
-  const ahliField = "For Eligible Medical Expenses at Al Ahli Hospital";
-  if (result[ahliField]) {
-    const value = result[ahliField] as string;
-    const lowerValue = value.toLowerCase().trim();
-    
-    // Look for percentage patterns
-    const percentMatch = value.match(/(\d{1,3})\s*%/);
-    if (percentMatch) {
-      // Format as percentage with coverage
-      result[ahliField] = `${percentMatch[1]}% covered`;
-    } else if (lowerValue === 'covered' || 
-               lowerValue.includes('100') || 
-               lowerValue.includes('full') || 
-               lowerValue.includes('fully') || 
-               lowerValue.includes('all')) {
-      // Full coverage indicators
-      result[ahliField] = "100% covered";
-    } else if (lowerValue === 'not covered') {
-      result[ahliField] = "Not covered";
-    } else if (lowerValue.includes('co-insurance') || lowerValue.includes('coinsurance')) {
-      // Try to extract coinsurance percentage
-      const coinsuranceMatch = value.match(/(\d{1,2})\s*%\s*(?:co-?insurance|co-?pay)/i);
-      if (coinsuranceMatch) {
-        const percentage = 100 - parseInt(coinsuranceMatch[1], 10);
-        result[ahliField] = `${percentage}% covered`;
-      }
-    }
-  }
-  
-  // Add handling for deductibles and copayments
-  const copaymentFields = ["Dental Copayment", "Maternity Copayment", "Optical Copayment"];
-  copaymentFields.forEach(field => {
-    if (result[field]) {
-      const value = result[field] as string;
-      const lowerValue = value.toLowerCase().trim();
-      
-      // Standardize percentage formatting
-      const percentMatch = value.match(/(\d{1,3})\s*%/);
-      if (percentMatch) {
-        result[field] = `${percentMatch[1]}%`;
-      }
-      // Standardize QAR formatting
-      else if (lowerValue.includes('qar') || /\d+/.test(lowerValue)) {
-        const amountMatch = value.match(/(\d[\d,\.]*)/); 
-        if (amountMatch) {
-          const amount = amountMatch[1].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-          if (!lowerValue.includes('qar')) {
-            result[field] = `QAR ${amount}`;
-          } else {
-            // Ensure consistent spacing for QAR
-            result[field] = value.replace(/QAR\s*(\d)/, 'QAR $1');
-          }
-        }
-      }
-    }
-  });
-  
-  return result;
+/**
+ * The text the pipeline extracts from, e.g. to build few-shot examples from ground truth
+ */
+export async function extractPdfTextApi(
+  file: File,
+  { cache = defaultExtractionCache(), ocr }: { cache?: ExtractionCacheStore | null; ocr?: OcrEngine | null } = {}
+): Promise<string> {
+  const fileHash = cache ? await hashFile(file) : '';
+  return (await readPdfText(file, fileHash, cache, ocr)).text;
 }
 
-export async function extractDataApi({
-  file,
-  apiKey,
-  fields,
-  payerPlan,
-  payerPlanName,
-}: {
+export interface ExtractDataApiParams {
   file: File;
   apiKey: string;
   fields?: string[];
+  schema?: FieldDefinition[];     // Field definitions of a saved payer plan, used instead of fields
   payerPlan?: PayerPlan;
   payerPlanName?: string;
-}): Promise<ExtractedData> {
-  assertKey(apiKey);
+  provider?: LLMProviderConfig | LLMProvider;
+  server?: ExtractionServerConfig; // Run the pipeline on the extraction server instead of in the browser
+  cache?: ExtractionCacheStore | null; // Defaults to IndexedDB in the browser; null disables caching
+  refresh?: boolean;              // Ignore cached results and overwrite them
+  ocr?: OcrEngine | null;         // For scanned pages; defaults to tesseract.js where pages can be rendered, null disables
+  promptVersions?: PromptVersions; // Template versions to use instead of the latest, e.g. to compare prompts
+  examples?: FewShotExample[] | null; // Few-shot example store; defaults to the examples saved in the browser, null disables
+}
+
+export async function extractDataApi(params: ExtractDataApiParams): Promise<ExtractedData> {
+  const { data } = await extractDataDetailedApi(params);
+  return data;
+}
+
+/**
+ * Same pipeline as extractDataApi, but also returns per-field provenance
+ * (raw value, page, source, snippet, confidence, pass) for the UI and exports
+ */
+export async function extractDataDetailedApi({
+  file,
+  apiKey,
+  fields,
+  schema: planSchema,
+  payerPlan,
+  payerPlanName,
+  provider,
+  server,
+  cache = defaultExtractionCache(),
+  refresh,
+  ocr,
+  promptVersions,
+  examples,
+}: ExtractDataApiParams): Promise<ExtractionResult> {
+  if (server) {
+    return extractOnServer(server, { file, fields, schema: planSchema, payerPlan, payerPlanName });
+  }
+  const llm = resolveLLMProvider({ apiKey, payerPlan, provider });
   const startTime = Date.now();
   let success = false;
   let errorMessage = '';
@@ -1890,9 +1006,47 @@ console.log('fields', fields)
       payer_plan: payerPlanName || 'unknown',
     });
 
-    // STEP 1: Extract text from PDF using pdfjs-dist
+    // STEP 1: Resolve fields to extract
+    const resolvedFields = planSchema?.length
+      ? fieldNames(planSchema)
+      : (fields && fields.length > 0)
+        ? fields
+        : (payerPlan ? FIELD_MAPPINGS[payerPlan] : []);
+    if (!resolvedFields || resolvedFields.length === 0) {
+      throw new Error("No fields provided to extract.");
+    }
+console.log('resolvedFields',resolvedFields)
+    const schema = planSchema?.length ? planSchema : resolveFieldSchema(resolvedFields, payerPlan);
+    const fieldPrompt = getPrompt('field-extraction', promptVersions?.['field-extraction']);
+
+    const exampleStore = EXTRACTION_CONFIG.USE_FEW_SHOT ? (examples === undefined ? loadFewShotExamples() : examples ?? []) : [];
+
+    // Same file, plan, fields, prompt versions and examples as an earlier run - reuse its result
+    const fileHash = cache || exampleStore.length > 0 ? await hashFile(file) : '';
+    const resultKey = cache
+      ? await cacheKeys.result({
+          fileHash,
+          plan: payerPlanName || payerPlan || '',
+          llm: `${llm.kind}/${llm.defaultModel}`,
+          schema,
+          // Every template the model step may use, so pinning any of them is a different result
+          promptVersion: [
+            EXTRACTION_CONFIG.PROMPT_VERSION,
+            ...MODEL_STEP_PROMPTS.map(id => promptStamp(getPrompt(id, promptVersions?.[id]))),
+          ].join(':'),
+          examples: candidateExamples(exampleStore, schema, fileHash).map(example => `${example.id}@${example.verifiedAt}`),
+        })
+      : '';
+    const cachedResult = refresh ? undefined : await readCache<ExtractionResult>(cache, resultKey);
+    if (cachedResult) {
+      console.log(`[Cache] Using cached extraction for ${file.name}`);
+      success = true;
+      return { ...cachedResult, cached: true };
+    }
+
+    // STEP 2: Extract text from PDF using pdfjs-dist
     console.log('Step 1: Extracting text from PDF...');
-    const pdfText = await extractTextFromPDF(file);
+    const { text: pdfText, ocrPages, unreadPages } = await readPdfText(file, fileHash, cache, ocr);
     console.log('PDF text extraction complete. Length:', pdfText.length);
     console.log('\n========== FULL PDF TEXT START ==========\n');
     console.log(pdfText);
@@ -1905,17 +1059,105 @@ console.log('fields', fields)
       payer_plan: payerPlanName || 'unknown',
     });
 
-    // STEP 2: Resolve fields to extract
-    const resolvedFields = (fields && fields.length > 0)
-      ? fields
-      : (payerPlan ? FIELD_MAPPINGS[payerPlan] : []);
-    if (!resolvedFields || resolvedFields.length === 0) {
-      throw new Error("No fields provided to extract.");
+    // STEP 3: Table-first - fields with a matching row label in a parsed table need no model call
+    const tableMatches = EXTRACTION_CONFIG.USE_TABLE_FIRST_EXTRACTION
+      ? resolveFieldsFromTables(pdfText, schema, EXTRACTION_CONFIG.CONFIDENCE_THRESHOLD)
+      : {};
+    const fieldsFromTables = Object.keys(tableMatches).length;
+    const modelSchema = schema.filter(def => !tableMatches[def.name]);
+    console.log(`[Table First] Resolved ${fieldsFromTables}/${schema.length} fields from tables`);
+
+    // STEP 4: Extract the remaining fields from PDF text using the LLM provider
+    let modelSources: ModelSources = {};
+    let modelValues: Record<string, unknown> = {};
+    const votes: Record<string, FieldVote> = {};
+    const modelPasses: Record<string, ExtractionPass> = {};
+    // Templates the values came from - none when every field was read from tables
+    const usedPrompts: PromptVersions = {};
+    if (modelSchema.length > 0) {
+      console.log(`Step 2: Extracting ${modelSchema.length} fields from PDF text using ${llm.kind} (${llm.defaultModel})...`);
+      const isLong = pdfText.length > EXTRACTION_CONFIG.CHUNK_SIZE;
+      const ocrPageList = Object.keys(ocrPages).map(Number);
+      const fewShot = selectFewShotExamples(exampleStore, {
+        schema: modelSchema,
+        pdfText,
+        payerPlan: payerPlanName || payerPlan,
+        documentHash: fileHash,
+        perField: EXTRACTION_CONFIG.FEW_SHOT_PER_FIELD,
+      });
+      if (Object.keys(fewShot).length > 0) {
+        console.log(`[Few-shot] Examples for ${Object.keys(fewShot).length}/${modelSchema.length} fields`);
+      }
+      const readModelFields = async () => {
+        let values: Record<string, unknown> = {};
+        let sources: ModelSources = {};
+        let fullTextSchema = modelSchema;
+        if (isLong && EXTRACTION_CONFIG.USE_RETRIEVAL) {
+          ({ values, sources, unmatched: fullTextSchema } =
+            await extractFieldsRetrieved(pdfText, modelSchema, llm, payerPlan, payerPlanName, ocrPageList, fieldPrompt, fewShot));
+        }
+        // Fields retrieval could not place are read from the whole text
+        if (fullTextSchema.length > 0) {
+          const extractFields = isLong && EXTRACTION_CONFIG.USE_CHUNKED_EXTRACTION ? extractFieldsChunked : extractFieldsDirectly;
+          const { _sources = {}, ...rest } = await extractFields(pdfText, fullTextSchema, llm, payerPlan, payerPlanName, ocrPageList, fieldPrompt, fewShot);
+          values = { ...values, ...rest };
+          sources = { ...sources, ..._sources };
+        }
+        return { values, sources };
+      };
+      ({ values: modelValues, sources: modelSources } = await readModelFields());
+      usedPrompts['field-extraction'] = fieldPrompt.version;
+
+      // Multi-pass voting: more reads of the same fields; their agreement becomes each field's confidence
+      if (EXTRACTION_CONFIG.VOTING_MODE !== 'off') {
+        const passes = [{ values: modelValues, sources: modelSources }];
+        if (EXTRACTION_CONFIG.VOTING_MODE === 'single-field') {
+          const singleFieldPrompt = getPrompt('single-field', promptVersions?.['single-field']);
+          passes.push(await extractFieldsOneByOne(pdfText, modelSchema, llm, singleFieldPrompt));
+          usedPrompts['single-field'] = singleFieldPrompt.version;
+        } else {
+          for (let pass = 1; pass < EXTRACTION_CONFIG.VOTING_PASSES; pass++) passes.push(await readModelFields());
+        }
+        for (const def of modelSchema) {
+          votes[def.name] = tallyVotes(passes.map(pass => toVote(pass.values[def.name])), def.type);
+        }
+
+        // Only fields the passes did not settle are revalidated; its answer is one more vote
+        const unsettled = modelSchema.filter(def =>
+          needsRevalidation(def, votes[def.name]) || validateExtractedValue(votes[def.name].value, def.name) === null
+        );
+        console.log(`[Voting] ${modelSchema.length - unsettled.length}/${modelSchema.length} fields settled by ${passes.length} passes`);
+        if (EXTRACTION_CONFIG.USE_SELECTIVE_REVALIDATION && unsettled.length > 0) {
+          const revalidationPrompt = getPrompt('revalidation', promptVersions?.['revalidation']);
+          const current = Object.fromEntries(unsettled.map(def => [def.name, votes[def.name].value]));
+          const revalidated = await revalidateExtractedFields(
+            fieldContext(pdfText, unsettled), current, unsettled.map(def => def.name), llm, 1, revalidationPrompt
+          );
+          usedPrompts['revalidation'] = revalidationPrompt.version;
+          // A failed call hands `current` back - that is no vote
+          if (revalidated !== current) {
+            for (const def of unsettled.filter(def => def.name in revalidated)) {
+              const before = votes[def.name].value;
+              votes[def.name] = tallyVotes([...votes[def.name].votes, toVote(revalidated[def.name])], def.type);
+              if (votes[def.name].value !== before) modelPasses[def.name] = 'revalidation';
+            }
+          }
+        }
+
+        for (const def of modelSchema) {
+          const { value } = votes[def.name];
+          // Page and source of the first pass that read the winning value
+          const from = passes.findIndex(pass => toVote(pass.values[def.name]) === value);
+          modelValues[def.name] = value;
+          modelSources[def.name] = { passages: modelSources[def.name]?.passages, ...passes[from]?.sources[def.name] };
+          if (from > 0 && EXTRACTION_CONFIG.VOTING_MODE === 'single-field') modelPasses[def.name] ??= 'single-field';
+        }
+      }
     }
-console.log('resolvedFields',resolvedFields)
-    // STEP 3: Extract fields directly from PDF text using OpenAI
-    console.log('Step 2: Extracting fields from PDF text using OpenAI...');
-    const json = await extractFieldsDirectly(pdfText, resolvedFields, apiKey, payerPlan, payerPlanName);
+    const json: Record<string, unknown> = {
+      ...modelValues,
+      ...Object.fromEntries(Object.entries(tableMatches).map(([field, match]) => [field, match.value])),
+    };
     // Log what was found for debugging
     console.log(`\n=== EXTRACTION DEBUG INFO ===`);
     console.log(`Payer Plan: ${payerPlan}`);
@@ -1929,9 +1171,11 @@ console.log('resolvedFields',resolvedFields)
     
     // Ensure all expected keys exist; fill missing with null
     let normalized: ExtractedData = {};
+    const rawValues: ExtractedData = {};
     for (const key of resolvedFields) {
       const val = Object.prototype.hasOwnProperty.call(json, key) ? json[key] : null;
       normalized[key] = val === undefined ? null : (val as string | null);
+      rawValues[key] = val === null || val === undefined ? null : String(val);
       
       if (val !== null && val !== undefined) {
         foundFields++;
@@ -1944,6 +1188,7 @@ console.log('resolvedFields',resolvedFields)
     // Apply validation layer to catch hallucinations
     console.log(`\n=== VALIDATION LAYER ===`);
     normalized = validateAllExtractedData(normalized, resolvedFields);
+    const validatedValues: ExtractedData = { ...normalized };
     
     extractedFields = foundFields;
     
@@ -1955,14 +1200,37 @@ console.log('resolvedFields',resolvedFields)
       payer_plan: payerPlanName || 'unknown',
       fields_expected: resolvedFields.length,
       fields_extracted: foundFields,
+      fields_from_tables: fieldsFromTables,
       extraction_time_ms: Date.now() - startTime,
       extraction_success_rate: (foundFields / resolvedFields.length) * 100,
     });
 
-    // Plan-specific post-processing logic
-    if (payerPlan === PAYER_PLANS.QLM) {
-      normalized = formatQLMFields(normalized);
-      console.log('Applied QLM-specific formatting');
+    // Typed normalization and defaults from the field schema
+    const { data: schemaData, issues: typeIssues } = applyFieldSchema(normalized, schema);
+    normalized = schemaData;
+    for (const [field, issue] of Object.entries(typeIssues)) {
+      console.warn(`[VALIDATION] Field "${field}" does not match its type: ${issue} (value: "${normalized[field]}")`);
+    }
+
+    // Cross-field consistency of the values as extracted - payer rules below may rewrite them
+    const consistencyWarnings = EXTRACTION_CONFIG.USE_CROSS_VALIDATION ? checkConsistency(normalized, schema) : [];
+
+    // Payer business rules (src/constants/payerRules.ts), in priority order
+    const { data: ruledData, fired: rulesFired } = applyPayerRules(normalized, rulesForPlan(payerPlan, payerPlanName), schema);
+    normalized = ruledData;
+    for (const firing of rulesFired) {
+      console.log(`[Rules] ${firing.rule} -> "${firing.field}": ${firing.action === 'flag' ? firing.message : `'${firing.from}' -> '${firing.to}'`}`);
+    }
+
+    // Warnings only, plus whatever the payer rules flagged
+    const warnings: ConsistencyWarning[] = [
+      ...consistencyWarnings,
+      ...rulesFired
+        .filter(firing => firing.action === 'flag')
+        .map(firing => ({ check: firing.rule, fields: [firing.field], message: firing.message ?? firing.rule })),
+    ];
+    for (const warning of warnings) {
+      console.warn(`[Consistency] ${warning.fields.map(field => `"${field}"`).join(', ')}: ${warning.message}`);
     }
 
     // No fallback logic - return values as extracted from PDF only
@@ -1999,26 +1267,45 @@ console.log('resolvedFields',resolvedFields)
       missingFieldsList.forEach(f => console.log(`  - ${f}`));
     }
 
-    // Extra validation - force fix for Al Ahli Hospital issue
-    // This is a last resort fix for the specific issue with Al Ahli field and inpatient co-insurance
-    const ahliField = 'Provider-specific co-insurance at Al Ahli Hospital';
-    const inpatientField = 'Co-insurance on all inpatient treatment';
-    if (normalized[ahliField] && normalized[inpatientField] && 
-        normalized[ahliField] === normalized[inpatientField] && 
-        /^\d+%$/.test(normalized[ahliField] as string)) {
-      console.log(`[CRITICAL FIX] Detected identical values for ${ahliField} (${normalized[ahliField]}) ` +
-                  `and ${inpatientField} (${normalized[inpatientField]}) - fixing to 'Not applicable'`);
-      normalized[ahliField] = 'Not applicable';
-    }
-    
     console.log(`Final extracted data:`, normalized);
     console.log(`=== END EXTRACTION ===
 `);
 
+    // Build provenance: anything changed after validation came from post-processing rules
+    const provenance: ExtractionProvenance = {};
+    for (const field of resolvedFields) {
+      const tableMatch = tableMatches[field];
+      const modelSource = tableMatch || modelSources[field] || {};
+      provenance[field] = buildFieldProvenance({
+        value: normalized[field],
+        rawValue: rawValues[field],
+        pass: normalized[field] !== validatedValues[field] ? 'post-processing' : tableMatch ? 'table' : modelPasses[field] ?? 'direct',
+        pdfText,
+        ocrPages,
+        modelPage: typeof modelSource.page === 'number' ? modelSource.page : null,
+        modelSource: typeof modelSource.source === 'string' ? modelSource.source : null,
+        // A value of the wrong type is likely a description picked up instead of the value
+        modelConfidence: typeIssues[field]
+          ? 0.4
+          : tableMatch?.confidence ?? (!votes[field] && typeof modelSource.confidence === 'number' ? modelSource.confidence : null),
+        passages: tableMatch ? undefined : modelSources[field]?.passages,
+        labels: [field, ...(schema.find(def => def.name === field)?.synonyms ?? [])],
+        // Votes were for the value before post-processing rules
+        ...(votes[field] && normalized[field] === validatedValues[field] && { agreement: votes[field].agreement, votes: votes[field].votes }),
+      });
+      const fieldRules = [...new Set(rulesFired.filter(firing => firing.field === field).map(firing => firing.rule))];
+      if (fieldRules.length > 0) provenance[field].rules = fieldRules;
+      const fieldWarnings = warnings.filter(warning => warning.fields.includes(field)).map(warning => warning.message);
+      if (fieldWarnings.length > 0) provenance[field].warnings = fieldWarnings;
+    }
+
     // Log successful extraction
     await logExtraction(file.name, 'success', `Extracted ${Object.values(normalized).filter(v => v !== null).length}/${totalCount} fields (${successRate}%)`);
 
-    return normalized;
+    const result: ExtractionResult = { data: normalized, provenance, fieldsFromTables, promptVersions: usedPrompts, rulesFired, warnings };
+    // Nor a result read without those pages - a cached one would hide them on the next run
+    if (unreadPages.length === 0) await writeCache<ExtractionResult>(cache, resultKey, result);
+    return result;
   } catch (error) {
     console.error("Extraction failed:", error);
     
@@ -2057,39 +1344,83 @@ interface CompareDataApiParams {
   file2: File;
   apiKey: string;
   fields?: string[];
+  schema?: FieldDefinition[];
   payerPlan?: PayerPlan;
   payerPlanName?: string;
+  provider?: LLMProviderConfig | LLMProvider;
+  server?: ExtractionServerConfig;
+  cache?: ExtractionCacheStore | null;
+  refresh?: boolean;
+  examples?: FewShotExample[] | null;
+}
+
+interface CompareDocumentsApiParams extends Omit<CompareDataApiParams, 'file1' | 'file2'> {
+  files: File[];
+}
+
+/**
+ * Compares the same fields across any number of documents (e.g. CAT 1-4 of one client)
+ */
+export async function compareDocumentsApi({
+  files,
+  apiKey,
+  fields,
+  schema,
+  payerPlan,
+  payerPlanName,
+  provider,
+  server,
+  cache,
+  refresh,
+  examples
+}: CompareDocumentsApiParams): Promise<DocumentComparisonResult[]> {
+  if (files.length < 2) {
+    throw new Error("Comparison needs at least two documents");
+  }
+
+  // A few documents at a time - each extraction makes several LLM calls of its own
+  const extracted = await mapWithConcurrency(files, EXTRACTION_CONFIG.MAX_PARALLEL_DOCUMENTS, (file) =>
+    extractDataApi({ file, apiKey, fields, schema, payerPlan, payerPlanName, provider, server, cache, refresh, examples })
+  );
+
+  return compareExtractedDocuments(extracted, { fields, schema, payerPlan });
 }
- 
+
+/**
+ * Field-by-field comparison of documents that are already extracted
+ * (e.g. a run from the history against a newly extracted file)
+ */
+export function compareExtractedDocuments(
+  extracted: ExtractedData[],
+  { fields, schema, payerPlan }: Pick<CompareDataApiParams, 'fields' | 'schema' | 'payerPlan'>
+): DocumentComparisonResult[] {
+  const resolvedFields = schema?.length
+    ? fieldNames(schema)
+    : (fields && fields.length > 0)
+      ? fields
+      : (payerPlan ? FIELD_MAPPINGS[payerPlan] : Object.keys(extracted[0]));
+
+  const types = schema?.length ? schema : resolveFieldSchema(resolvedFields, payerPlan);
+  return resolvedFields.map((field, idx) => {
+    const values = extracted.map((data) => data[field] ?? null);
+    return { field, values, ...compareDocumentValues(values, types[idx].type) };
+  });
+}
+
 export async function compareDataApi({ 
   file1, 
   file2, 
-  apiKey, 
-  fields, 
-  payerPlan, 
-  payerPlanName 
+  ...params
 }: CompareDataApiParams): Promise<ComparisonResult[]> {
-  // Extract both in parallel
-  const [data1, data2] = await Promise.all([
-    extractDataApi({ file: file1, apiKey, fields, payerPlan, payerPlanName }),
-    extractDataApi({ file: file2, apiKey, fields, payerPlan, payerPlanName }),
-  ]);
-
-  const resolvedFields = (fields && fields.length > 0)
-    ? fields
-    : (payerPlan ? FIELD_MAPPINGS[payerPlan] : Object.keys(data1));
-  const results: ComparisonResult[] = resolvedFields.map((field) => {
-    const v1 = (data1 as any)[field] ?? null;
-    const v2 = (data2 as any)[field] ?? null;
-
-    let status: ComparisonResult["status"] = "same";
-    if (v1 === null && v2 === null) status = "missing";
-    else if (v1 !== v2) status = "different";
-
-    return { field, file1Value: v1, file2Value: v2, status };
-  });
-
-  return results;
+  const results = await compareDocumentsApi({ ...params, files: [file1, file2] });
+
+  return results.map(({ field, values, status, explanation }) => ({
+    field,
+    file1Value: values[0],
+    file2Value: values[1],
+    status,
+    explanation,
+  }));
 }
 
 /**
@@ -2098,8 +1429,18 @@ export async function compareDataApi({
  */
 export async function convertPDFToMarkdownApi(
   file: File,
-  apiKey: string
+  apiKey: string,
+  provider?: LLMProviderConfig | LLMProvider,
+  cache: ExtractionCacheStore | null = defaultExtractionCache(),
+  promptVersion?: number           // Version of the markdown-conversion template, latest by default
 ): Promise<string> {
-  assertKey(apiKey);
-  return convertPDFToMarkdown(file, apiKey);
+  const template = getPrompt('markdown-conversion', promptVersion);
+  const llm = resolveLLMProvider({ apiKey, provider });
+  const key = cache ? cacheKeys.markdown(await hashFile(file), `${llm.kind}/${llm.defaultModel}`, template.version) : '';
+  const cached = await readCache<string>(cache, key);
+  if (cached !== undefined) return cached;
+
+  const markdown = await convertPDFToMarkdown(file, llm, template);
+  await writeCache(cache, key, markdown);
+  return markdown;
 }
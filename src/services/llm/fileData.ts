@@ -0,0 +1,13 @@
+/**
+ * Reads a File as base64 without the data URL prefix.
+ * Uses arrayBuffer + btoa so it works in the browser and in Node (tsx scripts).
+ */
+export async function fileToBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
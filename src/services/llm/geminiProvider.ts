@@ -0,0 +1,83 @@
+// Google Gemini provider using @google/generative-ai
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { LLMCompletionRequest, LLMEmbeddingRequest, LLMFileRequest, LLMProvider, LLMResponse } from "./types";
+import { fileToBase64 } from "./fileData";
+
+const DEFAULT_MODEL = "gemini-2.5-pro";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-004";
+// batchEmbedContents accepts at most 100 requests
+const EMBEDDING_BATCH_SIZE = 100;
+
+export function createGeminiProvider(options: { apiKey: string; model?: string }): LLMProvider {
+  const client = new GoogleGenerativeAI(options.apiKey);
+  const defaultModel = options.model || DEFAULT_MODEL;
+
+  async function generate(
+    request: LLMCompletionRequest,
+    responseMimeType: 'text/plain' | 'application/json'
+  ): Promise<LLMResponse> {
+    const model = client.getGenerativeModel({
+      model: request.model || defaultModel,
+      ...(request.systemPrompt && { systemInstruction: request.systemPrompt }),
+      generationConfig: { responseMimeType },
+    });
+
+    console.log(`[Gemini] Calling ${request.model || defaultModel} (${responseMimeType})`);
+    const result = await model.generateContent(request.userPrompt);
+    const content = result.response.text();
+
+    if (!content) {
+      throw new Error('No content found in Gemini response');
+    }
+
+    console.log('[Gemini] Successfully extracted content, length:', content.length);
+    return { content, raw: result.response };
+  }
+
+  return {
+    kind: 'gemini',
+    defaultModel,
+
+    completeText(request: LLMCompletionRequest) {
+      return generate(request, 'text/plain');
+    },
+
+    completeJSON(request: LLMCompletionRequest) {
+      return generate(request, 'application/json');
+    },
+
+    async extractFromFile(request: LLMFileRequest) {
+      // Gemini accepts PDFs inline, no upload step needed
+      const model = client.getGenerativeModel({
+        model: request.model || defaultModel,
+        ...(request.instructions && { systemInstruction: request.instructions }),
+      });
+
+      console.log(`[Gemini] Sending ${request.file.name} inline to ${request.model || defaultModel}`);
+      const result = await model.generateContent([
+        { inlineData: { data: await fileToBase64(request.file), mimeType: 'application/pdf' } },
+        { text: request.prompt },
+      ]);
+      const content = result.response.text();
+
+      if (!content) {
+        throw new Error('No content found in Gemini file response');
+      }
+      return { content, raw: result.response };
+    },
+
+    async embed(request: LLMEmbeddingRequest) {
+      const model = client.getGenerativeModel({ model: request.model || DEFAULT_EMBEDDING_MODEL });
+      const vectors: number[][] = [];
+      for (let start = 0; start < request.texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const { embeddings } = await model.batchEmbedContents({
+          requests: request.texts.slice(start, start + EMBEDDING_BATCH_SIZE).map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+          })),
+        });
+        vectors.push(...embeddings.map(embedding => embedding.values));
+      }
+      return vectors;
+    },
+  };
+}
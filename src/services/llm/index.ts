@@ -0,0 +1,59 @@
+// Pluggable LLM provider layer - pick a vendor per payer plan or per run
+import type { PayerPlan } from "@/constants/fields";
+import { PAYER_PLANS } from "@/constants/fields";
+import type { LLMProvider, LLMProviderConfig, LLMProviderKind } from "./types";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createLocalProvider } from "./localProvider";
+
+export type { LLMProvider, LLMProviderConfig, LLMProviderKind, LLMCompletionRequest, LLMEmbeddingRequest, LLMFileRequest, LLMResponse } from "./types";
+
+export const LLM_PROVIDER_OPTIONS: Array<{ value: LLMProviderKind; label: string }> = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'local', label: 'Local (OpenAI-compatible)' },
+];
+
+// Default provider per payer plan, used when a run does not pick one explicitly
+export const PAYER_LLM_PROVIDERS: Partial<Record<PayerPlan, Omit<LLMProviderConfig, 'apiKey'>>> = {
+  [PAYER_PLANS.QLM]: { kind: 'openai' },
+  [PAYER_PLANS.ALKOOT]: { kind: 'openai' },
+};
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.kind) {
+    case 'openai':
+      if (!config.apiKey) throw new Error("Missing OpenAI API key");
+      return createOpenAIProvider({ apiKey: config.apiKey, model: config.model });
+    case 'gemini':
+      if (!config.apiKey) throw new Error("Missing Gemini API key");
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+    case 'local':
+      return createLocalProvider({ baseUrl: config.baseUrl, apiKey: config.apiKey, model: config.model });
+    default:
+      throw new Error(`Unknown LLM provider: ${(config as LLMProviderConfig).kind}`);
+  }
+}
+
+function isLLMProvider(value: LLMProviderConfig | LLMProvider): value is LLMProvider {
+  return typeof (value as LLMProvider).completeText === 'function';
+}
+
+/**
+ * Resolves the provider for a run: explicit per-run config (or a ready-made
+ * provider instance, e.g. the test fixture provider) wins, then the payer plan
+ * default, then OpenAI. The run's apiKey fills in a missing key.
+ */
+export function resolveLLMProvider(params: {
+  apiKey?: string;
+  payerPlan?: PayerPlan;
+  provider?: LLMProviderConfig | LLMProvider;
+}): LLMProvider {
+  const { apiKey, payerPlan, provider } = params;
+  if (provider && isLLMProvider(provider)) return provider;
+
+  const planDefault = payerPlan ? PAYER_LLM_PROVIDERS[payerPlan] : undefined;
+  const config: LLMProviderConfig = provider || (planDefault ? { ...planDefault } : { kind: 'openai' });
+
+  return createLLMProvider({ ...config, apiKey: config.apiKey || apiKey });
+}
@@ -0,0 +1,117 @@
+// OpenAI-compatible local server provider (Ollama, LM Studio, vLLM, llama.cpp server)
+import type { LLMCompletionRequest, LLMEmbeddingRequest, LLMFileRequest, LLMProvider, LLMResponse } from "./types";
+import { fileToBase64 } from "./fileData";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MODEL = "llama3.1";
+const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
+
+type ChatMessage = {
+  role: 'system' | 'user';
+  content: string | Array<Record<string, unknown>>;
+};
+
+export function createLocalProvider(options: { baseUrl?: string; apiKey?: string; model?: string }): LLMProvider {
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const defaultModel = options.model || DEFAULT_MODEL;
+
+  async function callChat(
+    messages: ChatMessage[],
+    model: string,
+    responseFormat: 'text' | 'json_object'
+  ): Promise<LLMResponse> {
+    const body: Record<string, unknown> = { model, messages };
+    if (responseFormat === 'json_object') {
+      body.response_format = { type: "json_object" };
+    }
+
+    console.log(`[Local LLM] Calling ${baseUrl}/chat/completions with model ${model}`);
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Most local servers ignore the key, but some proxies require one
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Local LLM server error: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      console.error('[Local LLM] Could not extract content from response:', data);
+      throw new Error('No content found in local LLM response');
+    }
+
+    return { content: String(content), raw: data };
+  }
+
+  function toMessages(request: LLMCompletionRequest): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+    messages.push({ role: "user", content: request.userPrompt });
+    return messages;
+  }
+
+  return {
+    kind: 'local',
+    defaultModel,
+
+    completeText(request: LLMCompletionRequest) {
+      return callChat(toMessages(request), request.model || defaultModel, 'text');
+    },
+
+    completeJSON(request: LLMCompletionRequest) {
+      return callChat(toMessages(request), request.model || defaultModel, 'json_object');
+    },
+
+    async extractFromFile(request: LLMFileRequest) {
+      // Chat Completions "file" content part - only servers with PDF support will accept it
+      const messages: ChatMessage[] = [];
+      if (request.instructions) {
+        messages.push({ role: "system", content: request.instructions });
+      }
+      messages.push({
+        role: "user",
+        content: [
+          {
+            type: "file",
+            file: {
+              filename: request.file.name,
+              file_data: `data:application/pdf;base64,${await fileToBase64(request.file)}`,
+            },
+          },
+          { type: "text", text: request.prompt },
+        ],
+      });
+      return callChat(messages, request.model || defaultModel, 'text');
+    },
+
+    async embed(request: LLMEmbeddingRequest) {
+      // OpenAI-compatible /embeddings - Ollama, LM Studio and vLLM serve it for embedding models
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        },
+        body: JSON.stringify({ model: request.model || DEFAULT_EMBEDDING_MODEL, input: request.texts }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Local LLM embeddings error: ${response.status} ${errorText}`);
+      }
+      const data: { data: Array<{ index: number; embedding: number[] }> } = await response.json();
+      return data.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,468 @@
+// OpenAI provider: Responses API with Chat Completions fallback, Assistants API for files
+import type { LLMCompletionRequest, LLMEmbeddingRequest, LLMFileRequest, LLMProvider, LLMResponse } from "./types";
+
+const OPENAI_BASE = "https://api.openai.com/v1";
+const OPENAI_RESPONSES_ENDPOINT = `${OPENAI_BASE}/responses`;
+const OPENAI_CHAT_ENDPOINT = `${OPENAI_BASE}/chat/completions`;
+
+const DEFAULT_MODEL = "gpt-5";
+const DEFAULT_FILE_MODEL = "gpt-4o";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+// Inputs per embeddings request
+const EMBEDDING_BATCH_SIZE = 100;
+
+type ChatMessage = {
+  role: 'system' | 'user';
+  content: string;
+};
+
+type ResponseFormat = { type: 'json_object' };
+
+type ResponsesRequest = {
+  model: string;
+  input: Array<{ role: 'user'; content: Array<{ type: 'input_text'; text: string }> }>;
+  text?: { format: ResponseFormat };
+};
+
+type ChatRequest = {
+  model: string;
+  messages: ChatMessage[];
+  response_format?: ResponseFormat;
+};
+
+// Only the parts of the responses this module reads
+type ResponsesOutputItem = {
+  type: string;
+  content?: Array<{ text?: string }>;
+};
+
+type ResponsesResult = {
+  output?: ResponsesOutputItem[];
+  choices?: Array<{ message?: { content?: string | null } }>;
+  text?: unknown;
+};
+
+type ChatResult = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+export type AssistantMessages = {
+  data?: Array<{ content?: Array<{ text?: { value?: string } }> }>;
+};
+
+/**
+ * Calls GPT-5 using the /v1/responses endpoint
+ * Falls back to chat/completions if responses endpoint is not available
+ */
+async function callResponsesWithFallback(params: {
+  apiKey: string;
+  model: string;
+  userPrompt: string;
+  systemPrompt?: string;
+  responseFormat: 'text' | 'json_object';
+}): Promise<LLMResponse> {
+  const { apiKey, model, userPrompt, systemPrompt, responseFormat } = params;
+
+  // Try Responses API first
+  try {
+    // Combine system and user prompts
+    const combinedPrompt = systemPrompt
+      ? `${systemPrompt}\n\n${userPrompt}`
+      : userPrompt;
+
+    // Build request body for Responses API
+    const body: ResponsesRequest = {
+      model,
+      input: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "input_text",
+              text: combinedPrompt
+            }
+          ]
+        }
+      ]
+    };
+
+    // Set response format if needed
+    if (responseFormat === 'json_object') {
+      body.text = {
+        format: {
+          type: "json_object"
+        }
+      };
+    }
+
+    console.log('[GPT-5 Responses API] Trying Responses API endpoint:', OPENAI_RESPONSES_ENDPOINT);
+
+    const response = await fetch(OPENAI_RESPONSES_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.warn('[GPT-5 Responses API] Responses API failed, will try Chat Completions fallback:', response.status, errorText);
+      throw new Error(`Responses API not available: ${response.status}`);
+    }
+
+    const data: ResponsesResult = await response.json();
+    console.log('[GPT-5 Responses API] Success! Response received');
+
+    // Try multiple paths to extract content from response
+    let content: unknown = null;
+
+    // Try Responses API format - look for message type output with text
+    if (data.output && Array.isArray(data.output)) {
+      // Find the message type output (not reasoning)
+      const messageOutput = data.output.find((item) => item.type === 'message');
+      if (messageOutput?.content?.[0]?.text) {
+        content = messageOutput.content[0].text;
+        console.log('[GPT-5 Responses API] Extracted from message output');
+      }
+    }
+
+    // Fallback: Try other formats
+    if (!content && data.choices?.[0]?.message?.content) {
+      content = data.choices[0].message.content;
+      console.log('[GPT-5 Responses API] Extracted from choices format');
+    }
+
+    if (!content && data.text) {
+      content = data.text;
+      console.log('[GPT-5 Responses API] Extracted from text field');
+    }
+
+    if (!content) {
+      console.error('[GPT-5 Responses API] Could not extract content from response:', data);
+      throw new Error('No content found in GPT-5 Responses API response');
+    }
+
+    // Ensure content is a string
+    if (typeof content !== 'string') {
+      console.warn('[GPT-5 Responses API] Content is not a string, converting...', typeof content);
+    }
+    const text = typeof content === 'string' ? content : String(content);
+
+    console.log('[GPT-5 Responses API] Successfully extracted content, type:', typeof text, 'length:', text.length);
+
+    return {
+      content: text,
+      raw: data
+    };
+
+  } catch (responsesApiError) {
+    // Fallback to standard Chat Completions API
+    console.warn('[GPT-5] Responses API failed, falling back to Chat Completions API');
+    console.log('[GPT-5] Fallback error was:', responsesApiError);
+
+    const messages: ChatMessage[] = [];
+    if (systemPrompt) {
+      messages.push({
+        role: "system",
+        content: systemPrompt
+      });
+    }
+    messages.push({
+      role: "user",
+      content: userPrompt
+    });
+
+    const body: ChatRequest = {
+      model,
+      messages: messages
+    };
+
+    // Add response format for JSON if needed
+    if (responseFormat === 'json_object') {
+      body.response_format = { type: "json_object" };
+    }
+
+    console.log('[GPT-5 Chat Completions] Calling endpoint:', OPENAI_CHAT_ENDPOINT);
+
+    const response = await fetch(OPENAI_CHAT_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[GPT-5 Chat Completions] Error response:', errorText);
+      throw new Error(`GPT-5 Chat Completions API error: ${response.status} ${errorText}`);
+    }
+
+    const data: ChatResult = await response.json();
+    console.log('[GPT-5 Chat Completions] Response received');
+
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      console.error('[GPT-5 Chat Completions] Could not extract content from response:', data);
+      throw new Error('No content found in GPT-5 Chat Completions API response');
+    }
+
+    console.log('[GPT-5 Chat Completions] Successfully extracted content, length:', String(content).length);
+
+    return {
+      content: String(content),
+      raw: data
+    };
+  }
+}
+
+export async function uploadFileToOpenAI(file: File, apiKey: string): Promise<string> {
+  const form = new FormData();
+  form.append("purpose", "assistants");
+  form.append("file", file, file.name);
+
+  const res = await fetch(`${OPENAI_BASE}/files`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: form,
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`OpenAI file upload failed: ${res.status} ${text}`);
+  }
+
+  const data = await res.json();
+  return data.id as string;
+}
+
+export async function createAssistantAndRun(params: {
+  apiKey: string;
+  fileId: string;
+  prompt: string;
+  instructions?: string;
+  model?: string;
+}): Promise<AssistantMessages> {
+  const { apiKey, fileId, prompt, model = DEFAULT_MODEL } = params;
+  const instructions = params.instructions ?? "You are a medical insurance policy data extraction expert with PERFECT ACCURACY. Your PRIMARY GOAL is to extract EVERY SINGLE CHARACTER from the PDF document - DO NOT miss any content. Extract 100% of all text, tables, fields, and values from the document. Missing content is UNACCEPTABLE. After complete extraction, your secondary goal is precision - extract ONLY what is explicitly present, never infer or hallucinate values. Your output must be clean, consistent, and exactly match the document's content. Extract ALL tables completely with every row and column. Return NULL only for fields that truly don't exist after extracting all content.";
+
+  // Create assistant with file search capability and enhanced instructions
+  const assistantRes = await fetch(`${OPENAI_BASE}/assistants`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+    body: JSON.stringify({
+      model,
+      name: "Medical Insurance Extractor",
+      description: "Specialized assistant for extracting medical insurance policy data with high precision",
+      instructions,
+      tools: [{ type: "file_search" }],
+      tool_resources: {
+        file_search: {
+          vector_store_ids: []
+        }
+      },
+    }),
+  });
+
+  if (!assistantRes.ok) {
+    const errTxt = await assistantRes.text();
+    throw new Error(`Assistant creation error: ${assistantRes.status} ${errTxt}`);
+  }
+
+  const assistant = await assistantRes.json();
+
+  // Create thread
+  const threadRes = await fetch(`${OPENAI_BASE}/threads`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+    body: JSON.stringify({}),
+  });
+
+  if (!threadRes.ok) {
+    const errTxt = await threadRes.text();
+    throw new Error(`Thread creation error: ${threadRes.status} ${errTxt}`);
+  }
+
+  const thread = await threadRes.json();
+
+  // Add message with file attachment
+  const messageRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/messages`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+    body: JSON.stringify({
+      role: "user",
+      content: prompt,
+      attachments: [
+        {
+          file_id: fileId,
+          tools: [{ type: "file_search" }]
+        }
+      ]
+    }),
+  });
+
+  if (!messageRes.ok) {
+    const errTxt = await messageRes.text();
+    throw new Error(`Message creation error: ${messageRes.status} ${errTxt}`);
+  }
+
+  // Create and poll run
+  const runRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/runs`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+    body: JSON.stringify({
+      assistant_id: assistant.id,
+    }),
+  });
+
+  if (!runRes.ok) {
+    const errTxt = await runRes.text();
+    throw new Error(`Run creation error: ${runRes.status} ${errTxt}`);
+  }
+
+  const run = await runRes.json();
+
+  // Poll for completion
+  let runStatus = run;
+  while (runStatus.status === "queued" || runStatus.status === "in_progress") {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    const statusRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/runs/${run.id}`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "OpenAI-Beta": "assistants=v2",
+      },
+    });
+
+    if (!statusRes.ok) {
+      const errTxt = await statusRes.text();
+      throw new Error(`Run status check error: ${statusRes.status} ${errTxt}`);
+    }
+
+    runStatus = await statusRes.json();
+  }
+
+  if (runStatus.status !== "completed") {
+    throw new Error(`Run failed with status: ${runStatus.status}`);
+  }
+
+  // Get messages
+  const messagesRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/messages`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+  });
+
+  if (!messagesRes.ok) {
+    const errTxt = await messagesRes.text();
+    throw new Error(`Messages retrieval error: ${messagesRes.status} ${errTxt}`);
+  }
+
+  const messages = await messagesRes.json();
+
+  // Clean up
+  await fetch(`${OPENAI_BASE}/assistants/${assistant.id}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+  });
+
+  return messages;
+}
+
+export function createOpenAIProvider(options: { apiKey: string; model?: string }): LLMProvider {
+  const { apiKey } = options;
+  const defaultModel = options.model || DEFAULT_MODEL;
+
+  return {
+    kind: 'openai',
+    defaultModel,
+
+    completeText(request: LLMCompletionRequest) {
+      return callResponsesWithFallback({
+        apiKey,
+        model: request.model || defaultModel,
+        userPrompt: request.userPrompt,
+        systemPrompt: request.systemPrompt,
+        responseFormat: 'text',
+      });
+    },
+
+    completeJSON(request: LLMCompletionRequest) {
+      return callResponsesWithFallback({
+        apiKey,
+        model: request.model || defaultModel,
+        userPrompt: request.userPrompt,
+        systemPrompt: request.systemPrompt,
+        responseFormat: 'json_object',
+      });
+    },
+
+    async extractFromFile(request: LLMFileRequest) {
+      // Upload the PDF and run it through an Assistant with file_search
+      const fileId = await uploadFileToOpenAI(request.file, apiKey);
+      const messages = await createAssistantAndRun({
+        apiKey,
+        fileId,
+        prompt: request.prompt,
+        instructions: request.instructions,
+        model: request.model || options.model || DEFAULT_FILE_MODEL,
+      });
+
+      const content = messages.data?.[0]?.content?.[0]?.text?.value;
+      if (!content) {
+        throw new Error('No content returned from OpenAI Assistants run');
+      }
+      return { content, raw: messages };
+    },
+
+    async embed(request: LLMEmbeddingRequest) {
+      const vectors: number[][] = [];
+      for (let start = 0; start < request.texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const res = await fetch(`${OPENAI_BASE}/embeddings`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model: request.model || DEFAULT_EMBEDDING_MODEL,
+            input: request.texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+          }),
+        });
+        if (!res.ok) {
+          const text = await res.text();
+          throw new Error(`OpenAI embeddings error: ${res.status} ${text}`);
+        }
+        const data: { data: Array<{ index: number; embedding: number[] }> } = await res.json();
+        data.data.sort((a, b) => a.index - b.index).forEach(item => vectors.push(item.embedding));
+      }
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// Shared types for the pluggable LLM provider layer
+
+export type LLMProviderKind = 'openai' | 'gemini' | 'local';
+
+/**
+ * Serializable provider selection - what the UI, payer plan defaults and
+ * per-run overrides pass around. Turned into a live provider by createLLMProvider.
+ */
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;   // Only used by OpenAI-compatible local servers
+}
+
+export interface LLMCompletionRequest {
+  userPrompt: string;
+  systemPrompt?: string;
+  model?: string;
+}
+
+export interface LLMFileRequest {
+  file: File;
+  prompt: string;
+  instructions?: string;
+  model?: string;
+}
+
+export interface LLMEmbeddingRequest {
+  texts: string[];
+  model?: string;
+}
+
+export interface LLMResponse {
+  content: string;
+  raw: unknown;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly defaultModel: string;
+  /** Free-form text completion (markdown tables, prose) */
+  completeText(request: LLMCompletionRequest): Promise<LLMResponse>;
+  /** Completion constrained to a single JSON object */
+  completeJSON(request: LLMCompletionRequest): Promise<LLMResponse>;
+  /** Send the PDF itself to the model (upload / inline data) and return its answer */
+  extractFromFile(request: LLMFileRequest): Promise<LLMResponse>;
+  /** Embedding vectors for the texts, in order. Left out by providers without an embeddings API */
+  embed?(request: LLMEmbeddingRequest): Promise<number[][]>;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { ComparisonResult } from "@/constants/fields";
+import { buildRenewalReport, renderRenewalReportHtml } from "@/services/renewalReport";
+
+const row = (field: string, file1Value: string | null, file2Value: string | null, status: ComparisonResult['status']): ComparisonResult =>
+  ({ field, file1Value, file2Value, status, explanation: '' });
+
+const meta = { payerPlan: 'ALKOOT', previousFileName: '2024.pdf', currentFileName: '2025.pdf' };
+
+const report = (results: ComparisonResult[]) => buildRenewalReport(results, meta);
+
+describe('buildRenewalReport', () => {
+  it('moves the policy, category and period fields to the header', () => {
+    const { details, changes } = report([
+      row('Policy No.', 'AK/HC/00064/7/1', 'AK/HC/00064/7/2', 'different'),
+      row('Category', 'A', 'A', 'same'),
+      row('Period of Insurance', '01/01/2024 - 31/12/2024', '01/01/2025 - 31/12/2025', 'different'),
+      row('Policy Effective Date', '01/01/2024', '01/01/2025', 'different'),
+      row('Insured', 'Acme', 'Acme', 'same'),
+      row('Room Type', 'Private', 'Private', 'same'),
+    ]);
+    expect(details.map((d) => d.field)).toEqual(['Policy No.', 'Category', 'Period of Insurance', 'Policy Effective Date', 'Insured']);
+    expect(changes.map((c) => c.field)).toEqual(['Room Type']);
+  });
+
+  it('accepts a renewed policy number and warns on a different category', () => {
+    const { match } = report([
+      row('Policy Number', 'AK/HC/00064/7/1', 'AK/HC/00064/7/2', 'different'),
+      row('Category', 'A', 'B', 'different'),
+    ]);
+    expect(match.policyNumber.match).toBe('renewed');
+    expect(match.matched).toBe(false);
+    expect(match.warnings).toEqual(['Categories do not match (A vs B) - compare the same category from both years']);
+  });
+
+  it('reads a higher member share as poorer and a higher limit as richer', () => {
+    const { changes, summary } = report([
+      row('Inpatient Deductible', 'Nil', 'QAR 100', 'different'),
+      row('Dental Copayment', '20%', '10%', 'decreased'),
+      row('Psychiatric Treatment', 'QAR 5,000', 'QAR 10,000', 'increased'),
+      row('Dental Benefit', 'QAR 7,500, 20% co-insurance', 'QAR 10,000, 30% co-insurance', 'different'),
+      row('Optical', 'Covered', 'Covered', 'same'),
+    ]);
+    expect(changes.map((c) => [c.impact, c.label])).toEqual([
+      ['poorer', 'Deductible introduced'],
+      ['richer', 'Co-insurance lowered'],
+      ['richer', 'Limit raised'],
+      ['mixed', 'Limit and co-insurance both changed'],
+      ['unchanged', 'No change'],
+    ]);
+    expect(summary).toEqual({ richer: 2, poorer: 1, mixed: 1, changed: 0, unchanged: 1 });
+  });
+
+  it('reports a benefit that appears or disappears as changed', () => {
+    const { changes } = report([row('Wellness', null, 'Covered', 'different'), row('Optical', 'Covered', null, 'different')]);
+    expect(changes.map((c) => c.label)).toEqual(['Newly listed', 'No longer listed']);
+  });
+});
+
+describe('renderRenewalReportHtml', () => {
+  it('escapes document values', () => {
+    const html = renderRenewalReportHtml(report([row('Room Type', 'Private', '<b>Suite</b>', 'different')]));
+    expect(html).toContain('&lt;b&gt;Suite&lt;/b&gt;');
+    expect(html).not.toContain('<b>Suite</b>');
+  });
+});
@@ -0,0 +1,283 @@
+// Renewal report - what changed between last year's and this year's schedule of benefits
+import type { ComparisonResult, PayerPlan } from "@/constants/fields";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import type { LLMProvider, LLMProviderConfig } from "@/services/llm";
+import type { ExtractionServerConfig } from "@/services/serverExtraction";
+import type { ExtractionCacheStore } from "@/lib/extractionCache";
+import { compareDataApi } from "./extractionApi";
+import { parseValue, type ParsedValue } from "@/lib/valueComparison";
+import { findFieldDefinition } from "@/lib/fieldTypes";
+
+export type RenewalImpact = 'richer' | 'poorer' | 'mixed' | 'changed' | 'unchanged';
+
+export interface RenewalChange {
+  field: string;
+  previous: string | null;
+  current: string | null;
+  impact: RenewalImpact;
+  label: string;          // e.g. "Deductible raised", "Limit cut"
+  explanation: string;
+}
+
+export interface RenewalMatch {
+  matched: boolean;
+  policyNumber: { previous: string | null; current: string | null; match: 'exact' | 'renewed' | 'mismatch' | 'unknown' };
+  category: { previous: string | null; current: string | null; match: 'exact' | 'mismatch' | 'unknown' };
+  warnings: string[];
+}
+
+export interface RenewalReport {
+  generatedAt: string;
+  payerPlan: string;
+  previousFileName: string;
+  currentFileName: string;
+  match: RenewalMatch;
+  details: Array<{ field: string; previous: string | null; current: string | null }>;
+  changes: RenewalChange[];
+  summary: Record<RenewalImpact, number>;
+}
+
+const POLICY_NUMBER_FIELD = /^policy\s*(no\.?|number|#)$/i;
+const CATEGORY_FIELD = /^(category|plan|class)$/i;
+// Identification / period fields - reported in the header, not as benefit changes
+const DETAIL_FIELD = /^(?:insured|period of insurance|(?:policy\s+)?(?:effective|expiry|expiration|start|end|inception|commencement|renewal)\s+date)$/i;
+// Cost-sharing fields: a higher value is worse for the member. Used for
+// custom fields - schema fields say who pays through paidBy.
+const COST_SHARE_FIELD = /deductible|co-?insurance|co-?pay|excess|waiting/i;
+
+const AGREEING = new Set<ComparisonResult['status']>(['same', 'format-only', 'equivalent']);
+
+/**
+ * Renewed policies often keep the number and only change the trailing
+ * segment (AK/HC/00064/7/1 -> AK/HC/00064/7/2)
+ */
+const policyBase = (value: string) => value.trim().toUpperCase().replace(/[\s]+/g, '').replace(/[/-][^/-]+$/, '');
+
+function matchDocuments(results: ComparisonResult[]): RenewalMatch {
+  const warnings: string[] = [];
+  const policy = results.find(r => POLICY_NUMBER_FIELD.test(r.field.trim()));
+  const category = results.find(r => CATEGORY_FIELD.test(r.field.trim()));
+
+  let policyMatch: RenewalMatch['policyNumber']['match'] = 'unknown';
+  if (policy?.file1Value && policy.file2Value) {
+    if (AGREEING.has(policy.status)) policyMatch = 'exact';
+    else if (policyBase(policy.file1Value) === policyBase(policy.file2Value)) policyMatch = 'renewed';
+    else policyMatch = 'mismatch';
+  }
+
+  let categoryMatch: RenewalMatch['category']['match'] = 'unknown';
+  if (category?.file1Value && category.file2Value) {
+    categoryMatch = AGREEING.has(category.status) ? 'exact' : 'mismatch';
+  }
+
+  if (policyMatch === 'mismatch') {
+    warnings.push(`Policy numbers do not match (${policy?.file1Value} vs ${policy?.file2Value}) - these may be different policies`);
+  }
+  if (categoryMatch === 'mismatch') {
+    warnings.push(`Categories do not match (${category?.file1Value} vs ${category?.file2Value}) - compare the same category from both years`);
+  }
+  if (policyMatch === 'unknown' || categoryMatch === 'unknown') {
+    warnings.push('Policy number or category could not be read from both documents - check the pairing manually');
+  }
+
+  return {
+    matched: policyMatch !== 'mismatch' && categoryMatch !== 'mismatch',
+    policyNumber: { previous: policy?.file1Value ?? null, current: policy?.file2Value ?? null, match: policyMatch },
+    category: { previous: category?.file1Value ?? null, current: category?.file2Value ?? null, match: categoryMatch },
+    warnings,
+  };
+}
+
+// How generous a value is, for benefits where the kind of value changed
+const generosity = (parsed: ParsedValue): number | null => {
+  if (parsed.kind === 'term') {
+    return { none: 0, 'not-applicable': 0, covered: 2, unlimited: 3 }[parsed.term];
+  }
+  if (parsed.kind === 'money' || parsed.kind === 'composite') return 1;
+  return null;
+};
+
+const isNone = (parsed: ParsedValue) => parsed.kind === 'term' && parsed.term === 'none';
+
+/**
+ * Decides whether a change makes the benefit richer or poorer for the member
+ */
+function assessChange(result: ComparisonResult): RenewalChange {
+  const { field, file1Value: previous, file2Value: current, status, explanation } = result;
+  const base = { field, previous, current, explanation };
+
+  if (AGREEING.has(status) || status === 'missing') {
+    return { ...base, impact: 'unchanged', label: 'No change' };
+  }
+
+  const def = findFieldDefinition(field);
+  const costShare = def?.paidBy ? def.paidBy === 'member' : COST_SHARE_FIELD.test(field);
+  const kind = /co-?insurance|co-?pay/i.test(field) ? 'Co-insurance' : /deductible/i.test(field) ? 'Deductible' : 'Cost share';
+  const before = parseValue(previous, def?.type);
+  const after = parseValue(current, def?.type);
+
+  if (previous === null || current === null) {
+    return { ...base, impact: 'changed', label: previous === null ? 'Newly listed' : 'No longer listed' };
+  }
+
+  if (costShare) {
+    if (status === 'increased' || (isNone(before) && !isNone(after))) {
+      return { ...base, impact: 'poorer', label: isNone(before) ? `${kind} introduced` : `${kind} raised` };
+    }
+    if (status === 'decreased' || (!isNone(before) && isNone(after))) {
+      return { ...base, impact: 'richer', label: isNone(after) ? `${kind} removed` : `${kind} lowered` };
+    }
+    return { ...base, impact: 'changed', label: `${kind} changed` };
+  }
+
+  // Benefit with a limit and its own co-insurance ("QAR 7,500, 20% co-insurance"):
+  // limits up is richer, rates up is poorer
+  if (before.kind === 'composite' && after.kind === 'composite' &&
+      before.amounts.length === after.amounts.length && before.percents.length === after.percents.length) {
+    const limitDelta = Math.sign(after.amounts.reduce((s, n) => s + n, 0) - before.amounts.reduce((s, n) => s + n, 0));
+    const rateDelta = Math.sign(after.percents.reduce((s, n) => s + n, 0) - before.percents.reduce((s, n) => s + n, 0));
+    const richer = limitDelta > 0 || rateDelta < 0;
+    const poorer = limitDelta < 0 || rateDelta > 0;
+    if (richer && poorer) return { ...base, impact: 'mixed', label: 'Limit and co-insurance both changed' };
+    if (richer) return { ...base, impact: 'richer', label: limitDelta > 0 ? 'Limit raised' : 'Co-insurance lowered' };
+    if (poorer) return { ...base, impact: 'poorer', label: limitDelta < 0 ? 'Limit cut' : 'Co-insurance raised' };
+    return { ...base, impact: 'changed', label: 'Terms changed' };
+  }
+
+  if (status === 'increased') return { ...base, impact: 'richer', label: 'Limit raised' };
+  if (status === 'decreased') return { ...base, impact: 'poorer', label: 'Limit cut' };
+
+  const g1 = generosity(before);
+  const g2 = generosity(after);
+  if (g1 !== null && g2 !== null && g1 !== g2) {
+    if (g1 === 0) return { ...base, impact: 'richer', label: 'Coverage added' };
+    if (g2 === 0) return { ...base, impact: 'poorer', label: 'Coverage removed' };
+    return g2 > g1
+      ? { ...base, impact: 'richer', label: 'Limit removed' }
+      : { ...base, impact: 'poorer', label: 'Limit introduced' };
+  }
+
+  return { ...base, impact: 'changed', label: 'Wording changed - review' };
+}
+
+/**
+ * Builds the renewal report from a previous-vs-current comparison
+ */
+export function buildRenewalReport(
+  results: ComparisonResult[],
+  meta: { payerPlan: string; previousFileName: string; currentFileName: string }
+): RenewalReport {
+  const match = matchDocuments(results);
+  const isDetail = (field: string) =>
+    POLICY_NUMBER_FIELD.test(field.trim()) || CATEGORY_FIELD.test(field.trim()) || DETAIL_FIELD.test(field.trim());
+
+  const details = results
+    .filter(r => isDetail(r.field))
+    .map(r => ({ field: r.field, previous: r.file1Value, current: r.file2Value }));
+  const changes = results.filter(r => !isDetail(r.field)).map(assessChange);
+
+  const summary: Record<RenewalImpact, number> = { richer: 0, poorer: 0, mixed: 0, changed: 0, unchanged: 0 };
+  changes.forEach(change => summary[change.impact]++);
+
+  return { generatedAt: new Date().toISOString(), ...meta, match, details, changes, summary };
+}
+
+interface RenewalReportApiParams {
+  previousFile: File;
+  currentFile: File;
+  apiKey: string;
+  fields?: string[];
+  schema?: FieldDefinition[];
+  payerPlan?: PayerPlan;
+  payerPlanName?: string;
+  provider?: LLMProviderConfig | LLMProvider;
+  server?: ExtractionServerConfig;
+  cache?: ExtractionCacheStore | null;
+  refresh?: boolean;
+}
+
+export async function generateRenewalReportApi({
+  previousFile,
+  currentFile,
+  ...params
+}: RenewalReportApiParams): Promise<RenewalReport> {
+  const results = await compareDataApi({ ...params, file1: previousFile, file2: currentFile });
+  return buildRenewalReport(results, {
+    payerPlan: params.payerPlanName || params.payerPlan || 'Custom',
+    previousFileName: previousFile.name,
+    currentFileName: currentFile.name,
+  });
+}
+
+const escapeHtml = (value: string | null) =>
+  (value ?? '—').replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const IMPACT_LABELS: Record<RenewalImpact, string> = {
+  richer: 'Improved',
+  poorer: 'Reduced',
+  mixed: 'Mixed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+/**
+ * Standalone HTML version of the report, for printing or sending to the client
+ */
+export function renderRenewalReportHtml(report: RenewalReport): string {
+  const order: RenewalImpact[] = ['poorer', 'mixed', 'richer', 'changed', 'unchanged'];
+  const rows = [...report.changes]
+    .sort((a, b) => order.indexOf(a.impact) - order.indexOf(b.impact))
+    .map(change => `
+      <tr class="${change.impact}">
+        <td>${escapeHtml(change.field)}</td>
+        <td>${escapeHtml(change.previous)}</td>
+        <td>${escapeHtml(change.current)}</td>
+        <td><strong>${IMPACT_LABELS[change.impact]}</strong><br><small>${escapeHtml(change.label)}</small></td>
+      </tr>`)
+    .join('');
+  const details = report.details
+    .map(d => `<tr><th>${escapeHtml(d.field)}</th><td>${escapeHtml(d.previous)}</td><td>${escapeHtml(d.current)}</td></tr>`)
+    .join('');
+  const warnings = report.match.warnings.map(w => `<li>${escapeHtml(w)}</li>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Renewal report - ${escapeHtml(report.match.category.current || report.currentFileName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1f2937; margin: 32px; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 12px; margin-bottom: 24px; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 24px; font-size: 13px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  thead th { background: #f3f4f6; }
+  .summary span { display: inline-block; margin-right: 16px; }
+  .poorer td:last-child { color: #b91c1c; }
+  .richer td:last-child { color: #15803d; }
+  .mixed td:last-child, .changed td:last-child { color: #b45309; }
+  .unchanged { color: #6b7280; }
+  .warnings { background: #fef3c7; border: 1px solid #fcd34d; padding: 8px 16px; }
+</style>
+</head>
+<body>
+  <h1>Policy Renewal Summary</h1>
+  <div class="meta">${escapeHtml(report.payerPlan)} · ${escapeHtml(report.previousFileName)} → ${escapeHtml(report.currentFileName)} · Generated ${new Date(report.generatedAt).toLocaleDateString()}</div>
+  ${warnings ? `<ul class="warnings">${warnings}</ul>` : ''}
+  <table>
+    <thead><tr><th></th><th>Previous</th><th>Renewal</th></tr></thead>
+    <tbody>${details}</tbody>
+  </table>
+  <p class="summary">
+    <span><strong>${report.summary.richer}</strong> improved</span>
+    <span><strong>${report.summary.poorer}</strong> reduced</span>
+    <span><strong>${report.summary.mixed + report.summary.changed}</strong> changed</span>
+    <span><strong>${report.summary.unchanged}</strong> unchanged</span>
+  </p>
+  <table>
+    <thead><tr><th>Benefit</th><th>Previous</th><th>Renewal</th><th>Impact</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`;
+}
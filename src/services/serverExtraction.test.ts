@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ExtractionResult } from "@/constants/fields";
+import { extractOnServer } from "@/services/serverExtraction";
+
+const server = { url: 'http://localhost:8787/api/extract', token: 'secret' };
+const pdf = new File(['%PDF-1.4'], 'policy.pdf', { type: 'application/pdf' });
+
+const stubFetch = (status: number, body: unknown) => {
+  const fetch = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('extractOnServer', () => {
+  it('sends the PDF with the token and returns the whole result', async () => {
+    const result: ExtractionResult = {
+      data: { Dental: 'QAR 500' },
+      provenance: {},
+      cached: true,
+      rulesFired: [{ rule: 'r1', field: 'Dental', action: 'set', from: null, to: 'QAR 500' }],
+      warnings: [],
+    };
+    const fetch = stubFetch(200, result);
+    await expect(extractOnServer(server, { file: pdf, payerPlan: 'QLM' })).resolves.toEqual(result);
+
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(init.body as string)).toMatchObject({ fileName: 'policy.pdf', fileBase64: btoa('%PDF-1.4'), payerPlan: 'QLM' });
+  });
+
+  it('explains a rejected token and passes server errors on', async () => {
+    stubFetch(401, { error: 'Missing or invalid access token' });
+    await expect(extractOnServer(server, { file: pdf })).rejects.toThrow('Access token was rejected');
+    stubFetch(502, { error: 'Model timed out' });
+    await expect(extractOnServer(server, { file: pdf })).rejects.toThrow('Model timed out');
+  });
+});
@@ -0,0 +1,62 @@
+// Client for the server-side extraction endpoint (server/extractHandler.ts).
+// Used instead of calling the LLM from the browser when the app is configured
+// with an extraction server, so the LLM key stays on the server.
+import type { ExtractionResult, PayerPlan } from "@/constants/fields";
+import type { FieldDefinition } from "@/constants/fieldSchema";
+import { fileToBase64 } from "./llm/fileData";
+
+export interface ExtractionServerConfig {
+  url: string;                  // e.g. "/.netlify/functions/extract" or "http://localhost:8787/api/extract"
+  token: string;                // Per-user access token issued by the server admin
+}
+
+interface ServerExtractParams {
+  file: File;
+  fields?: string[];
+  schema?: FieldDefinition[];
+  payerPlan?: PayerPlan;
+  payerPlanName?: string;
+}
+
+export async function extractOnServer(
+  server: ExtractionServerConfig,
+  { file, fields, schema, payerPlan, payerPlanName }: ServerExtractParams
+): Promise<ExtractionResult> {
+  const response = await fetch(server.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${server.token}`,
+    },
+    body: JSON.stringify({
+      fileName: file.name,
+      fileBase64: await fileToBase64(file),
+      fields,
+      schema,
+      payerPlan,
+      payerPlanName,
+    }),
+  });
+
+  const text = await response.text();
+  let data: (ExtractionResult & { error?: string }) | null = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    data = null;
+  }
+  if (!response.ok) {
+    if (response.status === 401) throw new Error('Access token was rejected by the extraction server');
+    throw new Error(data?.error || `Extraction server error (${response.status})`);
+  }
+  if (!data?.data) throw new Error('Invalid response from extraction server');
+  return {
+    data: data.data,
+    provenance: data.provenance,
+    fieldsFromTables: data.fieldsFromTables,
+    promptVersions: data.promptVersions,
+    rulesFired: data.rulesFired,
+    warnings: data.warnings,
+    cached: data.cached,
+  };
+}
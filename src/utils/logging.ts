@@ -5,6 +5,10 @@ export async function logExtraction(
   details?: string
 ): Promise<{ success: boolean; message?: string }> {
   const endpoint = '/.netlify/functions/logExtraction';
+  // Relative endpoint only resolves in the browser (not in the CLI or server)
+  if (typeof window === 'undefined') {
+    return { success: false, message: 'Extraction logging is only available in the browser' };
+  }
   const timestamp = new Date().toISOString();
   const requestBody = {
     fileName,
@@ -1,14 +1,17 @@
 #!/usr/bin/env node
 /**
  * Single extraction script - extracts data from a PDF without comparing to expected results
+ *
+ * Pass --fixtures=<dir> to replay recorded LLM responses offline, add --record to capture them.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import { extractDataApi } from '../src/services/extractionApi.new';
 import { ALKOOT_FIELDS, PAYER_PLANS } from '../src/constants/fields';
+import { createLLMProvider } from '../src/services/llm';
+import { createFixtureProvider } from '../cli/fixtureProvider';
 
 // ES module compatibility
 const __filename = fileURLToPath(import.meta.url);
@@ -18,8 +21,12 @@ const __dirname = dirname(__filename);
 const args = process.argv.slice(2);
 const pdfArg = args.find(arg => arg.startsWith('--pdf='));
 const pdfPath = pdfArg ? pdfArg.split('=')[1] : 'test.pdf';
+const fixturesArg = args.find(arg => arg.startsWith('--fixtures='));
+const fixturesDir = fixturesArg ? fixturesArg.split('=')[1] : undefined;
+const record = args.includes('--record');
+const replayFixtures = !!fixturesDir && !record;
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || (replayFixtures ? 'fixture-replay' : undefined);
 
 if (!OPENAI_API_KEY) {
   console.error('Error: OPENAI_API_KEY environment variable is not set.');
@@ -46,6 +53,18 @@ async function main() {
     const pdfBuffer = fs.readFileSync(fullPdfPath);
     const pdfFile = new File([pdfBuffer], path.basename(pdfPath), { type: 'application/pdf' });
 
+    // Fixture runs need the provider-aware pipeline in extractionApi.ts
+    const { extractDataApi } = fixturesDir
+      ? await import('../src/services/extractionApi')
+      : await import('../src/services/extractionApi.new');
+    const provider = fixturesDir
+      ? createFixtureProvider({
+          fixturesDir: path.resolve(__dirname, '..', fixturesDir),
+          mode: record ? 'record' : 'replay',
+          delegate: record ? createLLMProvider({ kind: 'openai', apiKey: OPENAI_API_KEY }) : undefined
+        })
+      : undefined;
+
     console.log('Starting extraction...\n');
     
     const startTime = Date.now();
@@ -56,6 +75,7 @@ async function main() {
       fields: ALKOOT_FIELDS,
       payerPlan: PAYER_PLANS.ALKOOT,
       payerPlanName: PAYER_PLANS.ALKOOT,
+      ...(provider && { provider }),
     });
     
     const endTime = Date.now();
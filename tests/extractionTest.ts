@@ -11,7 +11,11 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { PayerPlan, ExtractedData } from '../src/constants/fields';
+import type { PayerPlan, ExtractedData, FewShotExample } from '../src/constants/fields';
+import type { FieldDefinition } from '../src/constants/fieldSchema';
+import type { LLMProvider } from '../src/services/llm';
+import type { ExtractionCacheStore } from '../src/lib/extractionCache';
+import { formatPromptVersions, type PromptVersions } from '../src/prompts';
 
 // Import the extraction API (dynamically to allow switching)
 let extractionApi: any;
@@ -47,11 +51,29 @@ export interface IterationReport {
   failures: TestResult[];
   improvementsApplied: string[];
   timeMs: number;
+  promptVersions?: PromptVersions;  // Templates the extraction used (extractionApi.ts only)
+}
+
+export interface ExtractionOutput {
+  data: ExtractedData;
+  promptVersions?: PromptVersions;
+}
+
+// One run of a prompt comparison
+export interface PromptComparisonRun {
+  requested: PromptVersions;
+  used?: PromptVersions;
+  results: TestResult[];
+  timeMs: number;
 }
 
 export interface ExpectedResults {
   context: string;
   payerPlan: string;
+  // Custom and saved plans, as exported from a review: the fields to extract
+  payerPlanName?: string;
+  fields?: string[];
+  schema?: FieldDefinition[];
   pdfName: string;
   expectedFields: Record<string, string | null>;
   notes?: Record<string, string>;
@@ -73,8 +95,13 @@ export async function runExtraction(
   pdfPath: string,
   payerPlan: PayerPlan,
   apiKey: string,
-  apiPath: string
-): Promise<ExtractedData> {
+  apiPath: string,
+  provider?: LLMProvider,
+  cache?: ExtractionCacheStore,
+  promptVersions?: PromptVersions,
+  examples?: FewShotExample[],
+  plan: Pick<ExpectedResults, 'payerPlanName' | 'fields' | 'schema'> = {}
+): Promise<ExtractionOutput> {
   // Dynamically import the extraction API
   if (!extractionApi) {
     extractionApi = await import(apiPath);
@@ -86,14 +113,26 @@ export async function runExtraction(
   
   // Run extraction
   console.log(`Running extraction with API: ${apiPath}`);
-  const result = await extractionApi.extractDataApi({
+  const params = {
     file: pdfFile,
     apiKey,
     payerPlan,
-    payerPlanName: payerPlan
-  });
-  
-  return result;
+    payerPlanName: plan.payerPlanName ?? payerPlan,
+    // extractionApi.new.ts only takes field names; extractionApi.ts uses the schema over them
+    ...(plan.schema && { schema: plan.schema }),
+    ...((plan.fields || plan.schema) && { fields: plan.fields ?? plan.schema?.map(def => def.name) }),
+    ...(provider && { provider }),
+    ...(cache && { cache }),
+    ...(promptVersions && { promptVersions }),
+    ...(examples && { examples })
+  };
+
+  // extractionApi.new.ts has no prompt registry and no detailed variant
+  if (!extractionApi.extractDataDetailedApi) {
+    return { data: await extractionApi.extractDataApi(params) };
+  }
+  const result = await extractionApi.extractDataDetailedApi(params);
+  return { data: result.data, promptVersions: result.promptVersions };
 }
 
 /**
@@ -303,7 +342,8 @@ export function generateIterationReport(
   results: TestResult[],
   improvements: string[],
   timeMs: number,
-  reportDir: string
+  reportDir: string,
+  promptVersions?: PromptVersions
 ): void {
   const { accuracy, correct, total, failed } = calculateAccuracy(results);
   
@@ -316,7 +356,8 @@ export function generateIterationReport(
     fieldsFailed: failed.length,
     failures: failed,
     improvementsApplied: improvements,
-    timeMs
+    timeMs,
+    ...(promptVersions && { promptVersions })
   };
   
   const reportPath = path.join(reportDir, `iteration-${iteration}.json`);
@@ -326,6 +367,7 @@ export function generateIterationReport(
   console.log(`Accuracy: ${report.accuracy}%`);
   console.log(`Correct: ${correct}/${total} fields`);
   console.log(`Time: ${timeMs}ms`);
+  if (promptVersions) console.log(`Prompts: ${formatPromptVersions(promptVersions) || 'none (no model call)'}`);
   
   if (failed.length > 0) {
     console.log(`\nFailed fields:`);
@@ -353,7 +395,7 @@ export function generateFinalReport(
     success,
     totalIterations: allReports.length,
     finalAccuracy: allReports[allReports.length - 1]?.accuracy || 0,
-    bestAccuracy: Math.max(...allReports.map(r => r.accuracy)),
+    bestAccuracy: allReports.length > 0 ? Math.max(...allReports.map(r => r.accuracy)) : 0,
     totalTime: allReports.reduce((sum, r) => sum + r.timeMs, 0),
     iterationSummaries: allReports.map(r => ({
       iteration: r.iteration,
@@ -379,6 +421,58 @@ export function generateFinalReport(
   console.log(`\nReports saved to: ${reportDir}`);
 }
 
+/**
+ * Accuracy of each prompt version side by side, plus the fields whose result
+ * differs between versions
+ */
+export function generatePromptComparisonReport(runs: PromptComparisonRun[], reportDir: string): void {
+  const label = (run: PromptComparisonRun) => formatPromptVersions(run.requested);
+  const fields = runs[0]?.results.map(r => r.field) ?? [];
+  const differing = fields.filter(field => new Set(runs.map(run => run.results.find(r => r.field === field)?.match)).size > 1);
+
+  const report = {
+    timestamp: new Date().toISOString(),
+    runs: runs.map(run => {
+      const { accuracy, correct, total, failed } = calculateAccuracy(run.results);
+      return {
+        promptVersions: run.requested,
+        usedPromptVersions: run.used,
+        accuracy: Math.round(accuracy * 10) / 10,
+        fieldsCorrect: correct,
+        fieldsTotal: total,
+        failures: failed,
+        timeMs: run.timeMs
+      };
+    }),
+    differingFields: differing.map(field => ({
+      field,
+      results: Object.fromEntries(runs.map(run => {
+        const result = run.results.find(r => r.field === field);
+        return [label(run), { actual: result?.actual ?? null, match: Boolean(result?.match) }];
+      }))
+    }))
+  };
+
+  const reportPath = path.join(reportDir, 'prompt-comparison.json');
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`PROMPT COMPARISON`);
+  console.log(`${'='.repeat(60)}`);
+  report.runs.forEach((run, idx) => {
+    console.log(`${label(runs[idx])}: ${run.accuracy}% (${run.fieldsCorrect}/${run.fieldsTotal} fields, ${run.timeMs}ms)`);
+  });
+  if (differing.length > 0) {
+    console.log(`\nFields that differ between versions:`);
+    report.differingFields.forEach(({ field, results }) => {
+      console.log(`  - ${field}: ${Object.entries(results).map(([version, r]) => `${version} ${r.match ? '✓' : '✗'} "${r.actual}"`).join(', ')}`);
+    });
+  } else {
+    console.log(`\nAll versions got the same fields right`);
+  }
+  console.log(`\nReport saved to: ${reportPath}`);
+}
+
 export default {
   loadExpectedResults,
   runExtraction,
@@ -389,6 +483,7 @@ export default {
   generateImprovements,
   saveCheckpoint,
   generateIterationReport,
-  generateFinalReport
+  generateFinalReport,
+  generatePromptComparisonReport
 };
 
@@ -6,6 +6,22 @@
  *   npm run test:extraction
  *   npm run test:extraction -- --max-iterations=5
  *   npm run test:extraction -- --pdf=custom.pdf --expected=custom.expected.json
+ *
+ * Exits 0 only when an iteration reaches 100% accuracy.
+ *
+ * Offline (no API key, deterministic; the committed synthetic sample):
+ *   npm run test:extraction:offline
+ * Capture fixtures from a live run:
+ *   npm run test:extraction -- --fixtures=tests/fixtures/test --record --max-iterations=1
+ * Reuse PDF text and results of earlier runs (keyed by file, plan, fields and prompt version):
+ *   npm run test:extraction -- --cache-dir=.extraction-cache
+ * Pin a prompt template version (repeatable; see src/prompts):
+ *   npm run test:extraction -- --prompt-version=field-extraction=1
+ * Compare versions of a prompt, one extraction each:
+ *   npm run test:extraction -- --compare-prompts=field-extraction=1,2
+ * Show few-shot examples from a store built with `npm run cli -- examples`
+ * (the test PDF's own examples are never shown for it):
+ *   npm run test:extraction -- --examples=few-shot-examples.json
  */
 
 import * as path from 'path';
@@ -21,9 +37,16 @@ import {
   saveCheckpoint,
   generateIterationReport,
   generateFinalReport,
+  generatePromptComparisonReport,
+  type PromptComparisonRun,
   type TestConfig,
   type IterationReport
 } from './extractionTest';
+import { createFixtureProvider } from '../cli/fixtureProvider';
+import { createDiskCacheStore } from '../cli/diskCacheStore';
+import { createLLMProvider, type LLMProvider } from '../src/services/llm';
+import { getPrompt, type PromptId, type PromptVersions } from '../src/prompts';
+import type { FewShotExample, PayerPlan } from '../src/constants/fields';
 
 // ES module compatibility
 const __filename = fileURLToPath(import.meta.url);
@@ -35,12 +58,24 @@ function parseArgs(): {
   expectedPath: string;
   maxIterations: number;
   apiKey?: string;
+  fixturesDir?: string;
+  record: boolean;
+  cacheDir?: string;
+  promptVersions?: PromptVersions;
+  comparePrompts?: { id: PromptId; versions: number[] };
+  examplesPath?: string;
 } {
   const args = process.argv.slice(2);
   let pdfPath = 'test.pdf';
   let expectedPath = 'test.expected.json';
   let maxIterations = 10;
   let apiKey: string | undefined;
+  let fixturesDir: string | undefined;
+  let record = false;
+  let cacheDir: string | undefined;
+  let promptVersions: PromptVersions | undefined;
+  let comparePrompts: { id: PromptId; versions: number[] } | undefined;
+  let examplesPath: string | undefined;
   
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -52,10 +87,42 @@ function parseArgs(): {
       maxIterations = parseInt(arg.split('=')[1], 10);
     } else if (arg.startsWith('--api-key=')) {
       apiKey = arg.split('=')[1];
+    } else if (arg.startsWith('--fixtures=')) {
+      fixturesDir = arg.split('=')[1];
+    } else if (arg === '--record') {
+      record = true;
+    } else if (arg.startsWith('--cache-dir=')) {
+      cacheDir = arg.split('=')[1];
+    } else if (arg.startsWith('--prompt-version=')) {
+      const { id, versions } = parsePromptSpec(arg);
+      promptVersions = { ...promptVersions, [id]: versions[0] };
+    } else if (arg.startsWith('--compare-prompts=')) {
+      comparePrompts = parsePromptSpec(arg);
+    } else if (arg.startsWith('--examples=')) {
+      examplesPath = arg.split('=')[1];
     }
   }
   
-  return { pdfPath, expectedPath, maxIterations, apiKey };
+  return { pdfPath, expectedPath, maxIterations, apiKey, fixturesDir, record, cacheDir, promptVersions, comparePrompts, examplesPath };
+}
+
+/**
+ * "--flag=<prompt id>=<version>[,<version>...]" - ids and versions must exist in the registry
+ */
+function parsePromptSpec(arg: string): { id: PromptId; versions: number[] } {
+  const [, id, list = ''] = arg.split('=');
+  const versions = list.split(',').filter(Boolean).map(Number);
+  if (!id || versions.length === 0 || versions.some(isNaN)) {
+    console.error(`Error: expected ${arg.split('=')[0]}=<prompt id>=<version>[,<version>...], got "${arg}"`);
+    process.exit(1);
+  }
+  try {
+    versions.forEach(version => getPrompt(id as PromptId, version));
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  return { id: id as PromptId, versions };
 }
 
 /**
@@ -87,10 +154,11 @@ async function applyImprovements(improvements: string[], iteration: number): Pro
  * Main recursive test function
  */
 async function recursiveTest(): Promise<void> {
-  const { pdfPath, expectedPath, maxIterations, apiKey: argApiKey } = parseArgs();
+  const { pdfPath, expectedPath, maxIterations, apiKey: argApiKey, fixturesDir, record, cacheDir, promptVersions, comparePrompts, examplesPath } = parseArgs();
+  const replayFixtures = !!fixturesDir && !record;
   
-  // Get API key from args or environment
-  const apiKey = argApiKey || process.env.OPENAI_API_KEY;
+  // Get API key from args or environment (not needed when replaying fixtures)
+  const apiKey = argApiKey || process.env.OPENAI_API_KEY || (replayFixtures ? 'fixture-replay' : undefined);
   if (!apiKey) {
     console.error('Error: OpenAI API key required');
     console.error('Set OPENAI_API_KEY environment variable or use --api-key=YOUR_KEY');
@@ -102,7 +170,23 @@ async function recursiveTest(): Promise<void> {
   const fullPdfPath = path.resolve(projectRoot, pdfPath);
   const fullExpectedPath = path.resolve(projectRoot, expectedPath);
   const reportDir = path.resolve(projectRoot, 'test-reports');
-  const apiPath = path.resolve(projectRoot, 'src/services/extractionApi.new.ts');
+  // Fixture runs, prompt versions and few-shot examples need the provider-aware pipeline in extractionApi.ts
+  const useRegistry = !!fixturesDir || !!promptVersions || !!comparePrompts || !!examplesPath;
+  const apiPath = path.resolve(projectRoot, useRegistry ? 'src/services/extractionApi.ts' : 'src/services/extractionApi.new.ts');
+  
+  let provider: LLMProvider | undefined;
+  if (fixturesDir) {
+    provider = createFixtureProvider({
+      fixturesDir: path.resolve(projectRoot, fixturesDir),
+      mode: record ? 'record' : 'replay',
+      delegate: record ? createLLMProvider({ kind: 'openai', apiKey }) : undefined
+    });
+  }
+  
+  const cache = cacheDir ? createDiskCacheStore(path.resolve(projectRoot, cacheDir)) : undefined;
+  const examples: FewShotExample[] | undefined = examplesPath
+    ? JSON.parse(fs.readFileSync(path.resolve(projectRoot, examplesPath), 'utf8'))
+    : undefined;
   
   // Verify files exist
   if (!fs.existsSync(fullPdfPath)) {
@@ -125,15 +209,39 @@ async function recursiveTest(): Promise<void> {
   console.log(`PDF: ${pdfPath}`);
   console.log(`Expected Results: ${expectedPath}`);
   console.log(`Max Iterations: ${maxIterations}`);
-  console.log(`API: extractionApi.new.ts`);
+  console.log(`API: ${path.basename(apiPath)}`);
+  if (fixturesDir) {
+    console.log(`Fixtures: ${fixturesDir} (${record ? 'record' : 'replay'})`);
+  }
+  if (examples) {
+    console.log(`Few-shot examples: ${examples.length} (${examplesPath})`);
+  }
   console.log(`Reports: test-reports/`);
   console.log(`${'='.repeat(60)}\n`);
   
   // Load expected results
   const expected = loadExpectedResults(fullExpectedPath);
   console.log(`Loaded expected results for ${expected.pdfName}`);
-  console.log(`Payer Plan: ${expected.payerPlan}`);
+  console.log(`Payer Plan: ${expected.payerPlanName ?? expected.payerPlan}`);
   console.log(`Total fields: ${Object.keys(expected.expectedFields).length}\n`);
+
+  if (comparePrompts) {
+    const runs: PromptComparisonRun[] = [];
+    for (const version of comparePrompts.versions) {
+      const requested: PromptVersions = { ...promptVersions, [comparePrompts.id]: version };
+      console.log(`\nRunning extraction with ${comparePrompts.id}@${version}...`);
+      const startTime = Date.now();
+      const actual = await runExtraction(fullPdfPath, expected.payerPlan as PayerPlan, apiKey, apiPath, provider, cache, requested, examples, expected);
+      runs.push({
+        requested,
+        used: actual.promptVersions,
+        results: compareResults(expected.expectedFields, actual.data),
+        timeMs: Date.now() - startTime
+      });
+    }
+    generatePromptComparisonReport(runs, reportDir);
+    return;
+  }
   
   // Track all reports
   const allReports: IterationReport[] = [];
@@ -156,12 +264,17 @@ async function recursiveTest(): Promise<void> {
         fullPdfPath,
         expected.payerPlan as any,
         apiKey,
-        apiPath
+        apiPath,
+        provider,
+        cache,
+        promptVersions,
+        examples,
+        expected
       );
       
       // Compare results
       console.log('Comparing with expected results...');
-      const results = compareResults(expected.expectedFields, actual);
+      const results = compareResults(expected.expectedFields, actual.data);
       const metrics = calculateAccuracy(results);
       
       const timeMs = Date.now() - startTime;
@@ -181,7 +294,7 @@ async function recursiveTest(): Promise<void> {
         console.log(`\n🎉 SUCCESS! 100% accuracy achieved in ${iteration} iteration(s)!`);
         
         const improvements: string[] = [];
-        generateIterationReport(iteration, results, improvements, timeMs, reportDir);
+        generateIterationReport(iteration, results, improvements, timeMs, reportDir, actual.promptVersions);
         allReports.push({
           iteration,
           timestamp: new Date().toISOString(),
@@ -191,7 +304,8 @@ async function recursiveTest(): Promise<void> {
           fieldsFailed: 0,
           failures: [],
           improvementsApplied: improvements,
-          timeMs
+          timeMs,
+          promptVersions: actual.promptVersions
         });
         
         generateFinalReport(allReports, true, reportDir);
@@ -202,7 +316,7 @@ async function recursiveTest(): Promise<void> {
       const improvements = generateImprovements(metrics.failed);
       
       // Generate iteration report
-      generateIterationReport(iteration, results, improvements, timeMs, reportDir);
+      generateIterationReport(iteration, results, improvements, timeMs, reportDir, actual.promptVersions);
       
       // Store report
       allReports.push({
@@ -214,7 +328,8 @@ async function recursiveTest(): Promise<void> {
         fieldsFailed: metrics.failed.length,
         failures: metrics.failed,
         improvementsApplied: improvements,
-        timeMs
+        timeMs,
+        promptVersions: actual.promptVersions
       });
       
       // Apply improvements for next iteration
@@ -249,12 +364,15 @@ async function recursiveTest(): Promise<void> {
     }
   }
   
-  // Max iterations reached
-  if (iteration >= maxIterations) {
+  // Max iterations reached, or an iteration failed - either way the run did not pass
+  if (allReports.length === iteration) {
     console.log(`\n⚠ Maximum iterations (${maxIterations}) reached`);
     console.log(`Best accuracy achieved: ${bestAccuracy.toFixed(1)}%`);
-    generateFinalReport(allReports, false, reportDir);
+  } else {
+    console.error(`\n✗ Stopped after iteration ${iteration} failed`);
   }
+  generateFinalReport(allReports, false, reportDir);
+  process.exit(1);
 }
 
 // Run the test